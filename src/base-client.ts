@@ -0,0 +1,1895 @@
+/**
+ * TranslatePlus API client core, shared by the Node.js and browser entries.
+ *
+ * Nothing here touches the file system or a specific HTTP library: requests go
+ * through a Transport, and local file access is left to subclasses.
+ */
+
+import {
+  TranslateOptions,
+  BatchTranslateOptions,
+  TranslateHTMLOptions,
+  TranslateEmailOptions,
+  TranslateSubtitleOptions,
+  I18nJobOptions,
+  TranslateResponse,
+  BatchTranslateResponse,
+  TranslateHTMLResponse,
+  TranslateEmailResponse,
+  TranslateSubtitleResponse,
+  TranslateSubtitlesToManyOptions,
+  MultiTargetOptions,
+  MultiTargetResponse,
+  DetectLanguageResponse,
+  SupportedLanguagesResponse,
+  AccountSummaryResponse,
+  I18nJobResponse,
+  I18nJobStatusResponse,
+  I18nJobListResponse,
+  RequestOptions,
+  WaitForI18nJobOptions,
+  TranslateLocaleOptions,
+  TranslateLocaleResponse,
+  SyncLocaleOptions,
+  SyncLocaleResponse,
+  TranslateLocaleFileOptions,
+  TranslateLocaleFileResponse,
+  CreditEstimateRequests,
+} from './types';
+import {
+  TranslatePlusError,
+  TranslatePlusAPIError,
+  TranslatePlusAuthenticationError,
+  TranslatePlusRateLimitError,
+  TranslatePlusInsufficientCreditsError,
+  TranslatePlusValidationError,
+  TranslatePlusCancelledError,
+  TranslatePlusResponseFormatError,
+  TranslatePlusTimeoutError,
+  TranslatePlusNetworkError,
+  TranslatePlusServerError,
+  TranslatePlusNotFoundError,
+  TranslatePlusRequestValidationError,
+  isCallWideError,
+  FieldError,
+} from './exceptions';
+import { CacheAdapter, CacheStats } from './cache';
+import { Semaphore, SemaphoreStats } from './semaphore';
+import {
+  RetryPolicy,
+  ResolvedRetryPolicy,
+  resolveRetryPolicy,
+  parseRetryAfter,
+  isRetryableError,
+  computeRetryDelay,
+  sleep,
+} from './retry';
+import {
+  Middleware,
+  MiddlewareRequest,
+  MiddlewareResponse,
+  runBeforeRequest,
+  runAfterResponse,
+  runOnError,
+} from './middleware';
+import { translateLocaleData, syncLocaleData, translateLocaleUnits } from './locale';
+import { readLocaleFile, serializeLocaleFile } from './formats';
+import {
+  PlaceholderWarning,
+  maskPlaceholders,
+  unmaskPlaceholders,
+  comparePlaceholders,
+} from './placeholders';
+import { Glossary, GlossaryWarning, maskTerms, restoreTerms } from './glossary';
+import {
+  StreamInput,
+  StreamTranslationItem,
+  TranslateStreamOptions,
+  readTexts,
+  translateInBatches,
+} from './stream';
+import { assertValidSubtitles, translateSubtitleCues } from './subtitles';
+import {
+  BudgetOptions,
+  CreditBudget,
+  CreditEstimateData,
+  CreditUsage,
+  CREDIT_ENDPOINTS,
+  estimateRequestCredits,
+} from './credits';
+import { downloadI18nJobFiles, pollI18nJob } from './jobs';
+import { checkResponseShape } from './schema';
+import { CassetteOptions, cassetteFetch } from './cassette';
+import { FetchFunction, Transport, TransportRequest, UploadFile, readText } from './transport';
+import { __version__ } from './version';
+
+/** Maximum number of texts the API accepts in a single batch request. */
+const MAX_BATCH_SIZE = 100;
+
+const ACCOUNT_ENDPOINT = '/v2/user/account';
+
+export interface ClientOptions {
+  apiKey: string;
+  baseUrl?: string;
+  timeout?: number;
+  maxRetries?: number;
+  maxConcurrent?: number;
+  maxQueueSize?: number;
+  semaphore?: Semaphore;
+  autoConcurrency?: boolean;
+  retryPolicy?: RetryPolicy;
+  middleware?: Middleware[];
+  cache?: CacheAdapter;
+  /** Glossary applied to text, batch, HTML, email and subtitle translation */
+  glossary?: Glossary;
+  /** Refuse requests whose estimated cost exceeds a cap or the account balance */
+  budget?: BudgetOptions;
+  /**
+   * Send requests with this function instead of the runtime's HTTP client, e.g. a
+   * FakeTranslatePlusServer's fetch. On Node.js, uploads are form-data instances.
+   */
+  fetch?: FetchFunction;
+  /** Record every request/response pair to a cassette, or replay responses from one */
+  cassette?: CassetteOptions;
+  /**
+   * Check every JSON response against the shape in the response types. Mismatches throw
+   * TranslatePlusResponseFormatError, or with 'lenient' are passed to onInvalidResponse
+   * and the response is returned as is.
+   */
+  validateResponses?: boolean | 'lenient';
+  /** Receives mismatches in lenient mode (default: console.warn) */
+  onInvalidResponse?: (error: TranslatePlusResponseFormatError) => void;
+}
+
+type BatchTranslationItem = BatchTranslateResponse['translations'][number];
+
+/**
+ * Create an AbortController that aborts after the timeout or when the caller's signal aborts.
+ * Call cleanup once the request settles.
+ */
+function linkAbortSignal(
+  timeout: number,
+  signal?: AbortSignal
+): { controller: AbortController; cleanup: () => void } {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+  const onAbort = () => controller.abort();
+  if (signal && signal.aborted) {
+    controller.abort();
+  } else if (signal) {
+    signal.addEventListener('abort', onAbort, { once: true });
+  }
+  return {
+    controller,
+    cleanup: () => {
+      clearTimeout(timeoutId);
+      if (signal) {
+        signal.removeEventListener('abort', onAbort);
+      }
+    },
+  };
+}
+
+/**
+ * Map an error response to the matching exception class.
+ */
+function createAPIError(response: MiddlewareResponse): TranslatePlusAPIError {
+  const { status } = response;
+  const errorData = (response.data || {}) as { detail?: unknown };
+  const fields = parseFieldErrors(errorData.detail);
+  const errorMessage =
+    typeof errorData.detail === 'string'
+      ? errorData.detail
+      : fields.length > 0
+        ? `Invalid request: ${fields
+            .map(({ field, message }) => (field ? `${field}: ${message}` : message))
+            .join('; ')}`
+        : `API error: ${status}`;
+
+  let error: TranslatePlusAPIError;
+  if (status === 401 || status === 403) {
+    error = new TranslatePlusAuthenticationError(errorMessage, status, errorData);
+  } else if (status === 402) {
+    error = new TranslatePlusInsufficientCreditsError(errorMessage, status, errorData);
+  } else if (status === 429) {
+    error = new TranslatePlusRateLimitError(
+      typeof errorData.detail === 'string'
+        ? errorData.detail
+        : 'Rate limit exceeded. Please try again later.',
+      status,
+      errorData
+    );
+  } else if (status === 404) {
+    error = new TranslatePlusNotFoundError(errorMessage, status, errorData);
+  } else if (status === 400 || status === 422) {
+    error = new TranslatePlusRequestValidationError(errorMessage, status, errorData, fields);
+  } else if (status >= 500) {
+    error = new TranslatePlusServerError(errorMessage, status, errorData);
+  } else {
+    error = new TranslatePlusAPIError(errorMessage, status, errorData);
+  }
+  error.retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+  error.requestId = response.headers.get('X-Request-ID') || undefined;
+  return error;
+}
+
+/**
+ * Read field errors from a validation error's `detail`, a list of
+ * `{ loc: ['body', 'texts', 2], msg: '...' }` entries.
+ */
+function parseFieldErrors(detail: unknown): FieldError[] {
+  if (!Array.isArray(detail)) {
+    return [];
+  }
+  return detail
+    .filter((item) => item && typeof item.msg === 'string')
+    .map((item) => {
+      const loc: unknown[] = Array.isArray(item.loc) ? item.loc : [];
+      const path = ['body', 'query', 'path'].includes(String(loc[0])) ? loc.slice(1) : loc;
+      return { field: path.join('.'), message: item.msg };
+    });
+}
+
+interface ShieldedText {
+  /** Text to send, with placeholders and glossary terms masked */
+  text: string;
+  /** Put placeholders and terms back into a translation and check them */
+  restore(translation: string): {
+    text: string;
+    glossaryWarnings?: GlossaryWarning[];
+    placeholderWarnings?: PlaceholderWarning[];
+  };
+}
+
+/**
+ * Mask placeholders and glossary terms in a text before translation.
+ * Returns undefined when neither is enabled.
+ */
+function shieldText(
+  text: string,
+  target: string,
+  glossary: Glossary | undefined,
+  protectPlaceholders: boolean | undefined
+): ShieldedText | undefined {
+  if (!glossary && !protectPlaceholders) {
+    return undefined;
+  }
+  const placeholders = protectPlaceholders ? maskPlaceholders(text) : undefined;
+  const masked = placeholders ? placeholders.text : text;
+  const terms = glossary ? maskTerms(masked, glossary, target) : undefined;
+
+  return {
+    text: terms ? terms.text : masked,
+    restore: (translation) => {
+      const result: ReturnType<ShieldedText['restore']> = { text: translation };
+      if (terms) {
+        const restored = restoreTerms(result.text, terms);
+        result.text = restored.text;
+        result.glossaryWarnings = restored.warnings;
+      }
+      if (placeholders) {
+        result.text = unmaskPlaceholders(result.text, placeholders.tokens).text;
+        result.placeholderWarnings = comparePlaceholders(text, result.text);
+      }
+      return result;
+    },
+  };
+}
+
+/**
+ * Runtime-independent TranslatePlus client. Use `TranslatePlusClient` from the
+ * package entry for your runtime rather than this class directly.
+ *
+ * Methods that take a `file_path` or `downloadDir` need local file access, which
+ * only the Node.js client provides; elsewhere pass file contents instead.
+ */
+export class TranslatePlusBaseClient {
+  private apiKey: string;
+  private baseUrl: string;
+  private timeout: number;
+  private maxRetries: number;
+  private retryPolicy: ResolvedRetryPolicy;
+  private middleware: Middleware[];
+  private semaphore: Semaphore;
+  private autoConcurrency: boolean;
+  private concurrencySizing?: Promise<void>;
+  private cache?: CacheAdapter;
+  private cacheStats: CacheStats = { hits: 0, misses: 0 };
+  private glossary?: Glossary;
+  private credits: CreditBudget;
+  private transport: Transport;
+  private validateResponses: boolean | 'lenient';
+  private onInvalidResponse: (error: TranslatePlusResponseFormatError) => void;
+
+  constructor(options: ClientOptions, transport: Transport) {
+    if (!options.apiKey) {
+      throw new TranslatePlusValidationError('API key is required');
+    }
+
+    this.apiKey = options.apiKey;
+    this.baseUrl = (options.baseUrl || 'https://api.translateplus.io').replace(/\/$/, '');
+    this.timeout = options.timeout || 30000;
+    this.maxRetries = options.maxRetries !== undefined ? options.maxRetries : 3;
+    this.retryPolicy = resolveRetryPolicy(options.retryPolicy);
+    this.middleware = options.middleware ? [...options.middleware] : [];
+    this.semaphore =
+      options.semaphore ||
+      new Semaphore({
+        maxConcurrent: options.maxConcurrent || 5,
+        maxQueueSize: options.maxQueueSize,
+      });
+    this.autoConcurrency = options.autoConcurrency || false;
+    this.cache = options.cache;
+    this.glossary = options.glossary;
+    this.credits = new CreditBudget(options.budget, () => this.getAccountSummary());
+    this.transport = options.fetch ? { ...transport, fetch: options.fetch } : transport;
+    this.validateResponses = options.validateResponses || false;
+    this.onInvalidResponse =
+      options.onInvalidResponse || ((error) => console.warn(`translateplus: ${error.message}`));
+    if (options.cassette) {
+      this.transport = {
+        ...this.transport,
+        fetch: cassetteFetch(options.cassette, this.transport.fetch, {
+          read: (filePath) => this.readLocalFile(filePath),
+          write: (directory, files) => this.writeLocalFiles(directory, files),
+        }),
+      };
+    }
+  }
+
+  /**
+   * Read a local file for upload.
+   *
+   * @throws TranslatePlusValidationError where the runtime has no file system
+   */
+  protected readLocalFile(filePath: string): Uint8Array {
+    throw new TranslatePlusValidationError(
+      `Cannot read ${filePath}: file_path is only supported on Node.js; pass file and filename instead`
+    );
+  }
+
+  /**
+   * Write downloaded files into a local directory.
+   *
+   * @throws TranslatePlusValidationError where the runtime has no file system
+   */
+  protected writeLocalFiles(
+    directory: string,
+    files: Array<{ name: string; data: Uint8Array }>
+  ): void {
+    throw new TranslatePlusValidationError(
+      `Cannot write ${files.length} files to ${directory}: downloadDir is only supported on Node.js`
+    );
+  }
+
+  /**
+   * Get the contents and name of a file passed as `file` or `file_path`.
+   */
+  private resolveUpload(options: {
+    file_path?: string;
+    file?: Blob | Uint8Array;
+    filename?: string;
+  }): UploadFile {
+    if (options.file !== undefined) {
+      if (!options.filename) {
+        throw new TranslatePlusValidationError('filename is required when passing file');
+      }
+      return { data: options.file, filename: options.filename };
+    }
+    if (!options.file_path) {
+      throw new TranslatePlusValidationError('Either file or file_path is required');
+    }
+    return {
+      data: this.readLocalFile(options.file_path),
+      filename: options.file_path.split(/[\\/]/).pop() as string,
+    };
+  }
+
+  /**
+   * Register middleware that runs around every HTTP request.
+   *
+   * @param middleware - Request, response and error hooks
+   * @returns The client, for chaining
+   *
+   * @example
+   * ```typescript
+   * client.use({
+   *   beforeRequest: (request) => {
+   *     request.headers['X-Trace-Id'] = traceId();
+   *   },
+   * });
+   * ```
+   */
+  use(middleware: Middleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Get cache hit/miss statistics. Both are zero when no cache is configured.
+   */
+  getCacheStats(): CacheStats {
+    return { ...this.cacheStats };
+  }
+
+  /**
+   * Get request queue statistics: active and queued requests and time spent waiting.
+   */
+  getQueueStats(): SemaphoreStats {
+    return this.semaphore.getStats();
+  }
+
+  /**
+   * Reject every request still waiting in the queue with TranslatePlusCancelledError.
+   * Requests that are already in flight are not affected.
+   */
+  cancelQueuedRequests(): void {
+    this.semaphore.cancelQueued();
+  }
+
+  /**
+   * Get the estimated credits spent by this client and those still in flight.
+   */
+  getCreditUsage(): CreditUsage {
+    return this.credits.getUsage();
+  }
+
+  /**
+   * Estimate the credits a call will cost, without sending it.
+   *
+   * For createI18nJob the file must be a `file_path` or bytes; use
+   * estimateUploadCredits for any upload, including a Blob.
+   *
+   * @param method - Client method the options are for
+   * @param options - Options you would pass to that method
+   * @returns Estimated credits
+   *
+   * @example
+   * ```typescript
+   * const cost = client.estimateCredits('translateBatch', { texts, target: 'fr' });
+   * ```
+   */
+  estimateCredits<K extends keyof CreditEstimateRequests>(
+    method: K,
+    options: CreditEstimateRequests[K]
+  ): number {
+    if (method === 'createI18nJob') {
+      const jobOptions = options as CreditEstimateRequests['createI18nJob'];
+      const upload = this.resolveUpload(jobOptions);
+      if (!ArrayBuffer.isView(upload.data)) {
+        throw new TranslatePlusValidationError(
+          'Cannot read a Blob synchronously; use estimateUploadCredits instead'
+        );
+      }
+      return estimateRequestCredits(CREDIT_ENDPOINTS[method], options, {
+        filename: upload.filename,
+        content: new TextDecoder().decode(upload.data),
+        format: jobOptions.format,
+      });
+    }
+    return estimateRequestCredits(CREDIT_ENDPOINTS[method], options);
+  }
+
+  /**
+   * Estimate the credits an i18n job will cost, without creating it. Unlike
+   * estimateCredits, this accepts a Blob file, which can only be read asynchronously.
+   *
+   * @param options - Options you would pass to createI18nJob
+   * @returns Estimated credits
+   */
+  async estimateUploadCredits(options: I18nJobOptions): Promise<number> {
+    const upload = this.resolveUpload(options);
+    return estimateRequestCredits(CREDIT_ENDPOINTS.createI18nJob, options, {
+      filename: upload.filename,
+      content: await readText(upload.data),
+      format: options.format,
+    });
+  }
+
+  /**
+   * Estimate a request's cost and reserve it against the budget.
+   *
+   * @returns The reserved credits, to be released once the request settles
+   * @throws TranslatePlusBudgetExceededError if the request would exceed the budget
+   */
+  private async reserveCredits(
+    endpoint: string,
+    data: CreditEstimateData | undefined,
+    files: { [key: string]: UploadFile } | undefined,
+    requestOptions: RequestOptions
+  ): Promise<number> {
+    let upload: { filename: string; content: string } | undefined;
+    if (files && files.file !== undefined) {
+      upload = { filename: files.file.filename, content: await readText(files.file.data) };
+    }
+    const credits = estimateRequestCredits(endpoint, data, upload);
+    await this.credits.reserve(credits, requestOptions.signal);
+    return credits;
+  }
+
+  /**
+   * Size the concurrency limit from the account's concurrency_limit once.
+   * Falls back to the configured limit if the account summary can't be fetched.
+   */
+  private sizeConcurrencyFromAccount(): Promise<void> {
+    if (!this.concurrencySizing) {
+      this.concurrencySizing = this.getAccountSummary().then(
+        () => undefined,
+        () => undefined
+      );
+    }
+    return this.concurrencySizing;
+  }
+
+  /**
+   * Look up a cached value, recording a hit or miss.
+   */
+  private async cacheGet<T>(key: string): Promise<T | undefined> {
+    if (!this.cache) {
+      return undefined;
+    }
+    const value = await this.cache.get(key);
+    if (value === undefined || value === null) {
+      this.cacheStats.misses++;
+      return undefined;
+    }
+    this.cacheStats.hits++;
+    return JSON.parse(value) as T;
+  }
+
+  private async cacheSet(key: string, value: unknown): Promise<void> {
+    if (this.cache) {
+      await this.cache.set(key, JSON.stringify(value));
+    }
+  }
+
+  /**
+   * Send a single HTTP request, aborting after the timeout or when the signal aborts.
+   * Timeouts and connection failures become TranslatePlusTimeoutError and
+   * TranslatePlusNetworkError, which have no status code.
+   */
+  private async fetchWithTimeout(
+    url: string,
+    init: TransportRequest,
+    timeout: number,
+    signal?: AbortSignal
+  ) {
+    const { controller, cleanup } = linkAbortSignal(timeout, signal);
+    try {
+      return await this.transport.fetch(url, { ...init, signal: controller.signal });
+    } catch (caught) {
+      if (caught instanceof TranslatePlusError) {
+        throw caught;
+      }
+      const error = caught as Error;
+      if (error.name === 'AbortError') {
+        if (signal && signal.aborted) {
+          throw new TranslatePlusCancelledError('Request cancelled');
+        }
+        throw new TranslatePlusTimeoutError(`Request timeout after ${timeout}ms`, timeout, error);
+      }
+      throw new TranslatePlusNetworkError(`Network error: ${error.message}`, error);
+    } finally {
+      cleanup();
+    }
+  }
+
+  /**
+   * Run one attempt through the middleware chain and read the response body.
+   * Error responses are thrown as the matching TranslatePlusAPIError subclass.
+   */
+  private async send(
+    request: MiddlewareRequest,
+    timeout: number,
+    signal: AbortSignal | undefined,
+    responseType: 'json' | 'buffer'
+  ): Promise<MiddlewareResponse> {
+    try {
+      request = await runBeforeRequest(this.middleware, request);
+      const startTime = Date.now();
+      const response = await this.fetchWithTimeout(
+        request.url,
+        { method: request.method, headers: request.headers, body: request.body },
+        timeout,
+        signal
+      );
+
+      let data: unknown;
+      if (response.status >= 400) {
+        data = await response.json().catch(() => ({}));
+      } else if (responseType === 'buffer') {
+        data = this.transport.toBytes(await response.arrayBuffer());
+      } else {
+        data = await response.json();
+      }
+
+      const result = await runAfterResponse(this.middleware, {
+        request,
+        status: response.status,
+        headers: response.headers,
+        data,
+        duration: Date.now() - startTime,
+      });
+      if (result.status >= 400) {
+        throw createAPIError(result);
+      }
+      return result;
+    } catch (error) {
+      if (error instanceof TranslatePlusAPIError) {
+        error.method = request.method;
+        error.endpoint = request.endpoint;
+        error.attempt = request.attempt + 1;
+      }
+      await runOnError(this.middleware, error as Error, request);
+      throw error;
+    }
+  }
+
+  /**
+   * Check a response body against its schema when validateResponses is set.
+   *
+   * @throws TranslatePlusResponseFormatError on a mismatch, unless validation is lenient
+   */
+  private checkResponse(method: string, endpoint: string, data: unknown): void {
+    if (!this.validateResponses) {
+      return;
+    }
+    const mismatch = checkResponseShape(method, endpoint, data);
+    if (!mismatch) {
+      return;
+    }
+    const error = new TranslatePlusResponseFormatError(
+      `Unexpected response from ${method} ${endpoint}: expected ${mismatch.expected} ` +
+        `at ${mismatch.path}, got ${mismatch.received}`,
+      endpoint,
+      mismatch.path,
+      data
+    );
+    if (this.validateResponses !== 'lenient') {
+      throw error;
+    }
+    this.onInvalidResponse(error);
+  }
+
+  /**
+   * Make an HTTP request to the API.
+   */
+  private async makeRequest<T>(
+    method: string,
+    endpoint: string,
+    data?: any,
+    files?: { [key: string]: UploadFile },
+    params?: { [key: string]: string | number },
+    requestOptions: RequestOptions = {}
+  ): Promise<T> {
+    const url = `${this.baseUrl}/${endpoint.replace(/^\//, '')}`;
+    const { signal } = requestOptions;
+    const timeout = requestOptions.timeout !== undefined ? requestOptions.timeout : this.timeout;
+    const maxRetries =
+      requestOptions.maxRetries !== undefined ? requestOptions.maxRetries : this.maxRetries;
+
+    if (this.autoConcurrency && endpoint !== ACCOUNT_ENDPOINT) {
+      await this.sizeConcurrencyFromAccount();
+    }
+
+    const credits = await this.reserveCredits(endpoint, data, files, requestOptions);
+
+    // Wait for a slot (concurrency control)
+    let release: () => void;
+    try {
+      release = await this.semaphore.acquire({
+        priority: requestOptions.priority,
+        signal,
+      });
+    } catch (error) {
+      this.credits.release(credits);
+      throw error;
+    }
+
+    try {
+      // Prepare headers
+      const headers: { [key: string]: string } = {
+        'X-API-KEY': this.apiKey,
+        'User-Agent': `translateplus-js/${__version__}`,
+        ...requestOptions.headers,
+      };
+
+      let body: unknown;
+      const fields: { [key: string]: string } = {};
+      if (files) {
+        if (data) {
+          Object.keys(data).forEach((key) => {
+            fields[key] = String(data[key]);
+          });
+        }
+      } else {
+        headers['Content-Type'] = 'application/json';
+        body = data ? JSON.stringify(data) : undefined;
+      }
+
+      // Add query parameters
+      let queryString = '';
+      if (params) {
+        const queryParams = new URLSearchParams();
+        Object.keys(params).forEach((key) => {
+          queryParams.append(key, String(params[key]));
+        });
+        queryString = '?' + queryParams.toString();
+      }
+
+      const startTime = Date.now();
+      let previousDelay = 0;
+      for (let attempt = 0; ; attempt++) {
+        if (signal && signal.aborted) {
+          throw new TranslatePlusCancelledError('Request cancelled');
+        }
+
+        try {
+          const attemptHeaders = { ...headers };
+          if (files) {
+            // A multipart body is a stream on Node.js and can only be sent once
+            const form = await this.transport.createFormData(fields, files);
+            Object.assign(attemptHeaders, form.headers);
+            body = form.body;
+          }
+          const response = await this.send(
+            {
+              method,
+              url: `${url}${queryString}`,
+              endpoint,
+              headers: attemptHeaders,
+              body,
+              attempt,
+            },
+            timeout,
+            signal,
+            'json'
+          );
+          this.credits.spend(credits);
+          this.checkResponse(method, endpoint, response.data);
+          return response.data as T;
+        } catch (error) {
+          if (attempt >= maxRetries || !isRetryableError(error, this.retryPolicy)) {
+            throw error;
+          }
+
+          let delay = computeRetryDelay(this.retryPolicy, attempt, previousDelay);
+          const retryAfter = error instanceof TranslatePlusAPIError ? error.retryAfter : undefined;
+          if (retryAfter !== undefined && this.retryPolicy.respectRetryAfter) {
+            if (retryAfter > this.retryPolicy.maxDelay) {
+              // The server asked us to wait longer than we're willing to
+              throw error;
+            }
+            delay = Math.max(delay, retryAfter);
+          }
+          const { maxElapsedTime } = this.retryPolicy;
+          if (maxElapsedTime !== undefined && Date.now() - startTime + delay > maxElapsedTime) {
+            throw error;
+          }
+          previousDelay = delay;
+
+          if (this.retryPolicy.onRetry) {
+            await this.retryPolicy.onRetry({
+              attempt: attempt + 1,
+              delay,
+              error: error as Error,
+              method,
+              endpoint,
+            });
+          }
+          await sleep(delay, signal);
+        }
+      }
+    } finally {
+      this.credits.release(credits);
+      release();
+    }
+  }
+
+  /**
+   * Translate a single text.
+   *
+   * @param options - Translation options
+   * @param requestOptions - Per-call options (signal, timeout, retries, headers)
+   * @returns Translation result
+   *
+   * @example
+   * ```typescript
+   * const result = await client.translate({
+   *   text: 'Hello, world!',
+   *   source: 'en',
+   *   target: 'fr'
+   * });
+   * console.log(result.translations.translation); // 'Bonjour le monde !'
+   * ```
+   */
+  async translate(
+    options: TranslateOptions,
+    requestOptions?: RequestOptions
+  ): Promise<TranslateResponse> {
+    const shielded = shieldText(
+      options.text,
+      options.target,
+      options.glossary || this.glossary,
+      options.protectPlaceholders
+    );
+    if (!shielded) {
+      return this.sendTranslate(options, requestOptions);
+    }
+
+    const result = await this.sendTranslate({ ...options, text: shielded.text }, requestOptions);
+    const { text, ...warnings } = shielded.restore(result.translations.translation);
+    return {
+      ...result,
+      ...warnings,
+      translations: { ...result.translations, text: options.text, translation: text },
+    };
+  }
+
+  private async sendTranslate(
+    options: TranslateOptions,
+    requestOptions?: RequestOptions
+  ): Promise<TranslateResponse> {
+    const source = options.source || 'auto';
+    const cacheKey = `text:${source}:${options.target}:${options.text}`;
+    const cached = await this.cacheGet<TranslateResponse['translations']>(cacheKey);
+    if (cached) {
+      return { translations: cached };
+    }
+
+    const result = await this.makeRequest<TranslateResponse>(
+      'POST',
+      '/v2/translate',
+      {
+        text: options.text,
+        source,
+        target: options.target,
+      },
+      undefined,
+      undefined,
+      requestOptions
+    );
+    await this.cacheSet(cacheKey, result.translations);
+    return result;
+  }
+
+  /**
+   * Translate multiple texts in a single request.
+   *
+   * @param options - Batch translation options
+   * @param requestOptions - Per-call options (signal, timeout, retries, headers)
+   * @returns Batch translation result
+   *
+   * @example
+   * ```typescript
+   * const result = await client.translateBatch({
+   *   texts: ['Hello', 'Goodbye', 'Thank you'],
+   *   source: 'en',
+   *   target: 'fr'
+   * });
+   * result.translations.forEach(t => console.log(t.translation));
+   * ```
+   */
+  async translateBatch(
+    options: BatchTranslateOptions,
+    requestOptions?: RequestOptions
+  ): Promise<BatchTranslateResponse> {
+    if (!options.texts || options.texts.length === 0) {
+      throw new TranslatePlusValidationError('Texts array cannot be empty');
+    }
+    if (options.texts.length > MAX_BATCH_SIZE) {
+      throw new TranslatePlusValidationError(
+        `Maximum ${MAX_BATCH_SIZE} texts allowed per batch request`
+      );
+    }
+
+    const glossary = options.glossary || this.glossary;
+    if (!glossary && !options.protectPlaceholders) {
+      return this.sendBatch(options, requestOptions);
+    }
+
+    const shielded = options.texts.map(
+      (text) =>
+        shieldText(text, options.target, glossary, options.protectPlaceholders) as ShieldedText
+    );
+    const result = await this.sendBatch(
+      { ...options, texts: shielded.map((item) => item.text) },
+      requestOptions
+    );
+    const translations = result.translations.map((item, i) => {
+      if (!item.success) {
+        return { ...item, text: options.texts[i] };
+      }
+      const { text, ...warnings } = shielded[i].restore(item.translation);
+      return { ...item, ...warnings, text: options.texts[i], translation: text };
+    });
+    return { ...result, translations };
+  }
+
+  private async sendBatch(
+    options: BatchTranslateOptions,
+    requestOptions?: RequestOptions
+  ): Promise<BatchTranslateResponse> {
+    const source = options.source || 'auto';
+    if (!this.cache) {
+      return this.makeRequest<BatchTranslateResponse>(
+        'POST',
+        '/v2/translate/batch',
+        {
+          texts: options.texts,
+          source,
+          target: options.target,
+        },
+        undefined,
+        undefined,
+        requestOptions
+      );
+    }
+
+    // Only send cache misses to the API, then stitch hits back in order
+    const cacheKeys = options.texts.map((text) => `text:${source}:${options.target}:${text}`);
+    const translations: Array<BatchTranslationItem | undefined> = [];
+    const missIndexes: number[] = [];
+    for (let i = 0; i < options.texts.length; i++) {
+      const cached = await this.cacheGet<TranslateResponse['translations']>(cacheKeys[i]);
+      if (cached) {
+        translations[i] = { ...cached, success: true };
+      } else {
+        missIndexes.push(i);
+      }
+    }
+
+    if (missIndexes.length > 0) {
+      const result = await this.makeRequest<BatchTranslateResponse>(
+        'POST',
+        '/v2/translate/batch',
+        {
+          texts: missIndexes.map((i) => options.texts[i]),
+          source,
+          target: options.target,
+        },
+        undefined,
+        undefined,
+        requestOptions
+      );
+      for (let j = 0; j < missIndexes.length; j++) {
+        const item = result.translations[j];
+        translations[missIndexes[j]] = item;
+        if (item && item.success) {
+          const { text, translation, source: itemSource, target } = item;
+          await this.cacheSet(cacheKeys[missIndexes[j]], {
+            text,
+            translation,
+            source: itemSource,
+            target,
+          });
+        }
+      }
+    }
+
+    const items = translations as BatchTranslationItem[];
+    const successful = items.filter((t) => t.success).length;
+    return {
+      translations: items,
+      total: items.length,
+      successful,
+      failed: items.length - successful,
+    };
+  }
+
+  /**
+   * Translate any number of texts by splitting them into batch-sized chunks.
+   *
+   * Chunks run in parallel within the client's concurrency limit and are merged
+   * into a single response in input order. A chunk that fails is reported as
+   * failed items rather than rejecting the whole call, except on cancellation,
+   * authentication and credit errors, which would fail every chunk and reject.
+   *
+   * @param options - Batch translation options (no limit on the number of texts)
+   * @param requestOptions - Per-call options (signal, timeout, retries, headers)
+   * @returns Merged batch translation result
+   *
+   * @example
+   * ```typescript
+   * const result = await client.translateBatchChunked({
+   *   texts: manyTexts, // e.g. 1000 strings
+   *   source: 'en',
+   *   target: 'fr'
+   * });
+   * console.log(`${result.successful} of ${result.total} translated`);
+   * ```
+   */
+  async translateBatchChunked(
+    options: BatchTranslateOptions,
+    requestOptions?: RequestOptions
+  ): Promise<BatchTranslateResponse> {
+    if (!options.texts || options.texts.length === 0) {
+      throw new TranslatePlusValidationError('Texts array cannot be empty');
+    }
+
+    const chunks: string[][] = [];
+    for (let i = 0; i < options.texts.length; i += MAX_BATCH_SIZE) {
+      chunks.push(options.texts.slice(i, i + MAX_BATCH_SIZE));
+    }
+
+    const results = await Promise.all(
+      chunks.map(async (texts) => {
+        try {
+          const result = await this.translateBatch({ ...options, texts }, requestOptions);
+          return result.translations;
+        } catch (error) {
+          if (isCallWideError(error)) {
+            throw error;
+          }
+          return texts.map((text) => ({
+            text,
+            translation: '',
+            source: options.source || 'auto',
+            target: options.target,
+            success: false,
+            error: (error as Error).message,
+          }));
+        }
+      })
+    );
+
+    const translations: BatchTranslateResponse['translations'] = [];
+    results.forEach((chunk) => translations.push(...chunk));
+    const successful = translations.filter((t) => t.success).length;
+    return {
+      translations,
+      total: translations.length,
+      successful,
+      failed: translations.length - successful,
+    };
+  }
+
+  /**
+   * Translate a stream of texts, yielding results in input order as they complete.
+   *
+   * Texts are grouped into batch requests with at most `maxInFlight` batches pending;
+   * the input is not read further until the oldest batch is done. A Node Readable or
+   * byte chunks are split into lines. Failed batches are yielded as failed items.
+   *
+   * @param input - Async iterable of texts, or a Readable of text
+   * @param options - Target language and batching options
+   * @param requestOptions - Per-call options (signal, timeout, retries, headers)
+   * @returns Async iterable of translation items, one per input text
+   *
+   * @example
+   * ```typescript
+   * const input = fs.createReadStream('app.log');
+   * for await (const item of client.translateStream(input, { source: 'de', target: 'en' })) {
+   *   console.log(item.success ? item.translation : item.text);
+   * }
+   * ```
+   */
+  async *translateStream(
+    input: StreamInput,
+    options: TranslateStreamOptions,
+    requestOptions?: RequestOptions
+  ): AsyncGenerator<StreamTranslationItem> {
+    if (options.batchSize !== undefined && options.batchSize > MAX_BATCH_SIZE) {
+      throw new TranslatePlusValidationError(
+        `Maximum ${MAX_BATCH_SIZE} texts allowed per batch request`
+      );
+    }
+    yield* translateInBatches(
+      readTexts(input),
+      async (texts) => {
+        const result = await this.translateBatch(
+          { texts, source: options.source, target: options.target },
+          requestOptions
+        );
+        return result.translations;
+      },
+      options
+    );
+  }
+
+  /**
+   * Translate HTML content while preserving all tags and structure.
+   *
+   * @param options - HTML translation options
+   * @param requestOptions - Per-call options (signal, timeout, retries, headers)
+   * @returns Translated HTML content
+   *
+   * @example
+   * ```typescript
+   * const result = await client.translateHTML({
+   *   html: '<p>Hello <b>world</b></p>',
+   *   source: 'en',
+   *   target: 'fr'
+   * });
+   * console.log(result.html); // '<p>Bonjour <b>monde</b></p>'
+   * ```
+   */
+  async translateHTML(
+    options: TranslateHTMLOptions,
+    requestOptions?: RequestOptions
+  ): Promise<TranslateHTMLResponse> {
+    const glossary = options.glossary || this.glossary;
+    if (!glossary) {
+      return this.sendHTML(options, requestOptions);
+    }
+
+    const masked = maskTerms(options.html, glossary, options.target, { html: true });
+    const result = await this.sendHTML({ ...options, html: masked.text }, requestOptions);
+    const { text, warnings } = restoreTerms(result.html, masked);
+    return { ...result, html: text, glossaryWarnings: warnings };
+  }
+
+  private async sendHTML(
+    options: TranslateHTMLOptions,
+    requestOptions?: RequestOptions
+  ): Promise<TranslateHTMLResponse> {
+    const source = options.source || 'auto';
+    const cacheKey = `html:${source}:${options.target}:${options.html}`;
+    const cached = await this.cacheGet<TranslateHTMLResponse>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const result = await this.makeRequest<TranslateHTMLResponse>(
+      'POST',
+      '/v2/translate/html',
+      {
+        html: options.html,
+        source,
+        target: options.target,
+      },
+      undefined,
+      undefined,
+      requestOptions
+    );
+    await this.cacheSet(cacheKey, result);
+    return result;
+  }
+
+  /**
+   * Translate email subject and HTML body.
+   *
+   * @param options - Email translation options
+   * @param requestOptions - Per-call options (signal, timeout, retries, headers)
+   * @returns Translated email
+   *
+   * @example
+   * ```typescript
+   * const result = await client.translateEmail({
+   *   subject: 'Welcome',
+   *   email_body: '<p>Thank you for signing up!</p>',
+   *   source: 'en',
+   *   target: 'fr'
+   * });
+   * console.log(result.subject); // 'Bienvenue'
+   * ```
+   */
+  async translateEmail(
+    options: TranslateEmailOptions,
+    requestOptions?: RequestOptions
+  ): Promise<TranslateEmailResponse> {
+    const glossary = options.glossary || this.glossary;
+    const subject = glossary ? maskTerms(options.subject, glossary, options.target) : undefined;
+    const body = glossary
+      ? maskTerms(options.email_body, glossary, options.target, { html: true })
+      : undefined;
+
+    const result = await this.makeRequest<TranslateEmailResponse>(
+      'POST',
+      '/v2/translate/email',
+      {
+        subject: subject ? subject.text : options.subject,
+        email_body: body ? body.text : options.email_body,
+        source: options.source || 'auto',
+        target: options.target,
+      },
+      undefined,
+      undefined,
+      requestOptions
+    );
+    if (!subject || !body) {
+      return result;
+    }
+
+    const restoredSubject = restoreTerms(result.subject, subject);
+    const restoredBody = restoreTerms(result.html_body, body);
+    return {
+      ...result,
+      subject: restoredSubject.text,
+      html_body: restoredBody.text,
+      glossaryWarnings: restoredSubject.warnings.concat(restoredBody.warnings),
+    };
+  }
+
+  /**
+   * Translate a single text into several languages.
+   *
+   * One request is made per language, through the client's concurrency control.
+   * A language that fails is reported in `errors` instead of rejecting the call.
+   *
+   * @param options - Translation options with `targets` instead of `target`
+   * @param requestOptions - Per-call options (signal, timeout, retries, headers)
+   * @returns Results and errors keyed by target language
+   *
+   * @example
+   * ```typescript
+   * const { results, errors } = await client.translateToMany({
+   *   text: 'Hello, world!',
+   *   source: 'en',
+   *   targets: ['fr', 'de', 'es']
+   * });
+   * console.log(results.fr.translations.translation); // 'Bonjour le monde !'
+   * ```
+   */
+  async translateToMany(
+    options: MultiTargetOptions<TranslateOptions>,
+    requestOptions?: RequestOptions
+  ): Promise<MultiTargetResponse<TranslateResponse>> {
+    const { targets, ...rest } = options;
+    return this.translateTargets(targets, (target) =>
+      this.translate({ ...rest, target }, requestOptions)
+    );
+  }
+
+  /**
+   * Translate multiple texts into several languages.
+   *
+   * @param options - Batch translation options with `targets` instead of `target`
+   * @param requestOptions - Per-call options (signal, timeout, retries, headers)
+   * @returns Results and errors keyed by target language
+   *
+   * @example
+   * ```typescript
+   * const { results } = await client.translateBatchToMany({
+   *   texts: ['Hello', 'Goodbye'],
+   *   source: 'en',
+   *   targets: ['fr', 'de']
+   * });
+   * results.de.translations.forEach(t => console.log(t.translation));
+   * ```
+   */
+  async translateBatchToMany(
+    options: MultiTargetOptions<BatchTranslateOptions>,
+    requestOptions?: RequestOptions
+  ): Promise<MultiTargetResponse<BatchTranslateResponse>> {
+    const { targets, ...rest } = options;
+    return this.translateTargets(targets, (target) =>
+      this.translateBatch({ ...rest, target }, requestOptions)
+    );
+  }
+
+  /**
+   * Translate HTML content into several languages.
+   *
+   * @param options - HTML translation options with `targets` instead of `target`
+   * @param requestOptions - Per-call options (signal, timeout, retries, headers)
+   * @returns Results and errors keyed by target language
+   *
+   * @example
+   * ```typescript
+   * const { results, errors } = await client.translateHTMLToMany({
+   *   html: '<p>Hello <b>world</b></p>',
+   *   source: 'en',
+   *   targets: ['fr', 'de']
+   * });
+   * console.log(results.fr.html); // '<p>Bonjour <b>monde</b></p>'
+   * ```
+   */
+  async translateHTMLToMany(
+    options: MultiTargetOptions<TranslateHTMLOptions>,
+    requestOptions?: RequestOptions
+  ): Promise<MultiTargetResponse<TranslateHTMLResponse>> {
+    const { targets, ...rest } = options;
+    return this.translateTargets(targets, (target) =>
+      this.translateHTML({ ...rest, target }, requestOptions)
+    );
+  }
+
+  /**
+   * Translate an email subject and HTML body into several languages.
+   *
+   * @param options - Email translation options with `targets` instead of `target`
+   * @param requestOptions - Per-call options (signal, timeout, retries, headers)
+   * @returns Results and errors keyed by target language
+   *
+   * @example
+   * ```typescript
+   * const { results } = await client.translateEmailToMany({
+   *   subject: 'Welcome',
+   *   email_body: '<p>Thank you for signing up!</p>',
+   *   source: 'en',
+   *   targets: ['fr', 'de']
+   * });
+   * console.log(results.fr.subject); // 'Bienvenue'
+   * ```
+   */
+  async translateEmailToMany(
+    options: MultiTargetOptions<TranslateEmailOptions>,
+    requestOptions?: RequestOptions
+  ): Promise<MultiTargetResponse<TranslateEmailResponse>> {
+    const { targets, ...rest } = options;
+    return this.translateTargets(targets, (target) =>
+      this.translateEmail({ ...rest, target }, requestOptions)
+    );
+  }
+
+  /**
+   * Run one translation per target language and collect results and errors.
+   * Cancellation still rejects the whole call.
+   */
+  private async translateTargets<T>(
+    targets: string[],
+    run: (target: string) => Promise<T>
+  ): Promise<MultiTargetResponse<T>> {
+    if (!targets || targets.length === 0) {
+      throw new TranslatePlusValidationError('At least one target language is required');
+    }
+
+    const unique = Array.from(new Set(targets));
+    const outcomes = await Promise.all(
+      unique.map(async (target) => {
+        try {
+          return { success: true as const, result: await run(target) };
+        } catch (error) {
+          if (error instanceof TranslatePlusCancelledError) {
+            throw error;
+          }
+          return { success: false as const, error: error as Error };
+        }
+      })
+    );
+
+    // Keys follow the order of `targets`, not completion order
+    const response: MultiTargetResponse<T> = { results: {}, errors: {} };
+    unique.forEach((target, i) => {
+      const outcome = outcomes[i];
+      if (outcome.success) {
+        response.results[target] = outcome.result;
+      } else {
+        response.errors[target] = outcome.error;
+      }
+    });
+    return response;
+  }
+
+  /**
+   * Translate subtitle files (SRT or VTT format).
+   *
+   * With `validate`, `chunkSize`, `maxCharsPerLine`, `maxCharsPerSecond`, `bilingual` or a
+   * glossary, the file is parsed locally: large files are sent in chunks of whole cues, and
+   * translated text is put back on the original cues so timing is never changed by the server.
+   *
+   * @param options - Subtitle translation options
+   * @param requestOptions - Per-call options (signal, timeout, retries, headers)
+   * @returns Translated subtitle content
+   *
+   * @example
+   * ```typescript
+   * const result = await client.translateSubtitles({
+   *   content: '1\n00:00:01,000 --> 00:00:02,000\nHello world\n',
+   *   format: 'srt',
+   *   source: 'en',
+   *   target: 'fr',
+   *   maxCharsPerLine: 42,
+   *   maxCharsPerSecond: 17
+   * });
+   * console.log(result.readingSpeedWarnings); // [{ index: 0, charsPerSecond: 19.5, ... }]
+   * ```
+   */
+  async translateSubtitles(
+    options: TranslateSubtitleOptions,
+    requestOptions?: RequestOptions
+  ): Promise<TranslateSubtitleResponse> {
+    if (options.format !== 'srt' && options.format !== 'vtt') {
+      throw new TranslatePlusValidationError("Format must be 'srt' or 'vtt'");
+    }
+
+    const glossary = options.glossary || this.glossary;
+    const local =
+      glossary ||
+      options.validate ||
+      options.bilingual ||
+      options.chunkSize !== undefined ||
+      options.maxCharsPerLine !== undefined ||
+      options.maxCharsPerSecond !== undefined;
+    if (!local) {
+      return this.sendSubtitles(options.content, options, requestOptions);
+    }
+
+    return translateSubtitleCues(options, glossary, (content) =>
+      this.sendSubtitles(content, options, requestOptions)
+    );
+  }
+
+  /**
+   * Translate one subtitle file into several languages concurrently.
+   *
+   * Accepts the same local processing options as translateSubtitles; the file is
+   * validated once, then each language is translated through the client's
+   * concurrency control. A language that fails is reported in `errors` instead
+   * of rejecting the call.
+   *
+   * @param options - Subtitle options with `targets` instead of `target`
+   * @param requestOptions - Per-call options (signal, timeout, retries, headers)
+   * @returns Results and errors keyed by target language
+   *
+   * @example
+   * ```typescript
+   * const { results, errors } = await client.translateSubtitlesToMany({
+   *   content: srtContent,
+   *   format: 'srt',
+   *   source: 'en',
+   *   targets: ['fr', 'de', 'es'],
+   *   bilingual: true
+   * });
+   * fs.writeFileSync('movie.en-fr.srt', results.fr.content);
+   * ```
+   */
+  async translateSubtitlesToMany(
+    options: TranslateSubtitlesToManyOptions,
+    requestOptions?: RequestOptions
+  ): Promise<MultiTargetResponse<TranslateSubtitleResponse>> {
+    const { targets, ...rest } = options;
+    if (!targets || targets.length === 0) {
+      throw new TranslatePlusValidationError('At least one target language is required');
+    }
+    if (rest.validate) {
+      // Validate once rather than once per language
+      assertValidSubtitles(rest.content, rest.format);
+    }
+
+    return this.translateTargets(targets, (target) =>
+      this.translateSubtitles({ ...rest, target, validate: false }, requestOptions)
+    );
+  }
+
+  private sendSubtitles(
+    content: string,
+    options: TranslateSubtitleOptions,
+    requestOptions?: RequestOptions
+  ): Promise<TranslateSubtitleResponse> {
+    return this.makeRequest<TranslateSubtitleResponse>(
+      'POST',
+      '/v2/translate/subtitles',
+      {
+        content,
+        format: options.format,
+        source: options.source || 'auto',
+        target: options.target,
+      },
+      undefined,
+      undefined,
+      requestOptions
+    );
+  }
+
+  /**
+   * Detect the language of a text.
+   *
+   * @param text - Text to detect language from
+   * @param requestOptions - Per-call options (signal, timeout, retries, headers)
+   * @returns Language detection result
+   *
+   * @example
+   * ```typescript
+   * const result = await client.detectLanguage('Bonjour le monde');
+   * console.log(result.language_detection.language); // 'fr'
+   * ```
+   */
+  async detectLanguage(
+    text: string,
+    requestOptions?: RequestOptions
+  ): Promise<DetectLanguageResponse> {
+    const cacheKey = `detect:${text}`;
+    const cached = await this.cacheGet<DetectLanguageResponse>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const result = await this.makeRequest<DetectLanguageResponse>(
+      'POST',
+      '/v2/language/detect',
+      { text },
+      undefined,
+      undefined,
+      requestOptions
+    );
+    await this.cacheSet(cacheKey, result);
+    return result;
+  }
+
+  /**
+   * Get list of supported languages.
+   *
+   * @param requestOptions - Per-call options (signal, timeout, retries, headers)
+   * @returns Supported languages
+   *
+   * @example
+   * ```typescript
+   * const languages = await client.getSupportedLanguages();
+   * console.log(languages.languages.en); // 'English'
+   * ```
+   */
+  async getSupportedLanguages(
+    requestOptions?: RequestOptions
+  ): Promise<SupportedLanguagesResponse> {
+    return this.makeRequest<SupportedLanguagesResponse>(
+      'GET',
+      '/v2/language/supported',
+      undefined,
+      undefined,
+      undefined,
+      requestOptions
+    );
+  }
+
+  /**
+   * Get account summary including credits, plan, and usage.
+   *
+   * @param requestOptions - Per-call options (signal, timeout, retries, headers)
+   * @returns Account summary
+   *
+   * @example
+   * ```typescript
+   * const summary = await client.getAccountSummary();
+   * console.log(`Credits remaining: ${summary.credits_remaining}`);
+   * ```
+   */
+  async getAccountSummary(requestOptions?: RequestOptions): Promise<AccountSummaryResponse> {
+    const summary = await this.makeRequest<AccountSummaryResponse>(
+      'GET',
+      ACCOUNT_ENDPOINT,
+      undefined,
+      undefined,
+      undefined,
+      requestOptions
+    );
+    if (this.autoConcurrency && summary.concurrency_limit > 0) {
+      this.semaphore.setMaxConcurrent(summary.concurrency_limit);
+    }
+    this.credits.setAccountBalance(summary.credits_remaining);
+    return summary;
+  }
+
+  /**
+   * Create an i18n translation job.
+   *
+   * @param options - i18n job options
+   * @param requestOptions - Per-call options (signal, timeout, retries, headers)
+   * @returns Job creation result
+   *
+   * @example
+   * ```typescript
+   * const result = await client.createI18nJob({
+   *   file_path: 'locales/en.json',
+   *   target_languages: ['fr', 'es'],
+   *   source_language: 'en'
+   * });
+   * console.log(`Job ID: ${result.job_id}`);
+   * ```
+   */
+  async createI18nJob(
+    options: I18nJobOptions,
+    requestOptions?: RequestOptions
+  ): Promise<I18nJobResponse> {
+    const upload = this.resolveUpload(options);
+    if (options.validate) {
+      readLocaleFile(await readText(upload.data), upload.filename, options.format);
+    }
+
+    const formData: { [key: string]: string } = {
+      source_language: options.source_language || 'auto',
+      target_languages: options.target_languages.join(','),
+    };
+    if (options.webhook_url) {
+      formData.webhook_url = options.webhook_url;
+    }
+
+    return this.makeRequest<I18nJobResponse>(
+      'POST',
+      '/v2/i18n/jobs',
+      formData,
+      { file: upload },
+      undefined,
+      requestOptions
+    );
+  }
+
+  /**
+   * Get the status of an i18n translation job.
+   *
+   * @param jobId - Job ID
+   * @param requestOptions - Per-call options (signal, timeout, retries, headers)
+   * @returns Job status information
+   */
+  async getI18nJobStatus(
+    jobId: string,
+    requestOptions?: RequestOptions
+  ): Promise<I18nJobStatusResponse> {
+    return this.makeRequest<I18nJobStatusResponse>(
+      'GET',
+      `/v2/i18n/jobs/${jobId}`,
+      undefined,
+      undefined,
+      undefined,
+      requestOptions
+    );
+  }
+
+  /**
+   * List all i18n translation jobs.
+   *
+   * @param page - Page number (default: 1)
+   * @param pageSize - Number of jobs per page (default: 20)
+   * @param requestOptions - Per-call options (signal, timeout, retries, headers)
+   * @returns List of jobs with pagination information
+   */
+  async listI18nJobs(
+    page: number = 1,
+    pageSize: number = 20,
+    requestOptions?: RequestOptions
+  ): Promise<I18nJobListResponse> {
+    return this.makeRequest<I18nJobListResponse>(
+      'GET',
+      '/v2/i18n/jobs',
+      undefined,
+      undefined,
+      {
+        page: String(page),
+        page_size: String(pageSize),
+      },
+      requestOptions
+    );
+  }
+
+  /**
+   * Download a translated i18n file. Like every other request, it waits for a
+   * concurrency slot.
+   *
+   * @param jobId - Job ID
+   * @param languageCode - Target language code
+   * @param requestOptions - Per-call options (signal, timeout, retries, headers)
+   * @returns File content (a Buffer on Node.js)
+   */
+  async downloadI18nFile(
+    jobId: string,
+    languageCode: string,
+    requestOptions: RequestOptions = {}
+  ): Promise<Uint8Array> {
+    const endpoint = `/v2/i18n/jobs/${jobId}/download/${languageCode}`;
+    const timeout = requestOptions.timeout !== undefined ? requestOptions.timeout : this.timeout;
+
+    const release = await this.semaphore.acquire({
+      priority: requestOptions.priority,
+      signal: requestOptions.signal,
+    });
+    try {
+      const response = await this.send(
+        {
+          method: 'GET',
+          url: `${this.baseUrl}${endpoint}`,
+          endpoint,
+          headers: {
+            'X-API-KEY': this.apiKey,
+            'User-Agent': `translateplus-js/${__version__}`,
+            ...requestOptions.headers,
+          },
+          attempt: 0,
+        },
+        timeout,
+        requestOptions.signal,
+        'buffer'
+      );
+      return response.data as Uint8Array;
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Delete an i18n translation job.
+   *
+   * @param jobId - Job ID to delete
+   * @param requestOptions - Per-call options (signal, timeout, retries, headers)
+   */
+  async deleteI18nJob(jobId: string, requestOptions?: RequestOptions): Promise<void> {
+    await this.makeRequest(
+      'DELETE',
+      `/v2/i18n/jobs/${jobId}`,
+      undefined,
+      undefined,
+      undefined,
+      requestOptions
+    );
+  }
+
+  /**
+   * Poll an i18n job until it completes or fails.
+   *
+   * The polling interval starts at `interval` and grows with backoff up to `maxInterval`.
+   *
+   * @param jobId - Job ID
+   * @param options - Polling, progress and download options
+   * @returns Final job status
+   * @throws TranslatePlusJobFailedError if the job fails
+   * @throws TranslatePlusJobTimeoutError if the job is still running after `timeout`
+   *
+   * @example
+   * ```typescript
+   * const { job_id } = await client.createI18nJob({
+   *   file_path: 'locales/en.json',
+   *   target_languages: ['fr', 'es']
+   * });
+   * await client.waitForI18nJob(job_id, {
+   *   onProgress: (status) => console.log(`${status.progress || 0}%`),
+   *   downloadDir: 'locales'
+   * });
+   * ```
+   */
+  async waitForI18nJob(
+    jobId: string,
+    options: WaitForI18nJobOptions = {}
+  ): Promise<I18nJobStatusResponse> {
+    const { signal } = options;
+    const status = await pollI18nJob(jobId, options, (id) => this.getI18nJobStatus(id, { signal }));
+    if (options.downloadDir) {
+      const files = await downloadI18nJobFiles(status, options, (language) =>
+        this.downloadI18nFile(status.id, language, { signal })
+      );
+      this.writeLocalFiles(options.downloadDir, files);
+    }
+    return status;
+  }
+
+  /**
+   * Translate a nested JSON locale object without creating an i18n job.
+   *
+   * String leaves are translated through batch requests, each distinct string once per
+   * language. Keys, arrays and non-string values are preserved, and placeholders such as
+   * `{{name}}`, ICU `{argument}`, `%s` and `<0>` are kept out of translation.
+   *
+   * @param options - Locale object and target languages, as for createI18nJob
+   * @param requestOptions - Per-call options (signal, timeout, retries, headers)
+   * @returns Translated locale objects and failed keys per language
+   *
+   * @example
+   * ```typescript
+   * const en = JSON.parse(fs.readFileSync('locales/en.json', 'utf8'));
+   * const result = await client.translateLocale({
+   *   data: en,
+   *   target_languages: ['fr', 'es'],
+   *   source_language: 'en'
+   * });
+   * fs.writeFileSync('locales/fr.json', JSON.stringify(result.translations.fr, null, 2));
+   * ```
+   */
+  async translateLocale(
+    options: TranslateLocaleOptions,
+    requestOptions?: RequestOptions
+  ): Promise<TranslateLocaleResponse> {
+    return translateLocaleData(this, options, requestOptions);
+  }
+
+  /**
+   * Bring target locale objects up to date with the source, translating only what changed.
+   *
+   * Keys that are new in the source, changed since the snapshot, or missing from a target
+   * are translated. Keys no longer in the source are removed. Every other translation,
+   * including reviewer edits, is kept as is. On the first sync (no snapshot), only keys
+   * missing from a target are translated. Keys that fail are recorded per language in
+   * the snapshot and retried by the next sync for that language only.
+   *
+   * @param options - Source locale, previous snapshot and existing targets
+   * @param requestOptions - Per-call options (signal, timeout, retries, headers)
+   * @returns Updated targets, the snapshot to store, and a per-language report
+   *
+   * @example
+   * ```typescript
+   * const result = await client.syncLocale({
+   *   source: readJson('locales/en.json'),
+   *   snapshot: readJson('locales/.translateplus-lock.json'),
+   *   targets: { fr: readJson('locales/fr.json'), es: readJson('locales/es.json') },
+   *   source_language: 'en'
+   * });
+   * writeJson('locales/fr.json', result.translations.fr);
+   * writeJson('locales/.translateplus-lock.json', result.snapshot);
+   * console.log(result.report.fr); // { added: [...], changed: [...], removed: [...], failed: [] }
+   * ```
+   */
+  async syncLocale(
+    options: SyncLocaleOptions,
+    requestOptions?: RequestOptions
+  ): Promise<SyncLocaleResponse> {
+    return syncLocaleData(this, options, requestOptions);
+  }
+
+  /**
+   * Translate an i18n file locally, keeping its format and layout.
+   *
+   * Supports JSON, YAML, PO/POT, XLIFF 1.2/2.0, Android strings.xml, iOS .strings and
+   * .stringsdict, and Java .properties. Only translated values are rewritten; comments,
+   * ordering and formatting are kept byte for byte. Units with inline markup (XLIFF,
+   * Android) are translated as HTML.
+   *
+   * @param options - File content or path, format and target languages
+   * @param requestOptions - Per-call options (signal, timeout, retries, headers)
+   * @returns Translated file content and failed units per language
+   * @throws TranslatePlusFormatError if the file is malformed
+   *
+   * @example
+   * ```typescript
+   * const result = await client.translateLocaleFile({
+   *   file_path: 'res/values/strings.xml',
+   *   target_languages: ['fr', 'de'],
+   *   source_language: 'en'
+   * });
+   * fs.writeFileSync('res/values-fr/strings.xml', result.translations.fr);
+   * ```
+   */
+  async translateLocaleFile(
+    options: TranslateLocaleFileOptions,
+    requestOptions?: RequestOptions
+  ): Promise<TranslateLocaleFileResponse> {
+    if (!options.target_languages || options.target_languages.length === 0) {
+      throw new TranslatePlusValidationError('At least one target language is required');
+    }
+    let content = options.content;
+    if (content === undefined) {
+      if (!options.file_path) {
+        throw new TranslatePlusValidationError('Either content or file_path is required');
+      }
+      content = await readText(this.readLocalFile(options.file_path));
+    }
+
+    const file = readLocaleFile(content, options.file_path, options.format);
+    const response: TranslateLocaleFileResponse = { translations: {}, failed: {} };
+    await Promise.all(
+      options.target_languages.map(async (target) => {
+        const { values, failed } = await translateLocaleUnits(
+          this,
+          file.units,
+          options.source_language,
+          target,
+          requestOptions
+        );
+        response.translations[target] = serializeLocaleFile(file, values);
+        response.failed[target] = failed;
+      })
+    );
+    return response;
+  }
+
+  /**
+   * Translate multiple texts concurrently using parallel requests.
+   *
+   * @param texts - Array of texts to translate
+   * @param source - Source language code
+   * @param target - Target language code
+   * @param requestOptions - Per-call options (signal, timeout, retries, headers)
+   * @returns Array of translation results in the same order as input texts
+   *
+   * @example
+   * ```typescript
+   * const results = await client.translateConcurrent(
+   *   ['Hello', 'Goodbye', 'Thank you'],
+   *   'en',
+   *   'fr'
+   * );
+   * results.forEach(r => console.log(r.translations.translation));
+   * ```
+   */
+  async translateConcurrent(
+    texts: string[],
+    source: string = 'auto',
+    target: string,
+    requestOptions?: RequestOptions
+  ): Promise<TranslateResponse[]> {
+    const promises = texts.map((text) =>
+      this.translate({ text, source, target }, requestOptions).catch((error) => {
+        return { error: error.message } as any;
+      })
+    );
+
+    return Promise.all(promises);
+  }
+}
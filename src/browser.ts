@@ -0,0 +1,33 @@
+/**
+ * TranslatePlus client for browsers and edge runtimes (Cloudflare Workers,
+ * Deno, Bun). Uses the global fetch, FormData and Blob and never touches the
+ * file system: upload i18n files with `file` and `filename` instead of `file_path`.
+ */
+
+import { ClientOptions, TranslatePlusBaseClient } from './base-client';
+import { fetchTransport } from './transport';
+
+export type { ClientOptions } from './base-client';
+
+/**
+ * TranslatePlus API client using the runtime's global fetch.
+ *
+ * @example
+ * ```typescript
+ * import { TranslatePlusClient } from 'translateplus-js';
+ *
+ * const client = new TranslatePlusClient({ apiKey: env.TRANSLATEPLUS_API_KEY });
+ * const job = await client.createI18nJob({
+ *   file: input.files[0],
+ *   filename: 'en.json',
+ *   target_languages: ['fr', 'de'],
+ * });
+ * ```
+ */
+export class TranslatePlusClient extends TranslatePlusBaseClient {
+  constructor(options: ClientOptions) {
+    super(options, fetchTransport);
+  }
+}
+
+export * from './common';
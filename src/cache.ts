@@ -0,0 +1,94 @@
+/**
+ * Translation cache adapters for TranslatePlus client.
+ */
+
+/**
+ * Storage backend for cached translations.
+ *
+ * Values are JSON strings, so adapters for Redis, files or other key/value
+ * stores only need to persist strings. Methods may be sync or async.
+ */
+export interface CacheAdapter {
+  get(key: string): Promise<string | undefined> | string | undefined;
+  set(key: string, value: string): Promise<void> | void;
+  delete?(key: string): Promise<void> | void;
+  clear?(): Promise<void> | void;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+}
+
+export interface MemoryCacheOptions {
+  /** Maximum number of entries before the least recently used is evicted (default: 1000) */
+  maxSize?: number;
+  /** Time to live in ms; entries never expire if omitted */
+  ttl?: number;
+}
+
+interface MemoryCacheEntry {
+  value: string;
+  expiresAt?: number;
+}
+
+/**
+ * In-memory LRU cache with optional TTL.
+ *
+ * @example
+ * ```typescript
+ * const client = new TranslatePlusClient({
+ *   apiKey: 'your-api-key',
+ *   cache: new MemoryCache({ maxSize: 5000, ttl: 24 * 60 * 60 * 1000 })
+ * });
+ * ```
+ */
+export class MemoryCache implements CacheAdapter {
+  private entries: Map<string, MemoryCacheEntry> = new Map();
+  private maxSize: number;
+  private ttl?: number;
+
+  constructor(options: MemoryCacheOptions = {}) {
+    this.maxSize = options.maxSize || 1000;
+    this.ttl = options.ttl;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): string | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    // Re-insert to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: string): void {
+    this.entries.delete(key);
+    this.entries.set(key, {
+      value,
+      expiresAt: this.ttl !== undefined ? Date.now() + this.ttl : undefined,
+    });
+    while (this.entries.size > this.maxSize) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,277 @@
+/**
+ * Request/response recording and replay.
+ *
+ * In record mode every HTTP exchange the client makes, including file uploads
+ * and downloads, is appended to a cassette with the API key redacted. In
+ * replay mode responses are served from the cassette without touching the
+ * network, and a request the cassette can't answer throws.
+ */
+
+import { TranslatePlusCassetteError, TranslatePlusValidationError } from './exceptions';
+import { FetchFunction, TransportRequest, createResponse, readRequestBody } from './transport';
+
+export type CassetteMode = 'record' | 'replay';
+
+/** Request fields compared when replaying */
+export type CassetteMatchField = 'method' | 'endpoint' | 'query' | 'body';
+
+export interface CassetteRequest {
+  method: string;
+  endpoint: string;
+  query: { [key: string]: string };
+  headers: { [key: string]: string };
+  /** Parsed JSON body, or the text fields of a multipart upload plus the file */
+  body?: unknown;
+}
+
+export interface CassetteResponse {
+  status: number;
+  headers: { [key: string]: string };
+  /** Parsed JSON body */
+  body?: unknown;
+  /** Body as text, when it isn't compact JSON (e.g. file downloads) */
+  text?: string;
+}
+
+export interface CassetteInteraction {
+  request: CassetteRequest;
+  response: CassetteResponse;
+}
+
+export interface CassetteOptions {
+  mode: CassetteMode;
+  /** Cassette file to write or read (Node.js only); alternatively pass cassette */
+  path?: string;
+  /** In-memory cassette, e.g. a fixture bundled with browser tests */
+  cassette?: Cassette;
+  /** Request fields that must match when replaying (default: method, endpoint, body) */
+  match?: CassetteMatchField[];
+}
+
+const REDACTED = '[REDACTED]';
+
+/** Response headers worth keeping; the rest vary between runs */
+const RECORDED_HEADERS = ['content-type', 'retry-after', 'x-request-id'];
+
+/**
+ * JSON with object keys sorted, so bodies compare equal regardless of key order.
+ */
+function canonicalJSON(value: unknown): string {
+  return JSON.stringify(value, (_key, item) =>
+    item && typeof item === 'object' && !Array.isArray(item)
+      ? Object.keys(item)
+          .sort()
+          .reduce((sorted: { [key: string]: unknown }, key) => {
+            sorted[key] = item[key];
+            return sorted;
+          }, {})
+      : item
+  );
+}
+
+function describe(request: CassetteRequest): string {
+  const query = new URLSearchParams(request.query).toString();
+  const body = request.body !== undefined ? ` ${JSON.stringify(request.body)}` : '';
+  return `${request.method} ${request.endpoint}${query ? `?${query}` : ''}${body}`;
+}
+
+function matches(
+  recorded: CassetteRequest,
+  request: CassetteRequest,
+  fields: CassetteMatchField[]
+): boolean {
+  return fields.every((field) =>
+    field === 'method' || field === 'endpoint'
+      ? recorded[field] === request[field]
+      : canonicalJSON(recorded[field]) === canonicalJSON(request[field])
+  );
+}
+
+/**
+ * Recorded request/response pairs, in the order they were made.
+ *
+ * @example
+ * ```typescript
+ * const cassette = Cassette.parse(await (await fetch('/fixtures/translate.json')).text());
+ * const client = new TranslatePlusClient({
+ *   apiKey: 'unused',
+ *   cassette: { mode: 'replay', cassette },
+ * });
+ * ```
+ */
+export class Cassette {
+  readonly interactions: CassetteInteraction[];
+  private played = new Set<number>();
+
+  constructor(interactions: CassetteInteraction[] = []) {
+    this.interactions = interactions;
+  }
+
+  /**
+   * Load a cassette saved with `JSON.stringify`.
+   */
+  static parse(json: string): Cassette {
+    const data = JSON.parse(json);
+    return new Cassette(Array.isArray(data.interactions) ? data.interactions : []);
+  }
+
+  toJSON(): { interactions: CassetteInteraction[] } {
+    return { interactions: this.interactions };
+  }
+
+  /**
+   * Take the first interaction not played yet whose request matches, in
+   * recording order, so repeated requests such as job polls replay in sequence.
+   */
+  take(request: CassetteRequest, fields: CassetteMatchField[]): CassetteInteraction | undefined {
+    const index = this.interactions.findIndex(
+      (interaction, i) => !this.played.has(i) && matches(interaction.request, request, fields)
+    );
+    if (index === -1) {
+      return undefined;
+    }
+    this.played.add(index);
+    return this.interactions[index];
+  }
+
+  /** Number of interactions not played yet */
+  get remaining(): number {
+    return this.interactions.length - this.played.size;
+  }
+}
+
+/**
+ * Describe an outgoing request the way it is stored, with the API key redacted.
+ */
+async function captureRequest(url: string, init: TransportRequest): Promise<CassetteRequest> {
+  const parsed = new URL(url);
+  const { body, file } = await readRequestBody(init.body);
+  const headers = { ...init.headers };
+  Object.keys(headers).forEach((name) => {
+    if (name.toLowerCase() === 'x-api-key') {
+      headers[name] = REDACTED;
+    }
+  });
+  return {
+    method: (init.method || 'GET').toUpperCase(),
+    endpoint: parsed.pathname,
+    query: Object.fromEntries(parsed.searchParams),
+    headers,
+    body: file ? { ...body, file } : body,
+  };
+}
+
+/**
+ * Wrap a fetch function so every exchange is appended to the cassette.
+ *
+ * @param onRecord - Called after each interaction is added, e.g. to save the cassette
+ */
+export function recordingFetch(
+  fetch: FetchFunction,
+  cassette: Cassette,
+  onRecord: () => void
+): FetchFunction {
+  return async (url, init) => {
+    const request = await captureRequest(url, init);
+    const response = await fetch(url, init);
+    const raw = new Uint8Array(await response.arrayBuffer());
+
+    const headers: { [key: string]: string } = {};
+    RECORDED_HEADERS.forEach((name) => {
+      const value = response.headers.get(name);
+      if (value !== null) {
+        headers[name] = value;
+      }
+    });
+    const recorded: CassetteResponse = { status: response.status, headers };
+    // Keep the parsed body only when it serializes back to the same bytes, so
+    // downloaded files replay exactly as the API sent them
+    const text = new TextDecoder().decode(raw);
+    try {
+      const body = JSON.parse(text);
+      if (JSON.stringify(body) !== text) {
+        throw new Error('Not canonical JSON');
+      }
+      recorded.body = body;
+    } catch {
+      recorded.text = text;
+    }
+
+    cassette.interactions.push({ request, response: recorded });
+    onRecord();
+    return createResponse(response.status, headers, raw);
+  };
+}
+
+/**
+ * Fetch function that answers from the cassette.
+ *
+ * @throws TranslatePlusCassetteError when no unplayed interaction matches
+ */
+export function replayingFetch(
+  cassette: Cassette,
+  fields: CassetteMatchField[] = ['method', 'endpoint', 'body']
+): FetchFunction {
+  return async (url, init) => {
+    const request = await captureRequest(url, init);
+    const interaction = cassette.take(request, fields);
+    if (!interaction) {
+      throw new TranslatePlusCassetteError(
+        `No cassette interaction matches ${describe(request)} ` +
+          `(compared ${fields.join(', ')}; ${cassette.remaining} of ` +
+          `${cassette.interactions.length} interactions not played)`,
+        request
+      );
+    }
+    const { response } = interaction;
+    const raw = new TextEncoder().encode(
+      response.text !== undefined ? response.text : JSON.stringify(response.body)
+    );
+    return createResponse(response.status, response.headers, raw);
+  };
+}
+
+/** Local file access for cassettes saved to or loaded from a path */
+export interface CassetteFiles {
+  read(filePath: string): Uint8Array;
+  write(directory: string, files: Array<{ name: string; data: Uint8Array }>): void;
+}
+
+/**
+ * Build the fetch function for record or replay mode. Recordings are saved to
+ * `path` after every interaction, so a failing run still leaves a cassette.
+ *
+ * @param options - Cassette mode, path and matching
+ * @param fetch - Fetch function that reaches the API, used when recording
+ * @param files - Reads and writes the cassette file
+ */
+export function cassetteFetch(
+  options: CassetteOptions,
+  fetch: FetchFunction,
+  files: CassetteFiles
+): FetchFunction {
+  const { mode, path } = options;
+  if (mode !== 'record' && mode !== 'replay') {
+    throw new TranslatePlusValidationError(`Invalid cassette mode: ${mode}`);
+  }
+  if (!path && !options.cassette) {
+    throw new TranslatePlusValidationError('Cassette requires a path or a cassette');
+  }
+
+  if (mode === 'replay') {
+    const cassette =
+      options.cassette || Cassette.parse(new TextDecoder().decode(files.read(path!)));
+    return replayingFetch(cassette, options.match);
+  }
+
+  const cassette = options.cassette || new Cassette();
+  return recordingFetch(fetch, cassette, () => {
+    if (path) {
+      const separator = Math.max(path.lastIndexOf('/'), path.lastIndexOf('\\'));
+      const data = new TextEncoder().encode(JSON.stringify(cassette, null, 2) + '\n');
+      files.write(separator === -1 ? '.' : path.slice(0, separator) || '/', [
+        { name: path.slice(separator + 1), data },
+      ]);
+    }
+  });
+}
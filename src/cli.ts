@@ -0,0 +1,523 @@
+/**
+ * Command-line interface for TranslatePlus.
+ *
+ * Wraps every TranslatePlusClient method so one-off tasks don't need a script.
+ * Run `translateplus --help` for usage.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TranslatePlusClient, ClientOptions } from './client';
+import { TranslatePlusValidationError } from './exceptions';
+import { __version__ } from './version';
+
+export interface CliIO {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  readStdin: () => Promise<string>;
+  env: { [key: string]: string | undefined };
+}
+
+interface ParsedArgs {
+  positionals: string[];
+  flags: { [key: string]: string | boolean };
+}
+
+interface CliConfig {
+  apiKey?: string;
+  baseUrl?: string;
+  timeout?: number;
+  maxRetries?: number;
+  maxConcurrent?: number;
+}
+
+const BOOLEAN_FLAGS = new Set(['json', 'help', 'version']);
+
+const COMMANDS = new Set([
+  'translate',
+  'batch',
+  'html',
+  'email',
+  'subtitles',
+  'detect',
+  'languages',
+  'account',
+  'i18n',
+]);
+
+const I18N_COMMANDS = new Set(['create', 'status', 'list', 'download', 'delete']);
+
+const FLAG_ALIASES: { [key: string]: string } = {
+  i: 'input',
+  o: 'output',
+  f: 'from',
+  t: 'to',
+  h: 'help',
+  v: 'version',
+};
+
+const USAGE = `Usage: translateplus <command> [options]
+
+Commands:
+  translate [text]              Translate a single text
+  batch                         Translate one text per line (or a JSON array)
+  html                          Translate HTML content
+  email                         Translate an email subject and HTML body
+  subtitles                     Translate an SRT or VTT file
+  detect [text]                 Detect the language of a text
+  languages                     List supported languages
+  account                       Show account summary
+  i18n create <file>            Create an i18n translation job
+  i18n status <job-id>          Show the status of an i18n job
+  i18n list                     List i18n jobs
+  i18n download <job-id> <lang> Download a translated i18n file
+  i18n delete <job-id>          Delete an i18n job
+
+Options:
+  -t, --to <lang>         Target language (comma-separated for i18n create)
+  -f, --from <lang>       Source language (default: auto)
+  -i, --input <file>      Read input from a file instead of arguments or stdin
+  -o, --output <file>     Write output to a file instead of stdout
+      --subject <text>    Email subject (email)
+      --format <srt|vtt>  Subtitle format (default: inferred from --input)
+      --webhook <url>     Webhook URL (i18n create)
+      --page <n>          Page number (i18n list)
+      --page-size <n>     Jobs per page (i18n list)
+      --json              Print raw JSON responses
+      --api-key <key>     API key (default: $TRANSLATEPLUS_API_KEY or config file)
+      --base-url <url>    API base URL
+      --config <file>     Config file (default: $TRANSLATEPLUS_CONFIG or ~/.translateplus.json)
+  -h, --help              Show this help
+  -v, --version           Show version
+`;
+
+/**
+ * Parse command-line arguments into positionals and flags.
+ */
+function parseArgs(argv: string[]): ParsedArgs {
+  const positionals: string[] = [];
+  const flags: { [key: string]: string | boolean } = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (arg === '--') {
+      positionals.push(...argv.slice(i + 1));
+      break;
+    }
+
+    if (arg.startsWith('-') && arg !== '-') {
+      let name = arg.replace(/^--?/, '');
+      let value: string | undefined;
+      const eqIndex = name.indexOf('=');
+      if (eqIndex !== -1) {
+        value = name.slice(eqIndex + 1);
+        name = name.slice(0, eqIndex);
+      }
+      name = FLAG_ALIASES[name] || name;
+
+      if (BOOLEAN_FLAGS.has(name)) {
+        flags[name] = true;
+      } else if (value !== undefined) {
+        flags[name] = value;
+      } else if (i + 1 < argv.length) {
+        flags[name] = argv[++i];
+      } else {
+        throw new TranslatePlusValidationError(`Option --${name} requires a value`);
+      }
+    } else {
+      positionals.push(arg);
+    }
+  }
+
+  return { positionals, flags };
+}
+
+function stringFlag(args: ParsedArgs, name: string): string | undefined {
+  const value = args.flags[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+function requireFlag(args: ParsedArgs, name: string): string {
+  const value = stringFlag(args, name);
+  if (!value) {
+    throw new TranslatePlusValidationError(`Option --${name} is required`);
+  }
+  return value;
+}
+
+/**
+ * Read an optional flag that must be a positive integer.
+ */
+function positiveIntegerFlag(args: ParsedArgs, name: string, defaultValue: number): number {
+  const value = stringFlag(args, name);
+  if (value === undefined) {
+    return defaultValue;
+  }
+  if (!/^[1-9]\d*$/.test(value)) {
+    throw new TranslatePlusValidationError(
+      `Option --${name} must be a positive integer, got '${value}'`
+    );
+  }
+  return Number(value);
+}
+
+function unknownCommand(command: string | undefined): TranslatePlusValidationError {
+  return new TranslatePlusValidationError(`Unknown command: ${command}\n\n${USAGE}`);
+}
+
+function unknownI18nCommand(subcommand: string | undefined): TranslatePlusValidationError {
+  return new TranslatePlusValidationError(
+    `Unknown i18n command: ${subcommand || '(none)'}. Expected create, status, list, download or delete`
+  );
+}
+
+function requirePositional(args: ParsedArgs, index: number, label: string): string {
+  const value = args.positionals[index];
+  if (!value) {
+    throw new TranslatePlusValidationError(`Missing argument: ${label}`);
+  }
+  return value;
+}
+
+/**
+ * Load the config file, if any. An explicitly requested file must exist.
+ */
+function loadConfig(args: ParsedArgs, env: CliIO['env']): CliConfig {
+  const explicitPath = stringFlag(args, 'config') || env.TRANSLATEPLUS_CONFIG;
+  const configPath = explicitPath || path.join(os.homedir(), '.translateplus.json');
+
+  if (!fs.existsSync(configPath)) {
+    if (explicitPath) {
+      throw new TranslatePlusValidationError(`Config file not found: ${configPath}`);
+    }
+    return {};
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(configPath, 'utf8'));
+  } catch (error) {
+    throw new TranslatePlusValidationError(
+      `Invalid config file ${configPath}: ${(error as Error).message}`
+    );
+  }
+}
+
+function createClient(args: ParsedArgs, env: CliIO['env']): TranslatePlusClient {
+  const config = loadConfig(args, env);
+  const apiKey = stringFlag(args, 'api-key') || env.TRANSLATEPLUS_API_KEY || config.apiKey;
+  if (!apiKey) {
+    throw new TranslatePlusValidationError(
+      'API key is required. Use --api-key, set TRANSLATEPLUS_API_KEY, or add apiKey to the config file'
+    );
+  }
+
+  const options: ClientOptions = {
+    apiKey,
+    baseUrl: stringFlag(args, 'base-url') || env.TRANSLATEPLUS_BASE_URL || config.baseUrl,
+    timeout: config.timeout,
+    maxRetries: config.maxRetries,
+    maxConcurrent: config.maxConcurrent,
+  };
+  return new TranslatePlusClient(options);
+}
+
+/**
+ * Read command input from --input, the remaining positionals, or stdin.
+ */
+async function readInput(args: ParsedArgs, io: CliIO, fromIndex: number): Promise<string> {
+  const inputPath = stringFlag(args, 'input');
+  if (inputPath && inputPath !== '-') {
+    return fs.readFileSync(inputPath, 'utf8');
+  }
+  if (!inputPath && args.positionals.length > fromIndex) {
+    return args.positionals.slice(fromIndex).join(' ');
+  }
+  return io.readStdin();
+}
+
+function writeOutput(args: ParsedArgs, io: CliIO, content: string | Buffer): void {
+  const outputPath = stringFlag(args, 'output');
+  if (outputPath && outputPath !== '-') {
+    fs.writeFileSync(outputPath, content);
+    return;
+  }
+  const text = content.toString();
+  io.stdout(text.endsWith('\n') ? text : `${text}\n`);
+}
+
+function parseBatchInput(input: string): string[] {
+  const trimmed = input.trim();
+  if (trimmed.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      if (Array.isArray(parsed)) {
+        return parsed.map(String);
+      }
+    } catch {
+      // Not JSON, fall through to one text per line
+    }
+  }
+  return input.split(/\r?\n/).filter((line) => line.trim() !== '');
+}
+
+function subtitleFormat(args: ParsedArgs): 'srt' | 'vtt' {
+  const explicit = stringFlag(args, 'format');
+  const inputPath = stringFlag(args, 'input');
+  const format = explicit || (inputPath ? path.extname(inputPath).slice(1).toLowerCase() : '');
+  if (format !== 'srt' && format !== 'vtt') {
+    throw new TranslatePlusValidationError(
+      "Subtitle format must be 'srt' or 'vtt'. Use --format or an --input file with that extension"
+    );
+  }
+  return format;
+}
+
+/**
+ * Run a single command and return what should be written as output.
+ * Items that failed without failing the whole command are added to `failures`.
+ */
+async function runCommand(
+  args: ParsedArgs,
+  io: CliIO,
+  failures: string[]
+): Promise<string | Buffer | undefined> {
+  const [command, subcommand] = args.positionals;
+  const json = args.flags.json === true;
+  const source = stringFlag(args, 'from');
+  // Usage errors come first, so they aren't hidden behind a missing API key
+  if (!COMMANDS.has(command)) {
+    throw unknownCommand(command);
+  }
+  if (command === 'i18n' && !I18N_COMMANDS.has(subcommand)) {
+    throw unknownI18nCommand(subcommand);
+  }
+  const client = createClient(args, io.env);
+
+  switch (command) {
+    case 'translate': {
+      const text = await readInput(args, io, 1);
+      const result = await client.translate({ text, source, target: requireFlag(args, 'to') });
+      return json ? JSON.stringify(result, null, 2) : result.translations.translation;
+    }
+
+    case 'batch': {
+      const texts = parseBatchInput(await readInput(args, io, 1));
+      const result = await client.translateBatchChunked({
+        texts,
+        source,
+        target: requireFlag(args, 'to'),
+      });
+      result.translations.forEach((t, i) => {
+        if (!t.success) {
+          failures.push(`Item ${i + 1} failed: ${t.error || 'Translation failed'}`);
+        }
+      });
+      if (json) {
+        return JSON.stringify(result, null, 2);
+      }
+      return result.translations
+        .map((t) => (t.success ? t.translation : `[error] ${t.error || 'Translation failed'}`))
+        .join('\n');
+    }
+
+    case 'html': {
+      const html = await readInput(args, io, 1);
+      const result = await client.translateHTML({ html, source, target: requireFlag(args, 'to') });
+      return json ? JSON.stringify(result, null, 2) : result.html;
+    }
+
+    case 'email': {
+      const email_body = await readInput(args, io, 1);
+      const result = await client.translateEmail({
+        subject: requireFlag(args, 'subject'),
+        email_body,
+        source,
+        target: requireFlag(args, 'to'),
+      });
+      return json
+        ? JSON.stringify(result, null, 2)
+        : `Subject: ${result.subject}\n\n${result.html_body}`;
+    }
+
+    case 'subtitles': {
+      const format = subtitleFormat(args);
+      const content = await readInput(args, io, 1);
+      const result = await client.translateSubtitles({
+        content,
+        format,
+        source,
+        target: requireFlag(args, 'to'),
+      });
+      return json ? JSON.stringify(result, null, 2) : result.content;
+    }
+
+    case 'detect': {
+      const text = await readInput(args, io, 1);
+      const result = await client.detectLanguage(text);
+      if (json) {
+        return JSON.stringify(result, null, 2);
+      }
+      const { language, confidence } = result.language_detection;
+      return `${language} (confidence: ${confidence})`;
+    }
+
+    case 'languages': {
+      const result = await client.getSupportedLanguages();
+      if (json) {
+        return JSON.stringify(result, null, 2);
+      }
+      return Object.entries(result.languages)
+        .map(([code, name]) => `${code}\t${name}`)
+        .join('\n');
+    }
+
+    case 'account': {
+      const result = await client.getAccountSummary();
+      if (json) {
+        return JSON.stringify(result, null, 2);
+      }
+      return Object.entries(result)
+        .map(
+          ([key, value]) => `${key}: ${typeof value === 'object' ? JSON.stringify(value) : value}`
+        )
+        .join('\n');
+    }
+
+    case 'i18n':
+      return runI18nCommand(client, subcommand, args, json);
+
+    default:
+      throw unknownCommand(command);
+  }
+}
+
+async function runI18nCommand(
+  client: TranslatePlusClient,
+  subcommand: string | undefined,
+  args: ParsedArgs,
+  json: boolean
+): Promise<string | Buffer | undefined> {
+  switch (subcommand) {
+    case 'create': {
+      const result = await client.createI18nJob({
+        file_path: stringFlag(args, 'input') || requirePositional(args, 2, '<file>'),
+        target_languages: requireFlag(args, 'to')
+          .split(',')
+          .map((lang) => lang.trim())
+          .filter(Boolean),
+        source_language: stringFlag(args, 'from'),
+        webhook_url: stringFlag(args, 'webhook'),
+      });
+      return json
+        ? JSON.stringify(result, null, 2)
+        : `Job ${result.job_id} created (status: ${result.status})`;
+    }
+
+    case 'status': {
+      const result = await client.getI18nJobStatus(requirePositional(args, 2, '<job-id>'));
+      if (json) {
+        return JSON.stringify(result, null, 2);
+      }
+      const lines = [
+        `Job: ${result.id}`,
+        `Status: ${result.status}`,
+        `Progress: ${result.progress || 0}%`,
+        `Languages: ${result.source_language} -> ${result.target_languages.join(', ')}`,
+      ];
+      if (result.error) {
+        lines.push(`Error: ${result.error}`);
+      }
+      return lines.join('\n');
+    }
+
+    case 'list': {
+      const page = positiveIntegerFlag(args, 'page', 1);
+      const pageSize = positiveIntegerFlag(args, 'page-size', 20);
+      const result = await client.listI18nJobs(page, pageSize);
+      if (json) {
+        return JSON.stringify(result, null, 2);
+      }
+      const lines = result.results.map(
+        (job) => `${job.id}\t${job.status}\t${job.target_languages.join(',')}\t${job.created_at}`
+      );
+      lines.push(`Page ${result.page} of ${result.total_pages} (${result.count} jobs)`);
+      return lines.join('\n');
+    }
+
+    case 'download':
+      return client.downloadI18nFile(
+        requirePositional(args, 2, '<job-id>'),
+        requirePositional(args, 3, '<lang>')
+      );
+
+    case 'delete': {
+      const jobId = requirePositional(args, 2, '<job-id>');
+      await client.deleteI18nJob(jobId);
+      return json
+        ? JSON.stringify({ job_id: jobId, deleted: true }, null, 2)
+        : `Deleted job ${jobId}`;
+    }
+
+    default:
+      throw unknownI18nCommand(subcommand);
+  }
+}
+
+function readProcessStdin(): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    process.stdin.setEncoding('utf8');
+    process.stdin.on('data', (chunk) => (data += chunk));
+    process.stdin.on('end', () => resolve(data));
+    process.stdin.on('error', reject);
+  });
+}
+
+const defaultIO: CliIO = {
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+  readStdin: readProcessStdin,
+  env: process.env,
+};
+
+/**
+ * Run the CLI with the given arguments (without the node and script paths).
+ *
+ * @param argv - Command-line arguments
+ * @param io - Input/output streams and environment (defaults to the current process)
+ * @returns Process exit code: 0 on success, 1 if the command or any batch item failed
+ */
+export async function runCli(argv: string[], io: CliIO = defaultIO): Promise<number> {
+  try {
+    const args = parseArgs(argv);
+
+    if (args.flags.version) {
+      io.stdout(`${__version__}\n`);
+      return 0;
+    }
+    if (args.flags.help || args.positionals.length === 0) {
+      io.stdout(USAGE);
+      return 0;
+    }
+
+    const failures: string[] = [];
+    const output = await runCommand(args, io, failures);
+    if (output !== undefined) {
+      writeOutput(args, io, output);
+    }
+    failures.forEach((failure) => io.stderr(`Error: ${failure}\n`));
+    return failures.length > 0 ? 1 : 0;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    io.stderr(`Error: ${message}\n`);
+    return 1;
+  }
+}
+
+if (require.main === module) {
+  runCli(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
+  });
+}
@@ -0,0 +1,136 @@
+/**
+ * Exports shared by the Node.js and browser entries.
+ */
+
+export { TranslatePlusBaseClient } from './base-client';
+export { fetchTransport } from './transport';
+export type {
+  Transport,
+  TransportRequest,
+  TransportResponse,
+  FetchFunction,
+  UploadFile,
+} from './transport';
+export type {
+  CassetteMode,
+  CassetteMatchField,
+  CassetteOptions,
+  CassetteRequest,
+  CassetteResponse,
+  CassetteInteraction,
+} from './cassette';
+export { checkResponseShape } from './schema';
+export type { Schema, SchemaMismatch } from './schema';
+export { MemoryCache } from './cache';
+export type { CacheAdapter, CacheStats, MemoryCacheOptions } from './cache';
+export { Semaphore } from './semaphore';
+export type { SemaphoreOptions, AcquireOptions, SemaphoreStats } from './semaphore';
+export type { RetryPolicy, RetryInfo } from './retry';
+export type { Middleware, MiddlewareRequest, MiddlewareResponse } from './middleware';
+export { countCredits, estimateRequestCredits } from './credits';
+export type { BudgetOptions, CreditUsage, CreditEstimateData, CreditEstimateFile } from './credits';
+export {
+  checkTranslation,
+  checkTranslateResponse,
+  checkBatchResponse,
+  checkHTMLResponse,
+  checkEmailResponse,
+} from './qa';
+export type { QualityCheck, QualityIssue, QualityReport, QualityCheckOptions } from './qa';
+export { findPlaceholders, comparePlaceholders } from './placeholders';
+export type { PlaceholderWarning } from './placeholders';
+export { maskTerms, restoreTerms } from './glossary';
+export type { Glossary, GlossaryWarning, MaskedTerms } from './glossary';
+export type { StreamInput, StreamTranslationItem, TranslateStreamOptions } from './stream';
+export {
+  parseSubtitles,
+  validateSubtitles,
+  formatSubtitles,
+  convertSubtitles,
+  chunkSubtitles,
+  retimeSubtitles,
+  wrapSubtitleText,
+  checkReadingSpeed,
+} from './subtitles';
+export type {
+  SubtitleFormat,
+  SubtitleCue,
+  SubtitleDocument,
+  SubtitleIssue,
+  SubtitleValidationResult,
+  ChunkSubtitlesOptions,
+  ReadingSpeedWarning,
+} from './subtitles';
+export {
+  detectLocaleFormat,
+  parseLocaleFile,
+  serializeLocaleFile,
+  validateLocaleFile,
+} from './formats';
+export type {
+  LocaleFileFormat,
+  TranslationUnit,
+  ParsedLocaleFile,
+  LocaleFileIssue,
+  LocaleFileValidationResult,
+} from './formats';
+export {
+  TranslatePlusError,
+  TranslatePlusAPIError,
+  TranslatePlusAuthenticationError,
+  TranslatePlusRateLimitError,
+  TranslatePlusInsufficientCreditsError,
+  TranslatePlusTimeoutError,
+  TranslatePlusNetworkError,
+  TranslatePlusServerError,
+  TranslatePlusNotFoundError,
+  TranslatePlusRequestValidationError,
+  TranslatePlusValidationError,
+  TranslatePlusFormatError,
+  TranslatePlusResponseFormatError,
+  TranslatePlusQueueFullError,
+  TranslatePlusBudgetExceededError,
+  TranslatePlusCassetteError,
+  TranslatePlusCancelledError,
+  TranslatePlusJobFailedError,
+  TranslatePlusJobTimeoutError,
+  TranslatePlusWebhookError,
+} from './exceptions';
+export type { FieldError } from './exceptions';
+
+export type {
+  TranslateOptions,
+  BatchTranslateOptions,
+  TranslateHTMLOptions,
+  TranslateEmailOptions,
+  TranslateSubtitleOptions,
+  I18nJobOptions,
+  TranslateResponse,
+  BatchTranslateResponse,
+  TranslateHTMLResponse,
+  TranslateEmailResponse,
+  TranslateSubtitleResponse,
+  TranslateSubtitlesToManyOptions,
+  MultiTargetOptions,
+  MultiTargetResponse,
+  DetectLanguageResponse,
+  SupportedLanguagesResponse,
+  AccountSummaryResponse,
+  I18nJobResponse,
+  I18nJobStatusResponse,
+  I18nJobListResponse,
+  RequestOptions,
+  WaitForI18nJobOptions,
+  CreditEstimateRequests,
+  LocaleValue,
+  LocaleData,
+  TranslateLocaleOptions,
+  TranslateLocaleResponse,
+  LocaleSnapshot,
+  SyncLocaleOptions,
+  SyncLocaleResponse,
+  LocaleSyncReport,
+  TranslateLocaleFileOptions,
+  TranslateLocaleFileResponse,
+} from './types';
+export { __version__ } from './version';
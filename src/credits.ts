@@ -0,0 +1,273 @@
+/**
+ * Credit estimation and budget tracking for API requests.
+ *
+ * Requests are billed at one credit per character of translatable text.
+ * Markup in HTML and email bodies and subtitle timing lines are not counted,
+ * and i18n files are charged once per target language. Estimates are made
+ * locally from the request payload, so they can be checked before sending.
+ */
+
+import { TranslatePlusBudgetExceededError, TranslatePlusCancelledError } from './exceptions';
+import { LocaleFileFormat, detectLocaleFormat, parseLocaleFile } from './formats';
+import { parseSubtitles } from './subtitles';
+import type { CreditEstimateRequests } from './types';
+
+/** Endpoint each estimable method sends to */
+export const CREDIT_ENDPOINTS: { [method in keyof CreditEstimateRequests]: string } = {
+  translate: '/v2/translate',
+  translateBatch: '/v2/translate/batch',
+  translateHTML: '/v2/translate/html',
+  translateEmail: '/v2/translate/email',
+  translateSubtitles: '/v2/translate/subtitles',
+  createI18nJob: '/v2/i18n/jobs',
+};
+
+export interface BudgetOptions {
+  /** Refuse requests that would take this client's spending past this many credits */
+  maxCredits?: number;
+  /** Refuse requests that would cost more than the account's remaining credits */
+  checkAccountCredits?: boolean;
+  /** How long a fetched account balance is trusted, in milliseconds (default: 300000) */
+  accountCacheTtl?: number;
+}
+
+export interface CreditUsage {
+  /** Estimated credits of every successful request */
+  spent: number;
+  /** Estimated credits of requests queued or in flight */
+  pending: number;
+  /** Number of successful billable requests */
+  requests: number;
+}
+
+/** Request body fields that are billed */
+export interface CreditEstimateData {
+  text?: string;
+  texts?: string[];
+  html?: string;
+  subject?: string;
+  email_body?: string;
+  content?: string;
+  /** Subtitle format for subtitle requests; i18n jobs pass their file format */
+  format?: string;
+  /** List, or comma-separated as in the i18n job upload form */
+  target_languages?: string | string[];
+}
+
+/** Uploaded file contents, for i18n job estimates */
+export interface CreditEstimateFile {
+  filename: string;
+  content: string;
+  /** File format (default: detected from the filename) */
+  format?: LocaleFileFormat;
+}
+
+/**
+ * Count billable characters, treating surrogate pairs as one character.
+ */
+export function countCredits(text: string | undefined): number {
+  return text ? Array.from(text).length : 0;
+}
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]*>/g, '');
+}
+
+function subtitleCredits(content: string, format: string | undefined): number {
+  if (format !== 'srt' && format !== 'vtt') {
+    return countCredits(content);
+  }
+  try {
+    return parseSubtitles(content, format).cues.reduce(
+      (total, cue) => total + countCredits(cue.text),
+      0
+    );
+  } catch {
+    return countCredits(content);
+  }
+}
+
+function localeFileCredits(file: CreditEstimateFile): number {
+  const format = file.format || detectLocaleFormat(file.filename);
+  if (format) {
+    try {
+      return parseLocaleFile(file.content, format).units.reduce(
+        (total, unit) => total + countCredits(unit.source),
+        0
+      );
+    } catch {
+      // Malformed files are estimated by their full length
+    }
+  }
+  return countCredits(file.content);
+}
+
+function targetCount(targets: string | string[] | undefined): number {
+  const list = typeof targets === 'string' ? targets.split(',') : targets || [];
+  return list.filter((target) => target.trim() !== '').length;
+}
+
+/**
+ * Estimate the credits a request will cost from its payload.
+ *
+ * @param endpoint - API endpoint, e.g. '/v2/translate/batch'
+ * @param data - Request body
+ * @param file - Uploaded file, for i18n jobs
+ * @returns Estimated credits; 0 for requests that aren't billed
+ *
+ * @example
+ * ```typescript
+ * estimateRequestCredits('/v2/translate/html', { html: '<b>Hello</b>', target: 'fr' }); // 5
+ * ```
+ */
+export function estimateRequestCredits(
+  endpoint: string,
+  data: CreditEstimateData | undefined,
+  file?: CreditEstimateFile
+): number {
+  if (!data) {
+    return 0;
+  }
+  switch (endpoint) {
+    case '/v2/translate':
+      return countCredits(data.text);
+    case '/v2/translate/batch':
+      return (data.texts || []).reduce((total, text) => total + countCredits(text), 0);
+    case '/v2/translate/html':
+      return countCredits(stripTags(data.html || ''));
+    case '/v2/translate/email':
+      return countCredits(data.subject) + countCredits(stripTags(data.email_body || ''));
+    case '/v2/translate/subtitles':
+      return subtitleCredits(data.content || '', data.format);
+    case '/v2/i18n/jobs':
+      return file ? localeFileCredits(file) * targetCount(data.target_languages) : 0;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Wait for a promise, rejecting early if the signal aborts. The promise itself
+ * keeps running, so others can still wait for it.
+ */
+function waitUnlessAborted<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new TranslatePlusCancelledError('Request cancelled'));
+      return;
+    }
+    const onAbort = () => reject(new TranslatePlusCancelledError('Request cancelled'));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Tracks a client's credit usage and checks requests against its budget.
+ *
+ * Credits are reserved before a request is sent and released once it settles;
+ * successful requests are also recorded as spent.
+ */
+export class CreditBudget {
+  private options?: BudgetOptions;
+  private fetchAccount: () => Promise<unknown>;
+  private usage: CreditUsage = { spent: 0, pending: 0, requests: 0 };
+  private account?: { remaining: number; fetchedAt: number; spentAtFetch: number };
+  private accountRefresh?: Promise<unknown>;
+
+  /**
+   * @param options - Budget limits, or undefined to only track usage
+   * @param fetchAccount - Fetches the account summary, which must report the
+   *   balance back through setAccountBalance
+   */
+  constructor(options: BudgetOptions | undefined, fetchAccount: () => Promise<unknown>) {
+    this.options = options;
+    this.fetchAccount = fetchAccount;
+  }
+
+  getUsage(): CreditUsage {
+    return { ...this.usage };
+  }
+
+  /**
+   * Record the account's remaining credits as of now.
+   */
+  setAccountBalance(remaining: number): void {
+    this.account = { remaining, fetchedAt: Date.now(), spentAtFetch: this.usage.spent };
+  }
+
+  /**
+   * Check a request's estimated cost against the budget and reserve it.
+   *
+   * @throws TranslatePlusBudgetExceededError if the request would exceed the budget
+   */
+  async reserve(credits: number, signal?: AbortSignal): Promise<void> {
+    if (credits === 0 || !this.options) {
+      this.usage.pending += credits;
+      return;
+    }
+
+    const { maxCredits, checkAccountCredits, accountCacheTtl = 300000 } = this.options;
+    const usage = this.usage;
+    if (maxCredits !== undefined) {
+      const available = maxCredits - usage.spent - usage.pending;
+      if (credits > available) {
+        throw new TranslatePlusBudgetExceededError(
+          `Request needs about ${credits} credits but only ${Math.max(available, 0)} remain in the budget`,
+          credits,
+          Math.max(available, 0)
+        );
+      }
+    }
+    if (checkAccountCredits) {
+      if (!this.account || Date.now() - this.account.fetchedAt >= accountCacheTtl) {
+        if (!this.accountRefresh) {
+          // Shared by every caller waiting for the balance, so no caller's signal applies to it
+          this.accountRefresh = this.fetchAccount().finally(() => {
+            this.accountRefresh = undefined;
+          });
+        }
+        await waitUnlessAborted(this.accountRefresh, signal);
+      }
+      const account = this.account!;
+      const available = account.remaining - (usage.spent - account.spentAtFetch) - usage.pending;
+      if (credits > available) {
+        throw new TranslatePlusBudgetExceededError(
+          `Request needs about ${credits} credits but the account has only ${Math.max(available, 0)} left`,
+          credits,
+          Math.max(available, 0)
+        );
+      }
+    }
+    usage.pending += credits;
+  }
+
+  /**
+   * Record a reserved request as successful.
+   */
+  spend(credits: number): void {
+    if (credits > 0) {
+      this.usage.spent += credits;
+      this.usage.requests++;
+    }
+  }
+
+  /**
+   * Release credits reserved for a request that has settled.
+   */
+  release(credits: number): void {
+    this.usage.pending -= credits;
+  }
+}
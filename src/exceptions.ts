@@ -2,27 +2,122 @@
  * Custom exceptions for TranslatePlus client.
  */
 
+import type { CassetteRequest } from './cassette';
+import { I18nJobStatusResponse } from './types';
+
+/**
+ * Convert a value for toJSON, turning errors into plain objects.
+ */
+function toPlain(value: unknown): unknown {
+  if (value instanceof TranslatePlusError) {
+    return value.toJSON();
+  }
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message };
+  }
+  return value;
+}
+
 export class TranslatePlusError extends Error {
+  public cause?: unknown;
+
   constructor(message: string) {
     super(message);
     this.name = 'TranslatePlusError';
     Object.setPrototypeOf(this, TranslatePlusError.prototype);
   }
+
+  /**
+   * Plain-object form for structured logging: name, message and the error's own
+   * fields, with the cause reduced to its name and message.
+   */
+  toJSON(): { [key: string]: unknown } {
+    const json: { [key: string]: unknown } = { name: this.name, message: this.message };
+    Object.entries(this).forEach(([key, value]) => {
+      json[key] = toPlain(value);
+    });
+    return json;
+  }
 }
 
 export class TranslatePlusAPIError extends TranslatePlusError {
   public statusCode?: number;
   public response?: any;
+  /** Delay in ms requested by the server's Retry-After header, if any */
+  public retryAfter?: number;
+  /** HTTP method of the failed request */
+  public method?: string;
+  /** API endpoint of the failed request, e.g. `/v2/translate` */
+  public endpoint?: string;
+  /** Attempt that failed, counting from 1; with retries exhausted, the number of attempts made */
+  public attempt?: number;
+  /** Value of the response's X-Request-ID header, to quote to support */
+  public requestId?: string;
 
-  constructor(message: string, statusCode?: number, response?: any) {
+  constructor(message: string, statusCode?: number, response?: any, cause?: unknown) {
     super(message);
     this.name = 'TranslatePlusAPIError';
     this.statusCode = statusCode;
     this.response = response;
+    this.cause = cause;
     Object.setPrototypeOf(this, TranslatePlusAPIError.prototype);
   }
 }
 
+export class TranslatePlusTimeoutError extends TranslatePlusAPIError {
+  /** Timeout in ms that elapsed */
+  public timeout: number;
+
+  constructor(message: string, timeout: number, cause?: unknown) {
+    super(message, undefined, undefined, cause);
+    this.name = 'TranslatePlusTimeoutError';
+    this.timeout = timeout;
+    Object.setPrototypeOf(this, TranslatePlusTimeoutError.prototype);
+  }
+}
+
+export class TranslatePlusNetworkError extends TranslatePlusAPIError {
+  constructor(message: string, cause?: unknown) {
+    super(message, undefined, undefined, cause);
+    this.name = 'TranslatePlusNetworkError';
+    Object.setPrototypeOf(this, TranslatePlusNetworkError.prototype);
+  }
+}
+
+export class TranslatePlusServerError extends TranslatePlusAPIError {
+  constructor(message: string, statusCode?: number, response?: unknown) {
+    super(message, statusCode, response);
+    this.name = 'TranslatePlusServerError';
+    Object.setPrototypeOf(this, TranslatePlusServerError.prototype);
+  }
+}
+
+export class TranslatePlusNotFoundError extends TranslatePlusAPIError {
+  constructor(message: string, statusCode?: number, response?: unknown) {
+    super(message, statusCode, response);
+    this.name = 'TranslatePlusNotFoundError';
+    Object.setPrototypeOf(this, TranslatePlusNotFoundError.prototype);
+  }
+}
+
+export interface FieldError {
+  /** Dotted path of the rejected field, e.g. `texts.2`; empty for the request as a whole */
+  field: string;
+  message: string;
+}
+
+export class TranslatePlusRequestValidationError extends TranslatePlusAPIError {
+  /** Fields the server rejected, when it said which */
+  public fields: FieldError[];
+
+  constructor(message: string, statusCode?: number, response?: unknown, fields: FieldError[] = []) {
+    super(message, statusCode, response);
+    this.name = 'TranslatePlusRequestValidationError';
+    this.fields = fields;
+    Object.setPrototypeOf(this, TranslatePlusRequestValidationError.prototype);
+  }
+}
+
 export class TranslatePlusAuthenticationError extends TranslatePlusAPIError {
   constructor(message: string, statusCode?: number, response?: any) {
     super(message, statusCode, response);
@@ -54,3 +149,126 @@ export class TranslatePlusValidationError extends TranslatePlusError {
     Object.setPrototypeOf(this, TranslatePlusValidationError.prototype);
   }
 }
+
+export class TranslatePlusFormatError extends TranslatePlusValidationError {
+  /** File format being parsed, e.g. 'po' */
+  public format: string;
+  /** 1-based line of the problem, if known */
+  public line?: number;
+
+  constructor(message: string, format: string, line?: number) {
+    super(line !== undefined ? `${message} (line ${line})` : message);
+    this.name = 'TranslatePlusFormatError';
+    this.format = format;
+    this.line = line;
+    Object.setPrototypeOf(this, TranslatePlusFormatError.prototype);
+  }
+}
+
+export class TranslatePlusResponseFormatError extends TranslatePlusError {
+  /** Endpoint that returned the response */
+  public endpoint: string;
+  /** Where the response differs from the expected shape, e.g. `$.translations.source` */
+  public path: string;
+  /** Response body as received */
+  public body: unknown;
+
+  constructor(message: string, endpoint: string, path: string, body: unknown) {
+    super(message);
+    this.name = 'TranslatePlusResponseFormatError';
+    this.endpoint = endpoint;
+    this.path = path;
+    this.body = body;
+    Object.setPrototypeOf(this, TranslatePlusResponseFormatError.prototype);
+  }
+}
+
+export class TranslatePlusQueueFullError extends TranslatePlusError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TranslatePlusQueueFullError';
+    Object.setPrototypeOf(this, TranslatePlusQueueFullError.prototype);
+  }
+}
+
+export class TranslatePlusCancelledError extends TranslatePlusError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TranslatePlusCancelledError';
+    Object.setPrototypeOf(this, TranslatePlusCancelledError.prototype);
+  }
+}
+
+export class TranslatePlusBudgetExceededError extends TranslatePlusError {
+  /** Estimated cost of the refused request */
+  public estimatedCredits: number;
+  /** Credits left in the budget or account when the request was refused */
+  public availableCredits: number;
+
+  constructor(message: string, estimatedCredits: number, availableCredits: number) {
+    super(message);
+    this.name = 'TranslatePlusBudgetExceededError';
+    this.estimatedCredits = estimatedCredits;
+    this.availableCredits = availableCredits;
+    Object.setPrototypeOf(this, TranslatePlusBudgetExceededError.prototype);
+  }
+}
+
+export class TranslatePlusCassetteError extends TranslatePlusError {
+  /** The request the cassette had no recording for, API key redacted */
+  public request: CassetteRequest;
+
+  constructor(message: string, request: CassetteRequest) {
+    super(message);
+    this.name = 'TranslatePlusCassetteError';
+    this.request = request;
+    Object.setPrototypeOf(this, TranslatePlusCassetteError.prototype);
+  }
+}
+
+export class TranslatePlusJobFailedError extends TranslatePlusError {
+  public job: I18nJobStatusResponse;
+
+  constructor(message: string, job: I18nJobStatusResponse) {
+    super(message);
+    this.name = 'TranslatePlusJobFailedError';
+    this.job = job;
+    Object.setPrototypeOf(this, TranslatePlusJobFailedError.prototype);
+  }
+}
+
+export class TranslatePlusJobTimeoutError extends TranslatePlusError {
+  public job: I18nJobStatusResponse;
+
+  constructor(message: string, job: I18nJobStatusResponse) {
+    super(message);
+    this.name = 'TranslatePlusJobTimeoutError';
+    this.job = job;
+    Object.setPrototypeOf(this, TranslatePlusJobTimeoutError.prototype);
+  }
+}
+
+export class TranslatePlusWebhookError extends TranslatePlusError {
+  /** HTTP status code to answer the webhook request with */
+  public statusCode: number;
+
+  constructor(message: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'TranslatePlusWebhookError';
+    this.statusCode = statusCode;
+    Object.setPrototypeOf(this, TranslatePlusWebhookError.prototype);
+  }
+}
+
+/**
+ * Whether an error would fail every request a call makes, not just one chunk:
+ * cancellation, a bad API key, or no credits left.
+ */
+export function isCallWideError(error: unknown): boolean {
+  return (
+    error instanceof TranslatePlusCancelledError ||
+    error instanceof TranslatePlusAuthenticationError ||
+    error instanceof TranslatePlusInsufficientCreditsError ||
+    error instanceof TranslatePlusBudgetExceededError
+  );
+}
@@ -0,0 +1,103 @@
+/**
+ * Android `strings.xml` resources.
+ *
+ * Units are keyed by resource name: `name` for `<string>`, `name[0]` for
+ * `<string-array>` items and `name[quantity]` for `<plurals>` items. Resources
+ * marked `translatable="false"` are skipped.
+ */
+
+import { FormatHandler, TranslationUnit } from './types';
+import { decodeEscape, formatError } from './util';
+import { XmlElement, childrenNamed, decodeXml, escapeXml, innerXml, parseXml } from './xml';
+
+function decodeAndroid(text: string): string {
+  let value = decodeXml(text);
+  const quoted = /^\s*"([\s\S]*)"\s*$/.exec(value);
+  value = quoted ? quoted[1] : value.replace(/\s+/g, ' ').trim();
+  return value.replace(/\\(u[0-9a-fA-F]{4}|.)/g, (_, escape: string) => decodeEscape(escape));
+}
+
+function parseAndroid(content: string): TranslationUnit[] {
+  const root = parseXml(content, 'android');
+  const fail = (offset: number, message: string) =>
+    formatError('android', content, offset, message);
+  if (root.name !== 'resources') {
+    throw fail(root.start, 'Root element must be <resources>');
+  }
+  const units: TranslationUnit[] = [];
+  const seen = new Set<string>();
+
+  const addUnit = (key: string, element: XmlElement) => {
+    if (seen.has(key)) {
+      throw fail(element.start, `Duplicate resource: ${key}`);
+    }
+    seen.add(key);
+    const raw = innerXml(content, element);
+    const markup = element.children.length > 0;
+    units.push({
+      key,
+      source: markup ? raw : decodeAndroid(raw),
+      markup: markup || undefined,
+      start: element.innerStart,
+      end: element.innerEnd,
+      raw,
+    });
+  };
+
+  for (const resource of root.children) {
+    if (!['string', 'string-array', 'plurals'].includes(resource.name)) {
+      continue;
+    }
+    const name = resource.attributes.name;
+    if (!name) {
+      throw fail(resource.start, `<${resource.name}> is missing a name`);
+    }
+    if (resource.attributes.translatable === 'false') {
+      continue;
+    }
+    if (resource.name === 'string') {
+      addUnit(name, resource);
+    } else if (resource.name === 'string-array') {
+      childrenNamed(resource, 'item').forEach((item, i) => addUnit(`${name}[${i}]`, item));
+    } else {
+      childrenNamed(resource, 'item').forEach((item) => {
+        const quantity = item.attributes.quantity;
+        if (!quantity) {
+          throw fail(item.start, `Plural item in ${name} is missing a quantity`);
+        }
+        addUnit(`${name}[${quantity}]`, item);
+      });
+    }
+  }
+  return units;
+}
+
+function encodeAndroid(value: string, unit: TranslationUnit): string {
+  if (unit.markup) {
+    return value;
+  }
+  const quoted = /^\s*"[\s\S]*"\s*$/.test(unit.raw);
+  let escaped = value.replace(/[\\"'\n\t]/g, (char) => {
+    switch (char) {
+      case '\n':
+        return '\\n';
+      case '\t':
+        return '\\t';
+      case "'":
+        return quoted ? "'" : "\\'";
+      default:
+        return `\\${char}`;
+    }
+  });
+  if (/^[@?]/.test(escaped)) {
+    escaped = `\\${escaped}`;
+  }
+  escaped = escapeXml(escaped);
+  return quoted ? `"${escaped}"` : escaped;
+}
+
+export const android: FormatHandler = {
+  extensions: ['.xml'],
+  parse: parseAndroid,
+  encode: encodeAndroid,
+};
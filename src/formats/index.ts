@@ -0,0 +1,167 @@
+/**
+ * Parsers and serializers for i18n file formats.
+ *
+ * Files are parsed into translation units that remember where each translation
+ * belongs. Serializing only rewrites the slots of translated units, so the rest
+ * of the file (comments, ordering, whitespace, escaping) round-trips byte for byte.
+ */
+
+import { TranslatePlusFormatError, TranslatePlusValidationError } from '../exceptions';
+import { android } from './android';
+import { json } from './json';
+import { po } from './po';
+import { properties } from './properties';
+import { strings } from './strings';
+import { stringsdict } from './stringsdict';
+import {
+  FormatHandler,
+  LocaleFileFormat,
+  LocaleFileValidationResult,
+  ParsedLocaleFile,
+} from './types';
+import { xliff } from './xliff';
+import { yaml } from './yaml';
+
+export type {
+  LocaleFileFormat,
+  TranslationUnit,
+  ParsedLocaleFile,
+  LocaleFileIssue,
+  LocaleFileValidationResult,
+} from './types';
+
+const HANDLERS: { [format in LocaleFileFormat]: FormatHandler } = {
+  json,
+  yaml,
+  po,
+  xliff,
+  android,
+  strings,
+  stringsdict,
+  properties,
+};
+
+function handlerFor(format: LocaleFileFormat): FormatHandler {
+  const handler = HANDLERS[format];
+  if (!handler) {
+    throw new TranslatePlusValidationError(`Unsupported locale file format: ${format}`);
+  }
+  return handler;
+}
+
+/**
+ * Detect a file's format from its extension.
+ *
+ * @returns The format, or undefined if the extension is not recognized
+ *
+ * @example
+ * ```typescript
+ * detectLocaleFormat('res/values/strings.xml'); // 'android'
+ * detectLocaleFormat('locales/messages.pot'); // 'po'
+ * ```
+ */
+export function detectLocaleFormat(filePath: string): LocaleFileFormat | undefined {
+  const lower = filePath.toLowerCase();
+  return (Object.keys(HANDLERS) as LocaleFileFormat[]).find((format) =>
+    HANDLERS[format].extensions.some((extension) => lower.endsWith(extension))
+  );
+}
+
+/**
+ * Extract the translatable units of a file.
+ *
+ * @param content - File content
+ * @param format - File format
+ * @throws TranslatePlusFormatError if the file is malformed
+ *
+ * @example
+ * ```typescript
+ * const file = parseLocaleFile(fs.readFileSync('messages.po', 'utf8'), 'po');
+ * file.units.forEach((unit) => console.log(unit.key, unit.source));
+ * ```
+ */
+export function parseLocaleFile(content: string, format: LocaleFileFormat): ParsedLocaleFile {
+  return { format, content, units: handlerFor(format).parse(content) };
+}
+
+/**
+ * Parse a locale file, detecting the format from its path if not given.
+ *
+ * @throws TranslatePlusValidationError if the format is neither given nor detectable
+ * @throws TranslatePlusFormatError if the file is malformed
+ */
+export function readLocaleFile(
+  content: string,
+  filePath?: string,
+  format?: LocaleFileFormat
+): ParsedLocaleFile {
+  const resolved = format || (filePath ? detectLocaleFormat(filePath) : undefined);
+  if (!resolved) {
+    throw new TranslatePlusValidationError(
+      filePath
+        ? `Cannot detect the locale file format of ${filePath}; pass format`
+        : 'format is required when passing content'
+    );
+  }
+  return parseLocaleFile(content, resolved);
+}
+
+/**
+ * Write translations back into a parsed file.
+ *
+ * Units without a translation, and everything between units, are copied
+ * unchanged from the original content.
+ *
+ * @param file - File returned by parseLocaleFile
+ * @param translations - Translated text keyed by unit key
+ * @returns The new file content
+ *
+ * @example
+ * ```typescript
+ * const fr = serializeLocaleFile(file, { 'home.title': 'Bienvenue' });
+ * ```
+ */
+export function serializeLocaleFile(
+  file: ParsedLocaleFile,
+  translations: { [key: string]: string }
+): string {
+  const handler = handlerFor(file.format);
+  const units = file.units
+    .filter((unit) => Object.prototype.hasOwnProperty.call(translations, unit.key))
+    .sort((a, b) => a.start - b.start);
+
+  let result = '';
+  let last = 0;
+  for (const unit of units) {
+    result += file.content.slice(last, unit.start);
+    result += handler.encode(translations[unit.key], unit, file);
+    last = unit.end;
+  }
+  return result + file.content.slice(last);
+}
+
+/**
+ * Check that a file can be parsed, without throwing.
+ *
+ * @example
+ * ```typescript
+ * const result = validateLocaleFile(content, 'android');
+ * if (!result.valid) {
+ *   console.error(result.errors); // [{ message: 'Unexpected </string> (line 12)', line: 12 }]
+ * }
+ * ```
+ */
+export function validateLocaleFile(
+  content: string,
+  format: LocaleFileFormat
+): LocaleFileValidationResult {
+  try {
+    parseLocaleFile(content, format);
+    return { valid: true, errors: [] };
+  } catch (error) {
+    if (error instanceof TranslatePlusFormatError) {
+      return { valid: false, errors: [{ message: error.message, line: error.line }] };
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * JSON locale files, nested or flat.
+ */
+
+import { formatKey } from '../locale';
+import { FormatHandler, TranslationUnit } from './types';
+import { formatError } from './util';
+
+const STRING = /"(?:[^"\\]|\\.)*"/y;
+const LITERAL = /(?:-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null)/y;
+
+/**
+ * Parse JSON while recording the offsets of every string leaf.
+ */
+function parseJson(content: string): TranslationUnit[] {
+  const units: TranslationUnit[] = [];
+  // Unit keys, which a flat "a.b" and a nested a → b share
+  const unitKeys = new Set<string>();
+  let pos = content.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const fail = (message: string) => formatError('json', content, pos, message);
+  const skipWhitespace = () => {
+    while (pos < content.length && ' \t\n\r'.includes(content[pos])) {
+      pos++;
+    }
+  };
+  const readString = (): string => {
+    STRING.lastIndex = pos;
+    const match = STRING.exec(content);
+    if (!match) {
+      throw fail('Invalid string');
+    }
+    try {
+      return JSON.parse(match[0]);
+    } catch {
+      // Control characters or bad escapes
+      throw fail('Invalid string');
+    } finally {
+      pos += match[0].length;
+    }
+  };
+  const expect = (char: string) => {
+    skipWhitespace();
+    if (content[pos] !== char) {
+      throw fail(`Expected '${char}'`);
+    }
+    pos++;
+  };
+
+  const readValue = (path: Array<string | number>): void => {
+    skipWhitespace();
+    const char = content[pos];
+    if (char === '{') {
+      pos++;
+      const seen = new Set<string>();
+      skipWhitespace();
+      if (content[pos] === '}') {
+        pos++;
+        return;
+      }
+      for (;;) {
+        skipWhitespace();
+        if (content[pos] !== '"') {
+          throw fail('Expected property name');
+        }
+        const key = readString();
+        if (seen.has(key)) {
+          throw fail(`Duplicate key: ${formatKey([...path, key])}`);
+        }
+        seen.add(key);
+        expect(':');
+        readValue([...path, key]);
+        skipWhitespace();
+        if (content[pos] === '}') {
+          pos++;
+          return;
+        }
+        expect(',');
+      }
+    }
+    if (char === '[') {
+      pos++;
+      skipWhitespace();
+      if (content[pos] === ']') {
+        pos++;
+        return;
+      }
+      for (let index = 0; ; index++) {
+        readValue([...path, index]);
+        skipWhitespace();
+        if (content[pos] === ']') {
+          pos++;
+          return;
+        }
+        expect(',');
+      }
+    }
+    if (char === '"') {
+      const start = pos;
+      const key = formatKey(path);
+      if (unitKeys.has(key)) {
+        throw fail(`Duplicate key: ${key}`);
+      }
+      unitKeys.add(key);
+      const source = readString();
+      units.push({
+        key,
+        source,
+        start,
+        end: pos,
+        raw: content.slice(start, pos),
+      });
+      return;
+    }
+    LITERAL.lastIndex = pos;
+    const match = LITERAL.exec(content);
+    if (!match) {
+      throw fail(
+        pos < content.length ? `Unexpected character '${char}'` : 'Unexpected end of file'
+      );
+    }
+    pos += match[0].length;
+  };
+
+  skipWhitespace();
+  if (content[pos] !== '{') {
+    throw fail('Locale file must contain a JSON object');
+  }
+  readValue([]);
+  skipWhitespace();
+  if (pos < content.length) {
+    throw fail('Unexpected content after JSON object');
+  }
+  return units;
+}
+
+export const json: FormatHandler = {
+  extensions: ['.json'],
+  parse: parseJson,
+  encode: (value) => JSON.stringify(value),
+};
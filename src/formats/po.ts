@@ -0,0 +1,221 @@
+/**
+ * gettext PO and POT files.
+ *
+ * Units are keyed by msgid, prefixed with `msgctxt` and `\u0004` when a context is
+ * set, as gettext does. Plural entries produce one unit per msgstr[n], keyed
+ * `msgid[n]`. The header entry and obsolete (`#~`) entries are skipped.
+ */
+
+import { FormatHandler, TranslationUnit } from './types';
+import { decodeEscape, formatError, lineBreakOf, splitLines } from './util';
+
+interface PoField {
+  value: string;
+  /** Offset of the first quoted string */
+  start: number;
+  /** Offset just past the last quoted string */
+  end: number;
+}
+
+interface PoEntry {
+  context?: PoField;
+  id?: PoField;
+  plural?: PoField;
+  str?: PoField;
+  plurals: PoField[];
+  notes: string[];
+  obsolete: boolean;
+  /** Offset of the entry, for error reporting */
+  offset: number;
+}
+
+const KEYWORD = /^(msgctxt|msgid_plural|msgid|msgstr(?:\[(\d+)\])?)\s+/;
+const QUOTED = /^"((?:[^"\\]|\\.)*)"\s*$/;
+
+function parsePo(content: string): TranslationUnit[] {
+  const units: TranslationUnit[] = [];
+  const seen = new Set<string>();
+  let entry: PoEntry = { plurals: [], notes: [], obsolete: false, offset: 0 };
+  let current: PoField | undefined;
+
+  const fail = (offset: number, message: string) => formatError('po', content, offset, message);
+
+  const readString = (text: string, offset: number): string => {
+    const match = QUOTED.exec(text);
+    if (!match) {
+      throw fail(offset, 'Expected a quoted string');
+    }
+    return match[1].replace(/\\(x[0-9a-fA-F]{2}|.)/g, (_, escape: string) =>
+      escape === 'a' ? '\x07' : escape === 'v' ? '\v' : decodeEscape(escape)
+    );
+  };
+
+  const slot = (field: PoField) => ({
+    start: field.start,
+    end: field.end,
+    raw: content.slice(field.start, field.end),
+  });
+
+  const flush = () => {
+    const done = entry;
+    entry = { plurals: [], notes: [], obsolete: false, offset: 0 };
+    current = undefined;
+    if (done.obsolete || (!done.id && !hasTranslationOf(done) && !done.context)) {
+      return;
+    }
+    if (!done.id) {
+      throw fail(done.offset, 'msgstr without msgid');
+    }
+    if (!hasTranslationOf(done)) {
+      throw fail(done.offset, 'msgid without msgstr');
+    }
+    if (done.id.value === '' && !done.context) {
+      // Header entry
+      return;
+    }
+
+    const key = done.context ? `${done.context.value}\u0004${done.id.value}` : done.id.value;
+    if (seen.has(key)) {
+      throw fail(done.offset, `Duplicate msgid: ${done.id.value}`);
+    }
+    seen.add(key);
+
+    const note = done.notes.length > 0 ? done.notes.join('\n') : undefined;
+    if (done.plural) {
+      if (done.str) {
+        throw fail(done.offset, 'Plural entry must use msgstr[n]');
+      }
+      done.plurals.forEach((field, i) => {
+        units.push({
+          key: `${key}[${i}]`,
+          source: i === 0 ? done.id!.value : done.plural!.value,
+          target: field.value,
+          note,
+          ...slot(field),
+        });
+      });
+      return;
+    }
+    if (!done.str) {
+      throw fail(done.offset, 'msgstr[n] without msgid_plural');
+    }
+    units.push({ key, source: done.id.value, target: done.str.value, note, ...slot(done.str) });
+  };
+
+  for (const line of splitLines(content)) {
+    const lead = line.text.length - line.text.trimStart().length;
+    const text = line.text.trim();
+    const offset = line.start + lead;
+
+    if (text === '') {
+      flush();
+      continue;
+    }
+    if (text[0] === '#') {
+      if (hasTranslationOf(entry)) {
+        flush();
+      }
+      if (text.startsWith('#~')) {
+        entry.obsolete = true;
+      } else if (text.startsWith('#.')) {
+        entry.notes.push(text.slice(2).trim());
+      }
+      continue;
+    }
+    if (entry.obsolete) {
+      throw fail(offset, 'Obsolete entries must be commented out');
+    }
+
+    const keyword = KEYWORD.exec(text);
+    if (keyword) {
+      const name = keyword[1];
+      if ((name === 'msgctxt' || name === 'msgid') && hasTranslationOf(entry)) {
+        flush();
+      }
+      if (!entry.id && !entry.context) {
+        entry.offset = offset;
+      }
+      const start = offset + keyword[0].length;
+      const field: PoField = {
+        value: readString(text.slice(keyword[0].length), start),
+        start,
+        end: offset + text.length,
+      };
+
+      if (name === 'msgctxt') {
+        if (entry.context || entry.id) {
+          throw fail(offset, 'Unexpected msgctxt');
+        }
+        entry.context = field;
+      } else if (name === 'msgid') {
+        if (entry.id) {
+          throw fail(offset, 'Duplicate msgid in entry');
+        }
+        entry.id = field;
+      } else if (name === 'msgid_plural') {
+        if (!entry.id || entry.plural) {
+          throw fail(offset, 'Unexpected msgid_plural');
+        }
+        entry.plural = field;
+      } else if (keyword[2] !== undefined) {
+        if (parseInt(keyword[2], 10) !== entry.plurals.length) {
+          throw fail(offset, `Expected msgstr[${entry.plurals.length}]`);
+        }
+        entry.plurals.push(field);
+      } else {
+        if (entry.str) {
+          throw fail(offset, 'Duplicate msgstr in entry');
+        }
+        entry.str = field;
+      }
+      current = field;
+      continue;
+    }
+
+    if (text[0] === '"') {
+      if (!current) {
+        throw fail(offset, 'String without a keyword');
+      }
+      current.value += readString(text, offset);
+      current.end = offset + text.length;
+      continue;
+    }
+    throw fail(offset, `Unexpected line: ${text}`);
+  }
+  flush();
+  return units;
+}
+
+function hasTranslationOf(entry: PoEntry): boolean {
+  return entry.str !== undefined || entry.plurals.length > 0;
+}
+
+function escapePo(value: string): string {
+  return value.replace(/[\\"\n\t\r]/g, (char) => {
+    switch (char) {
+      case '\n':
+        return '\\n';
+      case '\t':
+        return '\\t';
+      case '\r':
+        return '\\r';
+      default:
+        return `\\${char}`;
+    }
+  });
+}
+
+export const po: FormatHandler = {
+  extensions: ['.po', '.pot'],
+  parse: parsePo,
+  encode: (value, unit, file) => {
+    const multiline = /^""\s*\r?\n/.test(unit.raw) || value.slice(0, -1).includes('\n');
+    if (!multiline) {
+      return `"${escapePo(value)}"`;
+    }
+    // One quoted line per source line, after an empty first string
+    const lineBreak = lineBreakOf(file.content);
+    const parts = value.split(/(?<=\n)/);
+    return '""' + parts.map((part) => `${lineBreak}"${escapePo(part)}"`).join('');
+  },
+};
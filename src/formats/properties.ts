@@ -0,0 +1,132 @@
+/**
+ * Java `.properties` files.
+ *
+ * Translations are written as UTF-8 (Java 9+) unless the file already uses
+ * `\uXXXX` escapes, in which case non-ASCII characters are escaped too.
+ */
+
+import { FormatHandler, TranslationUnit } from './types';
+import { formatError, splitLines } from './util';
+
+const ESCAPES: { [char: string]: string } = { t: '\t', n: '\n', r: '\r', f: '\f' };
+
+/**
+ * Decode escapes and line continuations in a key or value.
+ */
+function decodeProperties(raw: string, fail: (message: string) => Error): string {
+  let result = '';
+  for (let i = 0; i < raw.length; i++) {
+    const char = raw[i];
+    if (char !== '\\') {
+      result += char;
+      continue;
+    }
+    const next = raw[++i];
+    if (next === '\r' || next === '\n') {
+      // Line continuation: drop the break and the next line's leading whitespace
+      if (next === '\r' && raw[i + 1] === '\n') {
+        i++;
+      }
+      while (i + 1 < raw.length && ' \t\f'.includes(raw[i + 1])) {
+        i++;
+      }
+    } else if (next === 'u') {
+      const hex = raw.slice(i + 1, i + 5);
+      if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+        throw fail('Malformed \\uxxxx escape');
+      }
+      result += String.fromCharCode(parseInt(hex, 16));
+      i += 4;
+    } else if (next !== undefined) {
+      result += ESCAPES[next] !== undefined ? ESCAPES[next] : next;
+    }
+  }
+  return result;
+}
+
+function endsWithContinuation(text: string): boolean {
+  const backslashes = /\\*$/.exec(text) as RegExpExecArray;
+  return backslashes[0].length % 2 === 1;
+}
+
+function parseProperties(content: string): TranslationUnit[] {
+  const lines = splitLines(content);
+  const units: TranslationUnit[] = [];
+  const seen = new Set<string>();
+
+  for (let n = 0; n < lines.length; n++) {
+    const line = lines[n];
+    const text = n === 0 ? line.text.replace(/^\uFEFF/, '') : line.text;
+    const lead = /^[ \t\f]*/.exec(text)![0].length + (text === line.text ? 0 : 1);
+    const first = line.text[lead];
+    if (first === undefined || first === '#' || first === '!') {
+      continue;
+    }
+
+    let last = n;
+    while (endsWithContinuation(lines[last].text) && last + 1 < lines.length) {
+      last++;
+    }
+    const start = line.start + lead;
+    const end = lines[last].end;
+    const fail = (message: string) => formatError('properties', content, start, message);
+
+    // Key runs to the first unescaped separator or whitespace
+    let i = start;
+    while (i < end && !'=: \t\f'.includes(content[i])) {
+      i += content[i] === '\\' ? 2 : 1;
+    }
+    const key = decodeProperties(content.slice(start, Math.min(i, end)), fail);
+    i = Math.min(i, end);
+    while (i < end && ' \t\f'.includes(content[i])) {
+      i++;
+    }
+    if (content[i] === '=' || content[i] === ':') {
+      i++;
+      while (i < end && ' \t\f'.includes(content[i])) {
+        i++;
+      }
+    }
+
+    if (seen.has(key)) {
+      throw fail(`Duplicate key: ${key}`);
+    }
+    seen.add(key);
+    const raw = content.slice(i, end);
+    units.push({ key, source: decodeProperties(raw, fail), start: i, end, raw });
+    n = last;
+  }
+  return units;
+}
+
+export const properties: FormatHandler = {
+  extensions: ['.properties'],
+  parse: parseProperties,
+  encode: (value, _unit, file) => {
+    const escapeUnicode = /\\u[0-9a-fA-F]{4}/.test(file.content);
+    let escaped = '';
+    for (const char of value) {
+      const code = char.charCodeAt(0);
+      if (char === '\\') {
+        escaped += '\\\\';
+      } else if (char === '\n') {
+        escaped += '\\n';
+      } else if (char === '\t') {
+        escaped += '\\t';
+      } else if (char === '\r') {
+        escaped += '\\r';
+      } else if (char === '\f') {
+        escaped += '\\f';
+      } else if (escapeUnicode && code > 0x7e) {
+        // Characters outside the BMP are escaped as surrogate pairs, as Java expects
+        for (let j = 0; j < char.length; j++) {
+          escaped += `\\u${char.charCodeAt(j).toString(16).padStart(4, '0')}`;
+        }
+      } else {
+        escaped += char;
+      }
+    }
+    // Leading whitespace would be read as part of the separator
+    return escaped.replace(/^ /, '\\ ');
+  },
+};
@@ -0,0 +1,109 @@
+/**
+ * iOS/macOS `.strings` files (`"key" = "value";`).
+ *
+ * Content must already be decoded; read UTF-16 files with the matching encoding.
+ */
+
+import { FormatHandler, TranslationUnit } from './types';
+import { decodeEscape, formatError } from './util';
+
+const QUOTED = /"(?:[^"\\]|\\[\s\S])*"/y;
+const UNQUOTED = /[A-Za-z0-9_.$:/-]+/y;
+const COMMENT = /\s*(?:\/\*([\s\S]*?)\*\/|\/\/([^\n]*))/y;
+
+function decodeStrings(raw: string): string {
+  return raw
+    .slice(1, -1)
+    .replace(/\\(U[0-9a-fA-F]{4}|u[0-9a-fA-F]{4}|[\s\S])/g, (_, escape: string) =>
+      decodeEscape(escape)
+    );
+}
+
+function parseStrings(content: string): TranslationUnit[] {
+  const units: TranslationUnit[] = [];
+  const seen = new Set<string>();
+  let pos = content.charCodeAt(0) === 0xfeff ? 1 : 0;
+  let note: string | undefined;
+
+  const fail = (message: string) => formatError('strings', content, pos, message);
+
+  /** Skip whitespace and comments, remembering the last comment as the note. */
+  const skip = () => {
+    for (;;) {
+      COMMENT.lastIndex = pos;
+      const match = COMMENT.exec(content);
+      if (!match) {
+        break;
+      }
+      note = (match[1] !== undefined ? match[1] : match[2]).trim();
+      pos += match[0].length;
+    }
+    while (pos < content.length && /\s/.test(content[pos])) {
+      pos++;
+    }
+    if (content.startsWith('/*', pos)) {
+      throw fail('Unterminated comment');
+    }
+  };
+
+  const read = (pattern: RegExp, what: string): string => {
+    pattern.lastIndex = pos;
+    const match = pattern.exec(content);
+    if (!match) {
+      throw fail(`Expected ${what}`);
+    }
+    pos += match[0].length;
+    return match[0];
+  };
+
+  const expect = (char: string) => {
+    skip();
+    if (content[pos] !== char) {
+      throw fail(`Expected '${char}'`);
+    }
+    pos++;
+  };
+
+  for (;;) {
+    note = undefined;
+    skip();
+    if (pos >= content.length) {
+      break;
+    }
+    const entryNote = note;
+    const key =
+      content[pos] === '"' ? decodeStrings(read(QUOTED, 'a key')) : read(UNQUOTED, 'a key');
+    if (seen.has(key)) {
+      throw fail(`Duplicate key: ${key}`);
+    }
+    seen.add(key);
+
+    expect('=');
+    skip();
+    const start = pos;
+    const raw = read(QUOTED, 'a quoted value');
+    units.push({ key, source: decodeStrings(raw), note: entryNote, start, end: pos, raw });
+    expect(';');
+  }
+  return units;
+}
+
+export const strings: FormatHandler = {
+  extensions: ['.strings'],
+  parse: parseStrings,
+  encode: (value) => {
+    const escaped = value.replace(/[\\"\n\t\r]/g, (char) => {
+      switch (char) {
+        case '\n':
+          return '\\n';
+        case '\t':
+          return '\\t';
+        case '\r':
+          return '\\r';
+        default:
+          return `\\${char}`;
+      }
+    });
+    return `"${escaped}"`;
+  },
+};
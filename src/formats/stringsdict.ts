@@ -0,0 +1,63 @@
+/**
+ * iOS `.stringsdict` plural rules.
+ *
+ * Every `<string>` value is a unit keyed by its dictionary path, e.g.
+ * `files_left.NSStringLocalizedFormatKey` or `files_left.files.one`, except the
+ * format spec and value type keys.
+ */
+
+import { formatKey } from '../locale';
+import { FormatHandler, TranslationUnit } from './types';
+import { formatError } from './util';
+import { XmlElement, decodeXml, escapeXml, innerXml, parseXml } from './xml';
+
+const NOT_TRANSLATABLE = ['NSStringFormatSpecTypeKey', 'NSStringFormatValueTypeKey'];
+
+function parseStringsdict(content: string): TranslationUnit[] {
+  const root = parseXml(content, 'stringsdict');
+  const fail = (offset: number, message: string) =>
+    formatError('stringsdict', content, offset, message);
+  const top = root.name === 'plist' ? root.children[0] : undefined;
+  if (!top || top.name !== 'dict') {
+    throw fail(root.start, 'Expected <plist> with a top-level <dict>');
+  }
+  const units: TranslationUnit[] = [];
+
+  const walk = (dict: XmlElement, path: string[]) => {
+    const seen = new Set<string>();
+    for (let i = 0; i < dict.children.length; i += 2) {
+      const key = dict.children[i];
+      const value = dict.children[i + 1];
+      if (key.name !== 'key' || !value) {
+        throw fail(key.start, 'Expected <key> followed by a value');
+      }
+      const name = decodeXml(innerXml(content, key));
+      if (seen.has(name)) {
+        throw fail(key.start, `Duplicate key: ${formatKey([...path, name])}`);
+      }
+      seen.add(name);
+
+      if (value.name === 'dict') {
+        walk(value, [...path, name]);
+      } else if (value.name === 'string' && !NOT_TRANSLATABLE.includes(name)) {
+        const raw = innerXml(content, value);
+        units.push({
+          key: formatKey([...path, name]),
+          source: decodeXml(raw),
+          start: value.innerStart,
+          end: value.innerEnd,
+          raw,
+        });
+      }
+    }
+  };
+
+  walk(top, []);
+  return units;
+}
+
+export const stringsdict: FormatHandler = {
+  extensions: ['.stringsdict'],
+  parse: parseStringsdict,
+  encode: (value) => escapeXml(value),
+};
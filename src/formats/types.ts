@@ -0,0 +1,59 @@
+/**
+ * Shared types for i18n file format parsers.
+ */
+
+export type LocaleFileFormat =
+  'json' | 'yaml' | 'po' | 'xliff' | 'android' | 'strings' | 'stringsdict' | 'properties';
+
+/**
+ * A translatable string extracted from a file.
+ *
+ * `start`/`end` locate the slot the translation is written to. For monolingual
+ * formats that is the source string itself; for PO and XLIFF it is the
+ * msgstr or target.
+ */
+export interface TranslationUnit {
+  /** Key unique within the file, e.g. 'home.title', 'inbox[one]' or a PO msgid */
+  key: string;
+  /** Source text to translate, unescaped */
+  source: string;
+  /** Existing translation, for bilingual formats (PO, XLIFF) */
+  target?: string;
+  /** Translator comment, if the format has one */
+  note?: string;
+  /** Source contains inline XML markup that must be kept (XLIFF, Android) */
+  markup?: boolean;
+  /** Offset where the translation slot starts */
+  start: number;
+  /** Offset where the translation slot ends (exclusive) */
+  end: number;
+  /** Original text of the slot, as written in the file */
+  raw: string;
+}
+
+export interface ParsedLocaleFile {
+  format: LocaleFileFormat;
+  /** Original file content */
+  content: string;
+  units: TranslationUnit[];
+}
+
+export interface LocaleFileIssue {
+  message: string;
+  /** 1-based line number, if known */
+  line?: number;
+}
+
+export interface LocaleFileValidationResult {
+  valid: boolean;
+  errors: LocaleFileIssue[];
+}
+
+/** @internal */
+export interface FormatHandler {
+  extensions: string[];
+  /** Extract units; throws TranslatePlusFormatError on malformed input */
+  parse(content: string): TranslationUnit[];
+  /** Encode a translation as it should appear in the unit's slot */
+  encode(value: string, unit: TranslationUnit, file: ParsedLocaleFile): string;
+}
@@ -0,0 +1,90 @@
+/**
+ * Helpers shared by the format parsers.
+ */
+
+import { TranslatePlusFormatError } from '../exceptions';
+
+/**
+ * 1-based line number of an offset.
+ */
+export function lineAt(content: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset && i < content.length; i++) {
+    if (content[i] === '\n') {
+      line++;
+    }
+  }
+  return line;
+}
+
+/**
+ * Build a TranslatePlusFormatError pointing at an offset.
+ */
+export function formatError(
+  format: string,
+  content: string,
+  offset: number,
+  message: string
+): TranslatePlusFormatError {
+  return new TranslatePlusFormatError(message, format, lineAt(content, offset));
+}
+
+export interface SourceLine {
+  /** Line text without the line break */
+  text: string;
+  /** Offset of the first character */
+  start: number;
+  /** Offset just past the last character, before the line break */
+  end: number;
+}
+
+/**
+ * Split content into lines, keeping offsets. Handles LF and CRLF.
+ */
+export function splitLines(content: string): SourceLine[] {
+  const lines: SourceLine[] = [];
+  let start = 0;
+  while (start <= content.length) {
+    let next = content.indexOf('\n', start);
+    if (next === -1) {
+      next = content.length;
+    }
+    const end = next > start && content[next - 1] === '\r' ? next - 1 : next;
+    lines.push({ text: content.slice(start, end), start, end });
+    start = next + 1;
+  }
+  return lines;
+}
+
+/**
+ * Line break used by the file, for writing new multi-line values.
+ */
+export function lineBreakOf(content: string): string {
+  return content.includes('\r\n') ? '\r\n' : '\n';
+}
+
+/**
+ * Decode a C-style backslash escape sequence body (the part after the backslash).
+ */
+export function decodeEscape(escape: string): string {
+  switch (escape[0]) {
+    case 'n':
+      return '\n';
+    case 't':
+      return '\t';
+    case 'r':
+      return '\r';
+    case 'f':
+      return '\f';
+    case 'b':
+      return '\b';
+    case '0':
+      return '\0';
+    case 'u':
+    case 'U':
+    case 'x':
+      return String.fromCodePoint(parseInt(escape.slice(1), 16));
+    default:
+      return escape;
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * XLIFF 1.2 and 2.0 files.
+ *
+ * XLIFF 1.2 units are keyed by `trans-unit` id. XLIFF 2.0 units are keyed by
+ * `unit` id, with `#segment-id` appended when a unit has several segments.
+ * A missing `<target>` is inserted after its `<source>` when written.
+ */
+
+import { FormatHandler, TranslationUnit } from './types';
+import { formatError } from './util';
+import { XmlElement, childrenNamed, decodeXml, escapeXml, innerXml, parseXml } from './xml';
+
+function parseXliff(content: string): TranslationUnit[] {
+  const root = parseXml(content, 'xliff');
+  const fail = (offset: number, message: string) => formatError('xliff', content, offset, message);
+  if (root.name !== 'xliff') {
+    throw fail(root.start, 'Root element must be <xliff>');
+  }
+  const version2 = (root.attributes.version || '').startsWith('2');
+  const units: TranslationUnit[] = [];
+  const seen = new Set<string>();
+
+  const text = (element: XmlElement) =>
+    element.children.length > 0
+      ? innerXml(content, element)
+      : decodeXml(innerXml(content, element));
+
+  const addUnit = (key: string, source: XmlElement, target?: XmlElement, note?: string) => {
+    if (seen.has(key)) {
+      throw fail(source.start, `Duplicate unit id: ${key}`);
+    }
+    seen.add(key);
+
+    let start: number;
+    let end: number;
+    if (!target) {
+      // Slot spans the whitespace before <source> and the source element; see encode
+      start = source.start;
+      while (start > 0 && /\s/.test(content[start - 1])) {
+        start--;
+      }
+      end = source.end;
+    } else if (target.innerStart === target.end) {
+      start = target.start;
+      end = target.end;
+    } else {
+      start = target.innerStart;
+      end = target.innerEnd;
+    }
+
+    units.push({
+      key,
+      source: text(source),
+      target: target ? text(target) : undefined,
+      note,
+      markup: source.children.length > 0 || undefined,
+      start,
+      end,
+      raw: content.slice(start, end),
+    });
+  };
+
+  const notesOf = (element: XmlElement, container?: XmlElement) => {
+    const notes = childrenNamed(container || element, 'note').map((n) => text(n).trim());
+    return notes.length > 0 ? notes.join('\n') : undefined;
+  };
+
+  const sourceOf = (element: XmlElement, id: string) => {
+    const source = childrenNamed(element, 'source')[0];
+    if (!source) {
+      throw fail(element.start, `Unit ${id} has no <source>`);
+    }
+    return source;
+  };
+
+  const walk = (element: XmlElement) => {
+    for (const child of element.children) {
+      if (!version2 && child.name === 'trans-unit') {
+        const id = child.attributes.id;
+        if (!id) {
+          throw fail(child.start, '<trans-unit> is missing an id');
+        }
+        if (child.attributes.translate !== 'no') {
+          addUnit(id, sourceOf(child, id), childrenNamed(child, 'target')[0], notesOf(child));
+        }
+      } else if (version2 && child.name === 'unit') {
+        const id = child.attributes.id;
+        if (!id) {
+          throw fail(child.start, '<unit> is missing an id');
+        }
+        if (child.attributes.translate === 'no') {
+          continue;
+        }
+        const notes = childrenNamed(child, 'notes')[0];
+        const note = notes ? notesOf(child, notes) : undefined;
+        const segments = childrenNamed(child, 'segment');
+        segments.forEach((segment, i) => {
+          const key = segments.length === 1 ? id : `${id}#${segment.attributes.id || i + 1}`;
+          addUnit(key, sourceOf(segment, key), childrenNamed(segment, 'target')[0], note);
+        });
+      } else {
+        walk(child);
+      }
+    }
+  };
+
+  walk(root);
+  return units;
+}
+
+export const xliff: FormatHandler = {
+  extensions: ['.xlf', '.xliff'],
+  parse: parseXliff,
+  encode: (value, unit) => {
+    const body = unit.markup ? value : escapeXml(value);
+    if (unit.raw.startsWith('<target')) {
+      // Self-closing <target/>
+      return `${unit.raw.replace(/\s*\/>$/, '>')}${body}</target>`;
+    }
+    const missing = /^(\s*)<source[\s>]/.exec(unit.raw);
+    if (missing) {
+      return `${unit.raw}${missing[1]}<target>${body}</target>`;
+    }
+    return body;
+  },
+};
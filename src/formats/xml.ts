@@ -0,0 +1,172 @@
+/**
+ * Minimal XML scanner for the XML-based formats.
+ *
+ * Builds an element tree with source offsets so content can be replaced in
+ * place. It checks well-formedness of tags but does not resolve DTDs or
+ * namespaces.
+ */
+
+import { formatError } from './util';
+
+export interface XmlElement {
+  name: string;
+  attributes: { [name: string]: string };
+  /** Offset of the start tag's '<' */
+  start: number;
+  /** Offset just past the end tag, or past a self-closing start tag */
+  end: number;
+  /** Offsets of the content between the tags (equal for self-closing elements) */
+  innerStart: number;
+  innerEnd: number;
+  children: XmlElement[];
+}
+
+const START_TAG = /<([A-Za-z_][\w.:-]*)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+const END_TAG = /<\/([A-Za-z_][\w.:-]*)\s*>/y;
+const ATTRIBUTE = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+const DOCTYPE = /<!DOCTYPE[^[>]*(?:\[[\s\S]*?\])?\s*>/y;
+const ENTITIES: { [name: string]: string } = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Parse a document and return its root element.
+ */
+export function parseXml(content: string, format: string): XmlElement {
+  const fail = (offset: number, message: string) => formatError(format, content, offset, message);
+  const document: XmlElement = {
+    name: '#document',
+    attributes: {},
+    start: 0,
+    end: content.length,
+    innerStart: 0,
+    innerEnd: content.length,
+    children: [],
+  };
+  const stack: XmlElement[] = [document];
+  let pos = 0;
+
+  const skipPast = (terminator: string, what: string) => {
+    const end = content.indexOf(terminator, pos);
+    if (end === -1) {
+      throw fail(pos, `Unterminated ${what}`);
+    }
+    pos = end + terminator.length;
+  };
+
+  for (;;) {
+    const lt = content.indexOf('<', pos);
+    if (lt === -1) {
+      break;
+    }
+    pos = lt;
+
+    if (content.startsWith('<!--', pos)) {
+      skipPast('-->', 'comment');
+    } else if (content.startsWith('<![CDATA[', pos)) {
+      skipPast(']]>', 'CDATA section');
+    } else if (content.startsWith('<?', pos)) {
+      skipPast('?>', 'processing instruction');
+    } else if (content.startsWith('<!', pos)) {
+      DOCTYPE.lastIndex = pos;
+      const match = DOCTYPE.exec(content);
+      if (!match) {
+        throw fail(pos, 'Malformed declaration');
+      }
+      pos += match[0].length;
+    } else if (content.startsWith('</', pos)) {
+      END_TAG.lastIndex = pos;
+      const match = END_TAG.exec(content);
+      if (!match) {
+        throw fail(pos, 'Malformed end tag');
+      }
+      const element = stack.pop() as XmlElement;
+      if (element === document || element.name !== match[1]) {
+        throw fail(pos, `Unexpected </${match[1]}>`);
+      }
+      element.innerEnd = pos;
+      pos += match[0].length;
+      element.end = pos;
+    } else {
+      START_TAG.lastIndex = pos;
+      const match = START_TAG.exec(content);
+      if (!match) {
+        throw fail(pos, 'Malformed start tag');
+      }
+      const attributes: { [name: string]: string } = {};
+      let attribute: RegExpExecArray | null;
+      ATTRIBUTE.lastIndex = 0;
+      while ((attribute = ATTRIBUTE.exec(match[2])) !== null) {
+        attributes[attribute[1]] = decodeXml(
+          attribute[2] !== undefined ? attribute[2] : attribute[3]
+        );
+      }
+      const end = pos + match[0].length;
+      const element: XmlElement = {
+        name: match[1],
+        attributes,
+        start: pos,
+        end,
+        innerStart: end,
+        innerEnd: end,
+        children: [],
+      };
+      stack[stack.length - 1].children.push(element);
+      if (!match[3]) {
+        stack.push(element);
+      }
+      pos = end;
+    }
+  }
+
+  if (stack.length > 1) {
+    const open = stack[stack.length - 1];
+    throw fail(open.start, `Unclosed <${open.name}>`);
+  }
+  if (document.children.length !== 1) {
+    throw fail(0, 'Document must have exactly one root element');
+  }
+  return document.children[0];
+}
+
+/**
+ * Decode entities and CDATA sections in element content.
+ */
+export function decodeXml(text: string): string {
+  return text.replace(
+    /<!\[CDATA\[([\s\S]*?)\]\]>|&(#x[0-9a-fA-F]+|#\d+|\w+);/g,
+    (match, cdata: string | undefined, entity: string | undefined) => {
+      if (cdata !== undefined) {
+        return cdata;
+      }
+      const name = entity as string;
+      if (name[0] === '#') {
+        const code = name[1] === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+        return String.fromCodePoint(code);
+      }
+      return ENTITIES[name] !== undefined ? ENTITIES[name] : match;
+    }
+  );
+}
+
+/**
+ * Escape text for element content.
+ */
+export function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Raw content between an element's tags.
+ */
+export function innerXml(content: string, element: XmlElement): string {
+  return content.slice(element.innerStart, element.innerEnd);
+}
+
+export function childrenNamed(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter((child) => child.name === name);
+}
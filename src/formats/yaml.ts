@@ -0,0 +1,377 @@
+/**
+ * YAML locale files (Rails/i18next style).
+ *
+ * Supports the subset locale files use: block mappings and sequences, plain,
+ * single- and double-quoted scalars, and literal (`|`) or folded (`>`) block
+ * scalars. Flow collections, anchors, aliases and tags are kept but not
+ * extracted; multi-line plain or quoted scalars are rejected.
+ */
+
+import { formatKey } from '../locale';
+import { FormatHandler, ParsedLocaleFile, TranslationUnit } from './types';
+import { SourceLine, decodeEscape, formatError, lineBreakOf, splitLines } from './util';
+
+interface Container {
+  path: Array<string | number>;
+  /** Indentation of the line that opened the container */
+  parentIndent: number;
+  /** Indentation of the container's entries, once known */
+  indent?: number;
+  kind?: 'map' | 'seq';
+  /** Opened by a mapping key, so a sequence may sit at the key's indentation */
+  compact: boolean;
+  index: number;
+}
+
+const NON_STRING =
+  /^(?:~|null|Null|NULL|true|True|TRUE|false|False|FALSE|yes|Yes|YES|no|No|NO|on|On|ON|off|Off|OFF|[-+]?(?:\d[\d_]*)?\.?\d+(?:[eE][-+]?\d+)?|0x[0-9a-fA-F]+|0o[0-7]+|[-+]?\.(?:inf|Inf|INF)|\.(?:nan|NaN|NAN))$/;
+const DOUBLE_QUOTED = /"(?:[^"\\]|\\.)*"/y;
+const SINGLE_QUOTED = /'(?:[^']|'')*'/y;
+const PLAIN_KEY = /([^\s#'"-][^#]*?|-[^\s#][^#]*?)\s*:(?=\s|$)/y;
+const BLOCK_HEADER = /^([|>])([+-]?)(\d?)([+-]?)\s*(?:#.*)?$/;
+
+function decodeDoubleQuoted(raw: string): string {
+  return raw
+    .slice(1, -1)
+    .replace(/\\(x[0-9a-fA-F]{2}|u[0-9a-fA-F]{4}|U[0-9a-fA-F]{8}|.)/g, (_, escape: string) =>
+      escape === 'e' ? '\x1b' : escape === '_' ? '\u00a0' : decodeEscape(escape)
+    );
+}
+
+function decodeSingleQuoted(raw: string): string {
+  return raw.slice(1, -1).replace(/''/g, "'");
+}
+
+/** Check whether a mapping key starts at `col`. */
+function isKeyAt(text: string, col: number): boolean {
+  const char = text[col];
+  if (char === '"' || char === "'") {
+    const pattern = char === '"' ? DOUBLE_QUOTED : SINGLE_QUOTED;
+    pattern.lastIndex = col;
+    const match = pattern.exec(text);
+    return match !== null && /^\s*:(?=\s|$)/.test(text.slice(col + match[0].length));
+  }
+  if ('[{|>&*!'.includes(char)) {
+    return false;
+  }
+  PLAIN_KEY.lastIndex = col;
+  return PLAIN_KEY.test(text);
+}
+
+function indentOf(text: string): number {
+  return text.length - text.replace(/^ +/, '').length;
+}
+
+function foldLines(lines: string[]): string {
+  let result = '';
+  let breaks = 0;
+  let first = true;
+  for (const line of lines) {
+    if (line === '') {
+      breaks++;
+      continue;
+    }
+    if (first) {
+      result += '\n'.repeat(breaks);
+    } else {
+      result += breaks > 0 ? '\n'.repeat(breaks) : ' ';
+    }
+    result += line;
+    breaks = 0;
+    first = false;
+  }
+  return result;
+}
+
+function parseYaml(content: string): TranslationUnit[] {
+  const lines = splitLines(content);
+  const units: TranslationUnit[] = [];
+  const seen = new Set<string>();
+  const stack: Container[] = [{ path: [], parentIndent: -1, compact: false, index: 0 }];
+
+  const fail = (offset: number, message: string) => formatError('yaml', content, offset, message);
+
+  const addUnit = (path: Array<string | number>, source: string, start: number, end: number) => {
+    units.push({ key: formatKey(path), source, start, end, raw: content.slice(start, end) });
+  };
+
+  /** Find the container a line at this indentation belongs to. */
+  const containerFor = (line: SourceLine, indent: number, isItem: boolean): Container => {
+    for (;;) {
+      const top = stack[stack.length - 1];
+      if (top.indent === undefined) {
+        if (indent > top.parentIndent || (indent === top.parentIndent && isItem && top.compact)) {
+          top.indent = indent;
+          return top;
+        }
+        // Key without a value
+        stack.pop();
+        continue;
+      }
+      if (indent === top.indent) {
+        if (top.kind === 'seq' && !isItem && top.compact && stack.length > 1) {
+          stack.pop();
+          continue;
+        }
+        return top;
+      }
+      if (indent < top.indent && stack.length > 1) {
+        stack.pop();
+        continue;
+      }
+      throw fail(line.start + indent, 'Bad indentation');
+    }
+  };
+
+  /** Read a block scalar starting at `col`; returns the index of its last line. */
+  const readBlockScalar = (
+    path: Array<string | number>,
+    n: number,
+    col: number,
+    parentIndent: number
+  ): number => {
+    const line = lines[n];
+    const header = BLOCK_HEADER.exec(line.text.slice(col));
+    if (!header) {
+      throw fail(line.start + col, 'Invalid block scalar header');
+    }
+    const explicit = header[3] ? parentIndent + parseInt(header[3], 10) : undefined;
+    const chomp = header[2] || header[4];
+
+    let blockIndent = explicit;
+    let last = n;
+    const body: SourceLine[] = [];
+    for (let k = n + 1; k < lines.length; k++) {
+      const text = lines[k].text;
+      if (text.trim() === '') {
+        body.push(lines[k]);
+        continue;
+      }
+      const indent = indentOf(text);
+      if (blockIndent === undefined) {
+        blockIndent = indent;
+      }
+      if (indent < blockIndent || indent <= parentIndent) {
+        break;
+      }
+      body.push(lines[k]);
+      last = k;
+    }
+    const contentLines = body
+      .slice(0, last - n)
+      .map((l) => (l.text.trim() === '' ? '' : l.text.slice(blockIndent)));
+    const trailing = body.length - contentLines.length;
+
+    let value = header[1] === '|' ? contentLines.join('\n') : foldLines(contentLines);
+    if (chomp === '+') {
+      value += '\n'.repeat(trailing + 1);
+    } else if (chomp !== '-' && value !== '') {
+      value += '\n';
+    }
+    addUnit(path, value, line.start + col, lines[last].end);
+    return last;
+  };
+
+  /** Parse the entry at `col` of line `n` into `container`; returns the last line consumed. */
+  const readEntry = (n: number, col: number, container: Container): number => {
+    const line = lines[n];
+    const text = line.text;
+    const rest = text.slice(col);
+
+    if (rest === '-' || rest.startsWith('- ')) {
+      if (container.kind === 'map') {
+        throw fail(line.start + col, 'Cannot mix sequence items and mapping entries');
+      }
+      container.kind = 'seq';
+      const path = [...container.path, container.index++];
+      const itemCol = col + 1 + indentOf(text.slice(col + 1));
+      if (itemCol >= text.length || text[itemCol] === '#') {
+        stack.push({ path, parentIndent: col, compact: false, index: 0 });
+        return n;
+      }
+      if (isKeyAt(text, itemCol)) {
+        const item: Container = {
+          path,
+          parentIndent: col,
+          indent: itemCol,
+          compact: false,
+          index: 0,
+        };
+        stack.push(item);
+        return readEntry(n, itemCol, item);
+      }
+      return readValue(path, n, itemCol, col);
+    }
+
+    if (container.kind === 'seq') {
+      throw fail(line.start + col, 'Cannot mix sequence items and mapping entries');
+    }
+    container.kind = 'map';
+
+    let key: string;
+    let after: number;
+    if (rest[0] === '"' || rest[0] === "'") {
+      const pattern = rest[0] === '"' ? DOUBLE_QUOTED : SINGLE_QUOTED;
+      pattern.lastIndex = col;
+      const match = pattern.exec(text);
+      const colon = match ? /^\s*:(?=\s|$)/.exec(text.slice(col + match[0].length)) : null;
+      if (!match || !colon) {
+        throw fail(line.start + col, 'Expected "key: value"');
+      }
+      key = rest[0] === '"' ? decodeDoubleQuoted(match[0]) : decodeSingleQuoted(match[0]);
+      after = col + match[0].length + colon[0].length;
+    } else {
+      PLAIN_KEY.lastIndex = col;
+      const match = PLAIN_KEY.exec(text);
+      if (!match) {
+        throw fail(line.start + col, 'Expected "key: value"');
+      }
+      key = match[1];
+      after = col + match[0].length;
+    }
+
+    const path = [...container.path, key];
+    const formatted = formatKey(path);
+    if (seen.has(formatted)) {
+      throw fail(line.start + col, `Duplicate key: ${formatted}`);
+    }
+    seen.add(formatted);
+
+    const valueCol = after + indentOf(text.slice(after));
+    if (valueCol >= text.length || text[valueCol] === '#') {
+      stack.push({ path, parentIndent: col, compact: true, index: 0 });
+      return n;
+    }
+    return readValue(path, n, valueCol, col);
+  };
+
+  /** Read a scalar value at `col`; returns the last line consumed. */
+  const readValue = (
+    path: Array<string | number>,
+    n: number,
+    col: number,
+    parentIndent: number
+  ): number => {
+    const line = lines[n];
+    const text = line.text;
+    const char = text[col];
+
+    if (char === '|' || char === '>') {
+      return readBlockScalar(path, n, col, parentIndent);
+    }
+    if ('[{&*!'.includes(char)) {
+      // Flow collections, anchors, aliases and tags are left as they are
+      return n;
+    }
+    if (char === '"' || char === "'") {
+      const pattern = char === '"' ? DOUBLE_QUOTED : SINGLE_QUOTED;
+      pattern.lastIndex = col;
+      const match = pattern.exec(text);
+      if (!match) {
+        throw fail(line.start + col, 'Unterminated or multi-line quoted string');
+      }
+      const end = col + match[0].length;
+      if (!/^\s*(#.*)?$/.test(text.slice(end))) {
+        throw fail(line.start + end, 'Unexpected content after quoted string');
+      }
+      const source = char === '"' ? decodeDoubleQuoted(match[0]) : decodeSingleQuoted(match[0]);
+      addUnit(path, source, line.start + col, line.start + end);
+      return n;
+    }
+
+    const comment = text.slice(col).search(/\s#/);
+    const value = (comment === -1 ? text.slice(col) : text.slice(col, col + comment)).trimEnd();
+    if (!NON_STRING.test(value)) {
+      addUnit(path, value, line.start + col, line.start + col + value.length);
+    }
+    return n;
+  };
+
+  for (let n = 0; n < lines.length; n++) {
+    const text = n === 0 ? lines[0].text.replace(/^\uFEFF/, '') : lines[n].text;
+    const trimmed = text.trim();
+    if (trimmed === '' || trimmed[0] === '#' || trimmed[0] === '%') {
+      continue;
+    }
+    if (trimmed === '---' || trimmed === '...') {
+      continue;
+    }
+    const indent = indentOf(text);
+    if (text[indent] === '\t') {
+      throw fail(lines[n].start + indent, 'Tabs are not allowed for indentation');
+    }
+    const isItem = trimmed === '-' || trimmed.startsWith('- ');
+    const offset = text === lines[n].text ? 0 : 1;
+    n = readEntry(n, indent + offset, containerFor(lines[n], indent, isItem));
+  }
+  return units;
+}
+
+function canBePlain(value: string): boolean {
+  return (
+    value !== '' &&
+    value === value.trim() &&
+    !/[\n\r\t]/.test(value) &&
+    !/^[-?:,[\]{}#&*!|>'"%@`]/.test(value) &&
+    !/(?:: |:$| #)/.test(value) &&
+    !NON_STRING.test(value)
+  );
+}
+
+function doubleQuote(value: string): string {
+  const escaped = value.replace(/[\\"]|[^\x20-\uFFFF]/g, (char) => {
+    switch (char) {
+      case '\\':
+        return '\\\\';
+      case '"':
+        return '\\"';
+      case '\n':
+        return '\\n';
+      case '\t':
+        return '\\t';
+      case '\r':
+        return '\\r';
+      default:
+        return `\\x${char.charCodeAt(0).toString(16).padStart(2, '0')}`;
+    }
+  });
+  return `"${escaped}"`;
+}
+
+function encodeBlock(value: string, unit: TranslationUnit, file: ParsedLocaleFile): string {
+  const lineBreak = lineBreakOf(file.content);
+  const [header, ...rest] = unit.raw.split(/\r?\n/);
+  const sample = rest.find((l) => l.trim() !== '');
+  const indent = ' '.repeat(sample !== undefined ? indentOf(sample) : 2);
+  const segments = value.replace(/\n+$/, '').split('\n');
+
+  let lines = segments;
+  if (header[0] === '>') {
+    lines = [segments[0]];
+    segments.slice(1).forEach((segment) => {
+      lines.push('');
+      if (segment !== '') {
+        lines.push(segment);
+      }
+    });
+  }
+  return [header, ...lines.map((l) => (l === '' ? '' : indent + l))].join(lineBreak);
+}
+
+export const yaml: FormatHandler = {
+  extensions: ['.yml', '.yaml'],
+  parse: parseYaml,
+  encode: (value, unit, file) => {
+    const style = unit.raw[0];
+    if (style === '|' || style === '>') {
+      return encodeBlock(value, unit, file);
+    }
+    if (style === '"' || /[\n\r\t]/.test(value)) {
+      return doubleQuote(value);
+    }
+    if (style === "'" || !canBePlain(value)) {
+      return `'${value.replace(/'/g, "''")}'`;
+    }
+    return value;
+  },
+};
@@ -0,0 +1,142 @@
+/**
+ * Glossary term protection: keep do-not-translate terms and force term
+ * translations by masking them before a request and restoring them after.
+ */
+
+export interface Glossary {
+  /** Terms kept exactly as written, e.g. brand names, SKUs and code identifiers */
+  doNotTranslate?: string[];
+  /**
+   * Forced translations, keyed by source term. A string applies to every target
+   * language; an object maps target language codes to translations.
+   */
+  terms?: { [term: string]: string | { [language: string]: string } };
+  /** Match terms regardless of case (default: false) */
+  ignoreCase?: boolean;
+}
+
+export interface GlossaryWarning {
+  /** Term as it appeared in the source text */
+  term: string;
+  /** Text that should have appeared in the translation */
+  expected: string;
+  /** 0-based cue index, for subtitles */
+  cue?: number;
+}
+
+export interface MaskedTerms {
+  /** Text with every matched term replaced by a numbered marker */
+  text: string;
+  /** Matched terms and their replacements, indexed by marker number */
+  terms: Array<{ term: string; replacement: string }>;
+}
+
+const MARKER_PATTERN = /_{2}\s*TPG\s*(\d+)\s*_{2}/g;
+
+function marker(index: number): string {
+  return `__TPG${index}__`;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Build a matcher for the terms that apply to `target`, longest terms first so
+ * 'Acme Cloud' wins over 'Acme'. Returns undefined when nothing applies.
+ */
+function compile(
+  glossary: Glossary,
+  target: string
+): { pattern: RegExp; replacement: (term: string) => string } | undefined {
+  const fold = (term: string) => (glossary.ignoreCase ? term.toLowerCase() : term);
+  const replacements = new Map<string, string | undefined>();
+  for (const term of glossary.doNotTranslate || []) {
+    replacements.set(fold(term), undefined);
+  }
+  for (const [term, value] of Object.entries(glossary.terms || {})) {
+    const replacement = typeof value === 'string' ? value : value[target];
+    if (replacement !== undefined) {
+      replacements.set(fold(term), replacement);
+    }
+  }
+
+  const terms = Array.from(replacements.keys())
+    .filter((term) => term.trim() !== '')
+    .sort((a, b) => b.length - a.length);
+  if (terms.length === 0) {
+    return undefined;
+  }
+  // Terms only match as whole words, and never inside a placeholder marker
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}_])(?:${terms.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}_])`,
+    glossary.ignoreCase ? 'giu' : 'gu'
+  );
+  return {
+    pattern,
+    replacement: (term) => {
+      const value = replacements.get(fold(term));
+      return value === undefined ? term : value;
+    },
+  };
+}
+
+/**
+ * Replace glossary terms with markers the translation engine leaves alone.
+ * With `html`, only text outside tags is matched.
+ *
+ * @example
+ * ```typescript
+ * maskTerms('Open Acme Cloud settings', { doNotTranslate: ['Acme Cloud'] }, 'fr');
+ * // { text: 'Open __TPG0__ settings', terms: [{ term: 'Acme Cloud', replacement: 'Acme Cloud' }] }
+ * ```
+ */
+export function maskTerms(
+  text: string,
+  glossary: Glossary,
+  target: string,
+  options: { html?: boolean } = {}
+): MaskedTerms {
+  const matcher = compile(glossary, target);
+  const terms: MaskedTerms['terms'] = [];
+  if (!matcher) {
+    return { text, terms };
+  }
+
+  const mask = (segment: string) =>
+    segment.replace(matcher.pattern, (term) => {
+      terms.push({ term, replacement: matcher.replacement(term) });
+      return marker(terms.length - 1);
+    });
+  const masked = options.html
+    ? text
+        .split(/(<[^>]*>)/)
+        .map((segment, i) => (i % 2 === 1 ? segment : mask(segment)))
+        .join('')
+    : mask(text);
+  return { text: masked, terms };
+}
+
+/**
+ * Put glossary terms back in place of their markers.
+ *
+ * @returns The restored text and a warning for every marker the engine lost
+ */
+export function restoreTerms(
+  text: string,
+  masked: MaskedTerms
+): { text: string; warnings: GlossaryWarning[] } {
+  const seen = new Set<number>();
+  const restored = text.replace(MARKER_PATTERN, (match, index) => {
+    const i = Number(index);
+    if (i >= masked.terms.length) {
+      return match;
+    }
+    seen.add(i);
+    return masked.terms[i].replacement;
+  });
+  const warnings = masked.terms
+    .filter((_, i) => !seen.has(i))
+    .map(({ term, replacement }) => ({ term, expected: replacement }));
+  return { text: restored, warnings };
+}
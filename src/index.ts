@@ -5,34 +5,9 @@
  * for text, HTML, emails, subtitles, and i18n files in 100+ languages.
  */
 
-export { TranslatePlusClient } from './client';
-export {
-  TranslatePlusError,
-  TranslatePlusAPIError,
-  TranslatePlusAuthenticationError,
-  TranslatePlusRateLimitError,
-  TranslatePlusInsufficientCreditsError,
-  TranslatePlusValidationError,
-} from './exceptions';
-
-export type {
-  TranslateOptions,
-  BatchTranslateOptions,
-  TranslateHTMLOptions,
-  TranslateEmailOptions,
-  TranslateSubtitleOptions,
-  I18nJobOptions,
-  TranslateResponse,
-  BatchTranslateResponse,
-  TranslateHTMLResponse,
-  TranslateEmailResponse,
-  TranslateSubtitleResponse,
-  DetectLanguageResponse,
-  SupportedLanguagesResponse,
-  AccountSummaryResponse,
-  I18nJobResponse,
-  I18nJobStatusResponse,
-  I18nJobListResponse,
-} from './types';
-
-export { __version__ } from './version';
+export { TranslatePlusClient, nodeTransport } from './client';
+export type { ClientOptions } from './client';
+export { I18nWebhookReceiver } from './webhook';
+export type { I18nWebhookEvent, I18nWebhookReceiverOptions } from './webhook';
+export { TranslateTransform } from './transform';
+export * from './common';
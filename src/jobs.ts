@@ -0,0 +1,75 @@
+/**
+ * Waiting for i18n jobs and collecting their translated files.
+ */
+
+import { TranslatePlusJobFailedError, TranslatePlusJobTimeoutError } from './exceptions';
+import { sleep } from './retry';
+import type { I18nJobStatusResponse, WaitForI18nJobOptions } from './types';
+
+/**
+ * Poll a job until it completes or fails.
+ *
+ * The polling interval starts at `interval` and grows with backoff up to `maxInterval`.
+ *
+ * @param jobId - Job ID
+ * @param options - Polling and progress options
+ * @param getStatus - Fetches the job's current status
+ * @returns Final job status
+ * @throws TranslatePlusJobFailedError if the job fails
+ * @throws TranslatePlusJobTimeoutError if the job is still running after `timeout`
+ */
+export async function pollI18nJob(
+  jobId: string,
+  options: WaitForI18nJobOptions,
+  getStatus: (jobId: string) => Promise<I18nJobStatusResponse>
+): Promise<I18nJobStatusResponse> {
+  const maxInterval = options.maxInterval || 10000;
+  const deadline = options.timeout !== undefined ? Date.now() + options.timeout : undefined;
+  let interval = options.interval || 1000;
+  let lastProgress: string | undefined;
+
+  for (;;) {
+    const status = await getStatus(jobId);
+
+    const progress = `${status.status}:${status.progress}`;
+    if (options.onProgress && progress !== lastProgress) {
+      options.onProgress(status);
+    }
+    lastProgress = progress;
+
+    if (status.status === 'completed') {
+      return status;
+    }
+    if (status.status === 'failed') {
+      throw new TranslatePlusJobFailedError(status.error || `i18n job ${jobId} failed`, status);
+    }
+    if (deadline !== undefined && Date.now() >= deadline) {
+      throw new TranslatePlusJobTimeoutError(
+        `i18n job ${jobId} did not finish within ${options.timeout}ms`,
+        status
+      );
+    }
+
+    const delay = deadline !== undefined ? Math.min(interval, deadline - Date.now()) : interval;
+    await sleep(Math.max(0, delay), options.signal);
+    interval = Math.min(maxInterval, interval * 1.5);
+  }
+}
+
+/**
+ * Download every target language of a completed job, named with `fileName`.
+ *
+ * @param job - Completed job
+ * @param options - Wait options, for `fileName`
+ * @param download - Downloads one language; its concurrency limit applies
+ * @returns Files in the order of the job's target languages
+ */
+export async function downloadI18nJobFiles(
+  job: I18nJobStatusResponse,
+  options: WaitForI18nJobOptions,
+  download: (language: string) => Promise<Uint8Array>
+): Promise<Array<{ name: string; data: Uint8Array }>> {
+  const fileName = options.fileName || ((language: string) => `${language}.json`);
+  const files = await Promise.all(job.target_languages.map((language) => download(language)));
+  return job.target_languages.map((language, i) => ({ name: fileName(language), data: files[i] }));
+}
@@ -0,0 +1,364 @@
+/**
+ * Helpers for nested JSON locale objects, and translation of locale objects and
+ * file units through batch requests.
+ */
+
+import {
+  TranslatePlusCancelledError,
+  TranslatePlusFormatError,
+  TranslatePlusValidationError,
+} from './exceptions';
+import type { TranslationUnit } from './formats/types';
+import { maskPlaceholders, unmaskPlaceholders, hasTranslatableText } from './placeholders';
+import {
+  BatchTranslateOptions,
+  BatchTranslateResponse,
+  LocaleData,
+  LocaleSnapshot,
+  LocaleSyncReport,
+  LocaleValue,
+  RequestOptions,
+  SyncLocaleOptions,
+  SyncLocaleResponse,
+  TranslateHTMLOptions,
+  TranslateHTMLResponse,
+  TranslateLocaleOptions,
+  TranslateLocaleResponse,
+} from './types';
+
+/** Client methods locale translation is sent through */
+export interface LocaleTranslator {
+  translateBatchChunked(
+    options: BatchTranslateOptions,
+    requestOptions?: RequestOptions
+  ): Promise<BatchTranslateResponse>;
+  translateHTML(
+    options: TranslateHTMLOptions,
+    requestOptions?: RequestOptions
+  ): Promise<TranslateHTMLResponse>;
+}
+
+export interface LocaleEntry {
+  /** Path to the value; numbers are array indexes */
+  path: Array<string | number>;
+  /** Dotted key for reporting, e.g. 'home.items[0].title' */
+  key: string;
+  value: string;
+}
+
+/**
+ * Format a path as a key, e.g. ['home', 'items', 0, 'title'] → 'home.items[0].title'.
+ */
+export function formatKey(path: Array<string | number>): string {
+  return path
+    .map((part, i) => (typeof part === 'number' ? `[${part}]` : i === 0 ? part : `.${part}`))
+    .join('');
+}
+
+/**
+ * List every string leaf of a locale object in document order.
+ * Numbers, booleans and null are not translatable and are skipped.
+ *
+ * @throws TranslatePlusFormatError if two leaves share a key, e.g. a flat
+ *   `"a.b"` next to a nested `a: { b }`
+ */
+export function flattenLocale(data: LocaleData): LocaleEntry[] {
+  const entries: LocaleEntry[] = [];
+  const keys = new Set<string>();
+  const walk = (value: LocaleValue, path: Array<string | number>) => {
+    if (typeof value === 'string') {
+      const key = formatKey(path);
+      if (keys.has(key)) {
+        throw new TranslatePlusFormatError(`Duplicate key: ${key}`, 'json');
+      }
+      keys.add(key);
+      entries.push({ path, key, value });
+    } else if (Array.isArray(value)) {
+      value.forEach((item, i) => walk(item, [...path, i]));
+    } else if (value !== null && typeof value === 'object') {
+      Object.keys(value).forEach((key) => walk(value[key], [...path, key]));
+    }
+  };
+  walk(data, []);
+  return entries;
+}
+
+/**
+ * Deep-copy a locale object, replacing string leaves with values from the map.
+ * Leaves missing from the map keep their original value.
+ *
+ * @param data - Source locale object
+ * @param values - Replacement strings keyed by LocaleEntry.key
+ * @param omit - Keys to leave out of their object; array items keep their place and value
+ */
+export function rebuildLocale(
+  data: LocaleData,
+  values: Map<string, string>,
+  omit: Set<string> = new Set()
+): LocaleData {
+  const walk = (value: LocaleValue, path: Array<string | number>): LocaleValue => {
+    if (typeof value === 'string') {
+      const replacement = values.get(formatKey(path));
+      return replacement !== undefined ? replacement : value;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item, i) => walk(item, [...path, i]));
+    }
+    if (value !== null && typeof value === 'object') {
+      const result: LocaleData = {};
+      Object.keys(value).forEach((key) => {
+        if (typeof value[key] !== 'string' || !omit.has(formatKey([...path, key]))) {
+          result[key] = walk(value[key], [...path, key]);
+        }
+      });
+      return result;
+    }
+    return value;
+  };
+  return walk(data, []) as LocaleData;
+}
+
+/**
+ * Translate locale strings into one language, each distinct string once, with
+ * placeholders masked. Strings made only of placeholders are left out of both maps.
+ */
+async function translateLocaleStrings(
+  translator: LocaleTranslator,
+  strings: string[],
+  source: string | undefined,
+  target: string,
+  requestOptions?: RequestOptions
+): Promise<{ translated: Map<string, string>; errors: Map<string, string> }> {
+  const translated = new Map<string, string>();
+  const errors = new Map<string, string>();
+  const texts = Array.from(new Set(strings))
+    .map((text) => ({ text, masked: maskPlaceholders(text) }))
+    .filter(({ masked }) => hasTranslatableText(masked));
+  if (texts.length === 0) {
+    return { translated, errors };
+  }
+
+  const result = await translator.translateBatchChunked(
+    { texts: texts.map(({ masked }) => masked.text), source, target },
+    requestOptions
+  );
+  result.translations.forEach((item, i) => {
+    const { text, masked } = texts[i];
+    if (!item.success) {
+      errors.set(text, item.error || 'Translation failed');
+      return;
+    }
+    const restored = unmaskPlaceholders(item.translation, masked.tokens);
+    if (restored.missing.length > 0) {
+      const lost = restored.missing.map((j) => masked.tokens[j]).join(', ');
+      errors.set(text, `Placeholders lost in translation: ${lost}`);
+      return;
+    }
+    translated.set(text, restored.text);
+  });
+  return { translated, errors };
+}
+
+/**
+ * Translate the string leaves of a locale object into each target language.
+ */
+export async function translateLocaleData(
+  translator: LocaleTranslator,
+  options: TranslateLocaleOptions,
+  requestOptions?: RequestOptions
+): Promise<TranslateLocaleResponse> {
+  if (!options.target_languages || options.target_languages.length === 0) {
+    throw new TranslatePlusValidationError('At least one target language is required');
+  }
+
+  const entries = flattenLocale(options.data);
+  const texts = entries.map((entry) => entry.value);
+
+  const response: TranslateLocaleResponse = { translations: {}, failed: {} };
+  await Promise.all(
+    options.target_languages.map(async (target) => {
+      const { translated, errors } = await translateLocaleStrings(
+        translator,
+        texts,
+        options.source_language,
+        target,
+        requestOptions
+      );
+
+      const values = new Map<string, string>();
+      const failed: Array<{ key: string; error: string }> = [];
+      entries.forEach((entry) => {
+        const error = errors.get(entry.value);
+        if (error) {
+          failed.push({ key: entry.key, error });
+        } else if (translated.has(entry.value)) {
+          values.set(entry.key, translated.get(entry.value) as string);
+        }
+      });
+
+      response.translations[target] = rebuildLocale(options.data, values);
+      response.failed[target] = failed;
+    })
+  );
+  return response;
+}
+
+/**
+ * Bring target locale objects up to date with the source, translating only
+ * new, changed, missing and previously failed keys.
+ */
+export async function syncLocaleData(
+  translator: LocaleTranslator,
+  options: SyncLocaleOptions,
+  requestOptions?: RequestOptions
+): Promise<SyncLocaleResponse> {
+  const languages = options.target_languages || Object.keys(options.targets);
+  if (languages.length === 0) {
+    throw new TranslatePlusValidationError('At least one target language is required');
+  }
+
+  const previous = options.snapshot ? options.snapshot.source : {};
+  const previousPending = (options.snapshot && options.snapshot.pending) || {};
+  const entries = flattenLocale(options.source);
+  const sourceKeys = new Set(entries.map((entry) => entry.key));
+  const snapshot: LocaleSnapshot = { source: {} };
+  entries.forEach((entry) => {
+    snapshot.source[entry.key] = entry.value;
+  });
+
+  const response: SyncLocaleResponse = { translations: {}, snapshot, report: {} };
+  await Promise.all(
+    languages.map(async (target) => {
+      const existing = new Map<string, string>();
+      flattenLocale(options.targets[target] || {}).forEach((entry) => {
+        existing.set(entry.key, entry.value);
+      });
+      const retry = new Set(previousPending[target] || []);
+
+      const report: LocaleSyncReport = { added: [], changed: [], removed: [], failed: [] };
+      const pending = entries.filter((entry) => {
+        if (!existing.has(entry.key) || (options.snapshot && !(entry.key in previous))) {
+          report.added.push(entry.key);
+          return true;
+        }
+        // Without a snapshot, existing translations are adopted as up to date
+        if ((options.snapshot && previous[entry.key] !== entry.value) || retry.has(entry.key)) {
+          report.changed.push(entry.key);
+          return true;
+        }
+        return false;
+      });
+      existing.forEach((_, key) => {
+        if (!sourceKeys.has(key)) {
+          report.removed.push(key);
+        }
+      });
+
+      const { translated, errors } = await translateLocaleStrings(
+        translator,
+        pending.map((entry) => entry.value),
+        options.source_language,
+        target,
+        requestOptions
+      );
+
+      const values = new Map(existing);
+      const omit = new Set<string>();
+      pending.forEach((entry) => {
+        const error = errors.get(entry.value);
+        if (error) {
+          report.failed.push({ key: entry.key, error });
+          // Keep the previous translation; a key the target never had stays out of it
+          if (!existing.has(entry.key)) {
+            omit.add(entry.key);
+          }
+        } else if (translated.has(entry.value)) {
+          values.set(entry.key, translated.get(entry.value) as string);
+        } else {
+          // Nothing to translate (e.g. only placeholders): use the source text
+          values.set(entry.key, entry.value);
+        }
+      });
+
+      response.translations[target] = rebuildLocale(options.source, values, omit);
+      response.report[target] = report;
+    })
+  );
+
+  // Failed keys are retried by the next sync for their language only; languages
+  // not synced this time keep their pending keys
+  const nextPending: { [language: string]: string[] } = {};
+  Object.keys(previousPending).forEach((language) => {
+    if (!languages.includes(language)) {
+      nextPending[language] = previousPending[language].filter((key) => sourceKeys.has(key));
+    }
+  });
+  languages.forEach((language) => {
+    nextPending[language] = response.report[language].failed.map((item) => item.key);
+  });
+  Object.keys(nextPending).forEach((language) => {
+    if (nextPending[language].length === 0) {
+      delete nextPending[language];
+    }
+  });
+  if (Object.keys(nextPending).length > 0) {
+    snapshot.pending = nextPending;
+  }
+  return response;
+}
+
+/**
+ * Translate the units of a locale file into one language. Units with inline
+ * markup are translated as HTML.
+ *
+ * @returns Translations keyed by unit key, for serializeLocaleFile, and failed units
+ */
+export async function translateLocaleUnits(
+  translator: LocaleTranslator,
+  units: TranslationUnit[],
+  source: string | undefined,
+  target: string,
+  requestOptions?: RequestOptions
+): Promise<{ values: { [key: string]: string }; failed: Array<{ key: string; error: string }> }> {
+  const plain = units.filter((unit) => !unit.markup);
+  const markup = units.filter((unit) => unit.markup);
+
+  const { translated, errors } = await translateLocaleStrings(
+    translator,
+    plain.map((unit) => unit.source),
+    source,
+    target,
+    requestOptions
+  );
+
+  const values: { [key: string]: string } = {};
+  const failed: Array<{ key: string; error: string }> = [];
+  plain.forEach((unit) => {
+    const error = errors.get(unit.source);
+    if (error) {
+      failed.push({ key: unit.key, error });
+    } else {
+      values[unit.key] = translated.has(unit.source)
+        ? (translated.get(unit.source) as string)
+        : unit.source;
+    }
+  });
+
+  await Promise.all(
+    markup.map(async (unit) => {
+      try {
+        const result = await translator.translateHTML(
+          { html: unit.source, source, target },
+          requestOptions
+        );
+        values[unit.key] = result.html;
+      } catch (error) {
+        if (error instanceof TranslatePlusCancelledError) {
+          throw error;
+        }
+        failed.push({ key: unit.key, error: (error as Error).message });
+      }
+    })
+  );
+  return { values, failed };
+}
@@ -0,0 +1,94 @@
+/**
+ * Request/response middleware for TranslatePlus client.
+ */
+
+export interface MiddlewareRequest {
+  method: string;
+  /** Full request URL including query string; may be rewritten (e.g. for a proxy) */
+  url: string;
+  /** API endpoint as called by the client, e.g. '/v2/translate' */
+  endpoint: string;
+  headers: { [key: string]: string };
+  /** JSON string, multipart form data, or undefined */
+  body?: unknown;
+  /** Zero-based attempt number; retries run the middleware chain again */
+  attempt: number;
+}
+
+export interface MiddlewareResponse {
+  request: MiddlewareRequest;
+  status: number;
+  headers: { get(name: string): string | null };
+  /** Parsed JSON body, or a Buffer for file downloads */
+  data: unknown;
+  /** Time in ms from sending the request to reading the body */
+  duration: number;
+}
+
+/**
+ * Hooks run around every HTTP request the client makes, including file uploads
+ * and downloads. Hooks run in registration order and may be async.
+ *
+ * @example
+ * ```typescript
+ * client.use({
+ *   beforeRequest: (request) => {
+ *     request.headers['X-Trace-Id'] = traceId();
+ *   },
+ *   afterResponse: (response) => {
+ *     metrics.timing('translateplus.request', response.duration);
+ *   },
+ *   onError: (error, request) => {
+ *     logger.warn(`${request.method} ${request.endpoint} failed: ${error.message}`);
+ *   },
+ * });
+ * ```
+ */
+export interface Middleware {
+  /** Inspect or modify the request; return a new request to replace it */
+  beforeRequest?(
+    request: MiddlewareRequest
+  ): MiddlewareRequest | void | Promise<MiddlewareRequest | void>;
+  /** Inspect or modify the response, including error responses; return a new one to replace it */
+  afterResponse?(
+    response: MiddlewareResponse
+  ): MiddlewareResponse | void | Promise<MiddlewareResponse | void>;
+  /** Called when an attempt fails, before any retry */
+  onError?(error: Error, request: MiddlewareRequest): void | Promise<void>;
+}
+
+export async function runBeforeRequest(
+  middleware: Middleware[],
+  request: MiddlewareRequest
+): Promise<MiddlewareRequest> {
+  for (const m of middleware) {
+    if (m.beforeRequest) {
+      request = (await m.beforeRequest(request)) || request;
+    }
+  }
+  return request;
+}
+
+export async function runAfterResponse(
+  middleware: Middleware[],
+  response: MiddlewareResponse
+): Promise<MiddlewareResponse> {
+  for (const m of middleware) {
+    if (m.afterResponse) {
+      response = (await m.afterResponse(response)) || response;
+    }
+  }
+  return response;
+}
+
+export async function runOnError(
+  middleware: Middleware[],
+  error: Error,
+  request: MiddlewareRequest
+): Promise<void> {
+  for (const m of middleware) {
+    if (m.onError) {
+      await m.onError(error, request);
+    }
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * TranslatePlus client wired to an in-process fake server, for tests.
+ */
+
+import { ClientOptions, TranslatePlusClient } from './client';
+import { FakeTranslatePlusServer, MockServerOptions } from './mock-server';
+
+export interface MockClientOptions extends Partial<ClientOptions> {
+  /** Server to send requests to (default: a new FakeTranslatePlusServer) */
+  server?: FakeTranslatePlusServer;
+  /** Options for the default server */
+  serverOptions?: MockServerOptions;
+}
+
+/**
+ * TranslatePlusClient that talks to a FakeTranslatePlusServer instead of the network.
+ * Retries are off by default so scripted failures surface immediately.
+ *
+ * @example
+ * ```typescript
+ * const client = new MockTranslatePlusClient();
+ * client.server.fail({ endpoint: '/v2/translate/batch', status: 402 });
+ *
+ * await expect(translateCatalog(client)).rejects.toThrow(TranslatePlusInsufficientCreditsError);
+ * ```
+ */
+export class MockTranslatePlusClient extends TranslatePlusClient {
+  /** Fake server behind this client, for scripting failures and inspecting requests */
+  readonly server: FakeTranslatePlusServer;
+
+  constructor(options: MockClientOptions = {}) {
+    const { server: given, serverOptions, ...clientOptions } = options;
+    const server = given || new FakeTranslatePlusServer(serverOptions);
+    super({ apiKey: 'test-api-key', maxRetries: 0, ...clientOptions, fetch: server.fetch });
+    this.server = server;
+  }
+}
@@ -0,0 +1,562 @@
+/**
+ * In-process fake TranslatePlus API for tests.
+ *
+ * Implements every route the client uses with deterministic pseudo-translations,
+ * credit accounting and i18n job state transitions, so tests run offline without
+ * mocking modules. Failures (402, 429, 5xx, timeouts, network errors) can be
+ * scripted per route.
+ */
+
+import { estimateRequestCredits } from './credits';
+import {
+  LocaleFileFormat,
+  detectLocaleFormat,
+  parseLocaleFile,
+  serializeLocaleFile,
+} from './formats';
+import { SubtitleDocument, SubtitleFormat, formatSubtitles, parseSubtitles } from './subtitles';
+import {
+  FetchFunction,
+  RequestBody,
+  TransportRequest,
+  TransportResponse,
+  createResponse,
+  readRequestBody,
+} from './transport';
+import { I18nJobStatusResponse } from './types';
+
+export interface MockServerOptions {
+  /** Credits the fake account starts with (default: 1000000) */
+  credits?: number;
+  /** Reject requests without this API key with 401 (default: accept any key) */
+  apiKey?: string;
+  /** Concurrency limit reported by the account summary (default: 5) */
+  concurrencyLimit?: number;
+  /** Status checks a job spends in each of pending and processing (default: 1) */
+  jobSteps?: number;
+  /** Pseudo-translation applied to every text (default: '[fr] Hello') */
+  translate?: (text: string, target: string) => string;
+}
+
+export interface MockFailure {
+  /** Endpoint to fail, e.g. '/v2/translate' (default: every endpoint) */
+  endpoint?: string;
+  /** HTTP method to fail (default: every method) */
+  method?: string;
+  /** Status code to respond with (default: 500) */
+  status?: number;
+  /** Error detail in the response body */
+  detail?: string;
+  /** Retry-After header, in seconds */
+  retryAfter?: number;
+  /** Never respond, so the request times out */
+  timeout?: boolean;
+  /** Reject like fetch does when the connection fails */
+  networkError?: boolean;
+  /** Number of matching requests to fail (default: 1) */
+  times?: number;
+}
+
+/** A request received by the fake server */
+export interface MockRequest {
+  method: string;
+  endpoint: string;
+  query: { [key: string]: string };
+  headers: { [key: string]: string };
+  /** Parsed JSON body or multipart fields, or the body as sent if it can't be read */
+  body?: unknown;
+  file?: RequestBody['file'];
+}
+
+/** Request fields the fake endpoints read, once validateBody has checked them */
+interface MockRequestFields {
+  text: string;
+  texts: string[];
+  html: string;
+  subject: string;
+  email_body: string;
+  content: string;
+  format: SubtitleFormat;
+  source?: string;
+  target: string;
+  source_language?: string;
+  target_languages?: string;
+}
+
+interface MockResponse {
+  status: number;
+  body: unknown;
+  headers?: { [key: string]: string };
+}
+
+interface MockJob {
+  status: I18nJobStatusResponse;
+  checks: number;
+  content: string;
+  format?: LocaleFileFormat;
+}
+
+const LANGUAGES: { [code: string]: string } = {
+  ar: 'Arabic',
+  de: 'German',
+  en: 'English',
+  es: 'Spanish',
+  fr: 'French',
+  it: 'Italian',
+  ja: 'Japanese',
+  pt: 'Portuguese',
+  ru: 'Russian',
+  zh: 'Chinese',
+};
+
+/** JSON fields each endpoint requires; `texts` is a list of strings, the rest are strings */
+const REQUIRED_FIELDS: { [key: string]: string[] } = {
+  'POST /v2/translate': ['text', 'target'],
+  'POST /v2/translate/batch': ['texts', 'target'],
+  'POST /v2/translate/html': ['html', 'target'],
+  'POST /v2/translate/email': ['subject', 'email_body', 'target'],
+  'POST /v2/translate/subtitles': ['content', 'format', 'target'],
+  'POST /v2/language/detect': ['text'],
+};
+
+/**
+ * Check a JSON body has the fields its endpoint requires, answering like the
+ * real API with a 422 listing each bad field.
+ */
+function validateBody(key: string, body: unknown): MockResponse | undefined {
+  const fields = REQUIRED_FIELDS[key];
+  if (!fields) {
+    return undefined;
+  }
+  const values = (body || {}) as { [field: string]: unknown };
+  const detail: Array<{ loc: Array<string | number>; msg: string; type: string }> = [];
+  fields.forEach((field) => {
+    const value = values[field];
+    if (value === undefined || value === null) {
+      detail.push({ loc: ['body', field], msg: 'Field required', type: 'missing' });
+    } else if (field === 'texts') {
+      if (!Array.isArray(value)) {
+        detail.push({
+          loc: ['body', field],
+          msg: 'Input should be a valid list',
+          type: 'list_type',
+        });
+      } else {
+        value.forEach((item, i) => {
+          if (typeof item !== 'string') {
+            detail.push({
+              loc: ['body', field, i],
+              msg: 'Input should be a valid string',
+              type: 'string_type',
+            });
+          }
+        });
+      }
+    } else if (typeof value !== 'string') {
+      detail.push({
+        loc: ['body', field],
+        msg: 'Input should be a valid string',
+        type: 'string_type',
+      });
+    }
+  });
+  return detail.length > 0 ? { status: 422, body: { detail } } : undefined;
+}
+
+/** Scripts that identify a language, checked in order; anything else is English */
+const SCRIPTS: Array<[string, RegExp]> = [
+  ['ja', /[\u3040-\u30ff]/],
+  ['zh', /[\u4e00-\u9fff]/],
+  ['ru', /[\u0400-\u04ff]/],
+  ['ar', /[\u0600-\u06ff]/],
+];
+
+function pseudoTranslate(text: string, target: string): string {
+  return `[${target}] ${text}`;
+}
+
+function respond(response: MockResponse, requestId: string): TransportResponse {
+  const body =
+    response.body instanceof Uint8Array
+      ? response.body
+      : new TextEncoder().encode(JSON.stringify(response.body));
+  return createResponse(response.status, { 'X-Request-ID': requestId, ...response.headers }, body);
+}
+
+function abortError(): Error {
+  const error = new Error('The operation was aborted');
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * Fake TranslatePlus API server that runs in the same process as the client.
+ *
+ * Texts are translated to `[<target>] <text>`; HTML and subtitles keep their
+ * markup and timing, and i18n jobs move from pending through processing to
+ * completed as their status is polled.
+ *
+ * @example
+ * ```typescript
+ * const server = new FakeTranslatePlusServer({ credits: 1000 });
+ * const client = new TranslatePlusClient({ apiKey: 'test', fetch: server.fetch });
+ *
+ * server.fail({ endpoint: '/v2/translate', status: 429, retryAfter: 1 });
+ * const result = await client.translate({ text: 'Hello', target: 'fr' });
+ * // result.translations.translation === '[fr] Hello', after one retry
+ * expect(server.requests).toHaveLength(2);
+ * ```
+ */
+export class FakeTranslatePlusServer {
+  /** Every request received, in order, including failed ones */
+  readonly requests: MockRequest[] = [];
+  /** Fetch implementation to pass to the client's `fetch` option */
+  readonly fetch: FetchFunction;
+  private options: MockServerOptions;
+  private startingCredits: number;
+  private credits: number;
+  private failures: MockFailure[] = [];
+  private jobs = new Map<string, MockJob>();
+  private jobCount = 0;
+
+  constructor(options: MockServerOptions = {}) {
+    this.options = options;
+    this.startingCredits = options.credits !== undefined ? options.credits : 1000000;
+    this.credits = this.startingCredits;
+    this.fetch = (url, init) => this.receive(url, init);
+  }
+
+  /**
+   * Script a failure for matching requests.
+   *
+   * @returns The server, for chaining
+   */
+  fail(failure: MockFailure = {}): this {
+    this.failures.push({ ...failure, times: failure.times !== undefined ? failure.times : 1 });
+    return this;
+  }
+
+  /** Credits left on the fake account */
+  get creditsRemaining(): number {
+    return this.credits;
+  }
+
+  /**
+   * Set a job's state directly, e.g. to test failed jobs.
+   */
+  setJobStatus(jobId: string, status: I18nJobStatusResponse['status'], error?: string): void {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      throw new Error(`Unknown job ${jobId}`);
+    }
+    job.status = { ...job.status, status, error, updated_at: new Date().toISOString() };
+  }
+
+  /**
+   * Forget all requests, scripted failures and jobs, and restore the starting credits.
+   */
+  reset(): void {
+    this.requests.length = 0;
+    this.failures = [];
+    this.jobs.clear();
+    this.jobCount = 0;
+    this.credits = this.startingCredits;
+  }
+
+  private async receive(url: string, init: TransportRequest): Promise<TransportResponse> {
+    const parsed = new URL(url);
+    let content: RequestBody | undefined;
+    try {
+      content = await readRequestBody(init.body);
+    } catch {
+      // Answered below, after the request is recorded and any scripted failure has run
+    }
+    const request: MockRequest = {
+      method: (init.method || 'GET').toUpperCase(),
+      endpoint: parsed.pathname,
+      query: Object.fromEntries(parsed.searchParams),
+      headers: init.headers,
+      ...(content || { body: init.body }),
+    };
+    this.requests.push(request);
+    const requestId = `req-${this.requests.length}`;
+
+    const failure = this.failures.find(
+      (f) =>
+        (f.endpoint === undefined || f.endpoint === request.endpoint) &&
+        (f.method === undefined || f.method.toUpperCase() === request.method)
+    );
+    if (failure) {
+      failure.times = (failure.times as number) - 1;
+      if (failure.times <= 0) {
+        this.failures.splice(this.failures.indexOf(failure), 1);
+      }
+      if (failure.networkError) {
+        throw new TypeError('fetch failed');
+      }
+      if (failure.timeout) {
+        return new Promise((_, reject) => {
+          const signal = init.signal;
+          if (signal && signal.aborted) {
+            reject(abortError());
+          } else if (signal) {
+            signal.addEventListener('abort', () => reject(abortError()), { once: true });
+          }
+        });
+      }
+      const status = failure.status || 500;
+      return respond(
+        {
+          status,
+          body: { detail: failure.detail || `Simulated ${status} error` },
+          headers:
+            failure.retryAfter !== undefined ? { 'Retry-After': String(failure.retryAfter) } : {},
+        },
+        requestId
+      );
+    }
+
+    if (this.options.apiKey !== undefined && request.headers['X-API-KEY'] !== this.options.apiKey) {
+      return respond({ status: 401, body: { detail: 'Invalid API key' } }, requestId);
+    }
+    if (!content) {
+      return respond(
+        {
+          status: 422,
+          body: { detail: [{ loc: ['body'], msg: 'JSON decode error', type: 'json_invalid' }] },
+        },
+        requestId
+      );
+    }
+    return respond(this.route(request), requestId);
+  }
+
+  private translate(text: string, target: string): string {
+    if (text.trim() === '') {
+      return text;
+    }
+    const translate = this.options.translate || pseudoTranslate;
+    const leading = text.slice(0, text.length - text.trimStart().length);
+    const trailing = text.slice(text.trimEnd().length);
+    return `${leading}${translate(text.trim(), target)}${trailing}`;
+  }
+
+  /** Translate the text between tags, leaving the markup alone */
+  private translateMarkup(html: string, target: string): string {
+    return html
+      .split(/(<[^>]*>)/)
+      .map((segment, i) => (i % 2 === 1 ? segment : this.translate(segment, target)))
+      .join('');
+  }
+
+  private detect(text: string): string {
+    const found = SCRIPTS.find(([, pattern]) => pattern.test(text));
+    return found ? found[0] : 'en';
+  }
+
+  private route(request: MockRequest): MockResponse {
+    const { method, endpoint } = request;
+    const key = `${method} ${endpoint.replace(/^\/v2\/i18n\/jobs\/[^/]+/, '/v2/i18n/jobs/:id')}`;
+
+    const invalid = validateBody(key, request.body);
+    if (invalid) {
+      return invalid;
+    }
+    const body = (request.body || {}) as MockRequestFields;
+    let subtitles: SubtitleDocument | undefined;
+    if (key === 'POST /v2/translate/subtitles') {
+      try {
+        subtitles = parseSubtitles(body.content, body.format);
+      } catch (e) {
+        return { status: 400, body: { detail: (e as Error).message } };
+      }
+    }
+
+    if (method === 'POST') {
+      const credits = estimateRequestCredits(endpoint, body, request.file);
+      if (credits > this.credits) {
+        return { status: 402, body: { detail: 'Insufficient credits' } };
+      }
+      this.credits -= credits;
+    }
+
+    switch (key) {
+      case 'POST /v2/translate':
+        return {
+          status: 200,
+          body: {
+            translations: {
+              text: body.text,
+              translation: this.translate(body.text, body.target),
+              source: !body.source || body.source === 'auto' ? this.detect(body.text) : body.source,
+              target: body.target,
+            },
+          },
+        };
+      case 'POST /v2/translate/batch':
+        return {
+          status: 200,
+          body: {
+            translations: body.texts.map((text: string) => ({
+              text,
+              translation: this.translate(text, body.target),
+              source: !body.source || body.source === 'auto' ? this.detect(text) : body.source,
+              target: body.target,
+              success: true,
+            })),
+            total: body.texts.length,
+            successful: body.texts.length,
+            failed: 0,
+          },
+        };
+      case 'POST /v2/translate/html':
+        return { status: 200, body: { html: this.translateMarkup(body.html, body.target) } };
+      case 'POST /v2/translate/email':
+        return {
+          status: 200,
+          body: {
+            subject: this.translate(body.subject, body.target),
+            html_body: this.translateMarkup(body.email_body, body.target),
+          },
+        };
+      case 'POST /v2/translate/subtitles': {
+        const document = subtitles as SubtitleDocument;
+        document.cues.forEach((cue) => {
+          cue.text = cue.text
+            .split('\n')
+            .map((line) => this.translate(line, body.target))
+            .join('\n');
+        });
+        return {
+          status: 200,
+          body: { format: body.format, content: formatSubtitles(document, body.format) },
+        };
+      }
+      case 'POST /v2/language/detect':
+        return {
+          status: 200,
+          body: { language_detection: { language: this.detect(body.text), confidence: 0.99 } },
+        };
+      case 'GET /v2/language/supported':
+        return { status: 200, body: { languages: LANGUAGES } };
+      case 'GET /v2/user/account':
+        return {
+          status: 200,
+          body: {
+            credits_remaining: this.credits,
+            total_credits: this.startingCredits,
+            plan_name: 'Mock',
+            concurrency_limit: this.options.concurrencyLimit || 5,
+          },
+        };
+      case 'POST /v2/i18n/jobs':
+        return this.createJob(request);
+      case 'GET /v2/i18n/jobs': {
+        const page = Number(request.query.page || 1);
+        const pageSize = Number(request.query.page_size || 20);
+        const jobs = Array.from(this.jobs.values()).map((job) => job.status);
+        return {
+          status: 200,
+          body: {
+            count: jobs.length,
+            page,
+            page_size: pageSize,
+            total_pages: Math.ceil(jobs.length / pageSize),
+            results: jobs.slice((page - 1) * pageSize, page * pageSize),
+          },
+        };
+      }
+      case 'GET /v2/i18n/jobs/:id':
+        return this.checkJob(endpoint.split('/')[4]);
+      case 'DELETE /v2/i18n/jobs/:id': {
+        const id = endpoint.split('/')[4];
+        if (!this.jobs.delete(id)) {
+          return { status: 404, body: { detail: `Job ${id} not found` } };
+        }
+        return { status: 200, body: { message: 'Job deleted' } };
+      }
+      default: {
+        const download = /^\/v2\/i18n\/jobs\/([^/]+)\/download\/([^/]+)$/.exec(endpoint);
+        if (method === 'GET' && download) {
+          return this.downloadJobFile(download[1], download[2]);
+        }
+        return { status: 404, body: { detail: `No route for ${method} ${endpoint}` } };
+      }
+    }
+  }
+
+  private createJob(request: MockRequest): MockResponse {
+    if (!request.file) {
+      return { status: 400, body: { detail: 'file is required' } };
+    }
+    const body = (request.body || {}) as Partial<MockRequestFields>;
+    const id = `job-${++this.jobCount}`;
+    const now = new Date().toISOString();
+    this.jobs.set(id, {
+      status: {
+        id,
+        status: 'pending',
+        source_language: body.source_language || 'auto',
+        target_languages: (body.target_languages || '').split(',').filter(Boolean),
+        progress: 0,
+        created_at: now,
+        updated_at: now,
+      },
+      checks: 0,
+      content: request.file.content,
+      format: detectLocaleFormat(request.file.filename),
+    });
+    return { status: 201, body: { job_id: id, status: 'pending', message: 'Job created' } };
+  }
+
+  /** Report a job's status, advancing it one step */
+  private checkJob(id: string): MockResponse {
+    const job = this.jobs.get(id);
+    if (!job) {
+      return { status: 404, body: { detail: `Job ${id} not found` } };
+    }
+    const steps = this.options.jobSteps !== undefined ? this.options.jobSteps : 1;
+    const checks = job.checks++;
+    if (checks >= steps && job.status.status === 'pending') {
+      job.status = { ...job.status, status: 'processing', progress: 50 };
+    } else if (checks >= 2 * steps && job.status.status === 'processing') {
+      let error: string | undefined;
+      try {
+        if (!job.format) {
+          throw new Error('Unsupported file type');
+        }
+        parseLocaleFile(job.content, job.format);
+      } catch (e) {
+        error = (e as Error).message;
+      }
+      job.status = error
+        ? { ...job.status, status: 'failed', error }
+        : { ...job.status, status: 'completed', progress: 100 };
+    } else {
+      return { status: 200, body: job.status };
+    }
+    job.status.updated_at = new Date().toISOString();
+    return { status: 200, body: job.status };
+  }
+
+  private downloadJobFile(id: string, language: string): MockResponse {
+    const job = this.jobs.get(id);
+    if (!job || !job.status.target_languages.includes(language)) {
+      return { status: 404, body: { detail: `No ${language} file for job ${id}` } };
+    }
+    if (job.status.status !== 'completed') {
+      return { status: 400, body: { detail: `Job ${id} is ${job.status.status}` } };
+    }
+    const file = parseLocaleFile(job.content, job.format as LocaleFileFormat);
+    const values: { [key: string]: string } = {};
+    file.units.forEach((unit) => {
+      values[unit.key] = unit.markup
+        ? this.translateMarkup(unit.source, language)
+        : this.translate(unit.source, language);
+    });
+    return {
+      status: 200,
+      body: new TextEncoder().encode(serializeLocaleFile(file, values)),
+    };
+  }
+}
@@ -0,0 +1,248 @@
+/**
+ * Placeholder masking so interpolation tokens survive machine translation.
+ */
+
+export interface PlaceholderWarning {
+  placeholder: string;
+  /** 'missing': in the source but not the translation; 'unexpected': the other way round */
+  issue: 'missing' | 'unexpected';
+}
+
+export interface MaskedText {
+  /** Text with every placeholder replaced by a numbered marker */
+  text: string;
+  /** Original placeholders, indexed by marker number */
+  tokens: string[];
+}
+
+const MARKER_PATTERN = /_{2}\s*TP\s*(\d+)\s*_{2}/g;
+/**
+ * printf-style (`%s`, `%1$d`, `%.2f`, `%@`) and numbered tag (`<0>`, `</0>`, `<1/>`)
+ * placeholders. A printf conversion must not be followed by a letter, so the `%o`
+ * in `50%off` is text.
+ */
+const TOKEN_PATTERN =
+  /%(?:\d+\$)?[-+0#]*\d*(?:\.\d+)?(?:hh|h|ll|l|L|z|j|t)?[diouxXeEfFgGaAcsp@%](?![A-Za-z])|<\/?\d+\s*\/?>/g;
+
+function marker(index: number): string {
+  return `__TP${index}__`;
+}
+
+/** Start of an ICU plural/select block, e.g. `{count, plural,` */
+const COMPLEX_ARGUMENT = /\{\s*[\w.]+\s*,\s*(plural|selectordinal|select)\s*,/y;
+/** A selector and the brace opening its message, e.g. ` one {`, `=0 {`, `offset:1 other {` */
+const SELECTOR = /\s*(?:offset:\s*\d+\s*)?(?:=\d+|[\w-]+)\s*\{/y;
+
+/**
+ * Index of the brace closing the one at `start`, or -1 if it is not closed before `end`.
+ */
+function matchingBrace(text: string, start: number, end: number): number {
+  let depth = 0;
+  for (let j = start; j < end; j++) {
+    if (text[j] === '{') {
+      depth++;
+    } else if (text[j] === '}') {
+      depth--;
+      if (depth === 0) {
+        return j;
+      }
+    }
+  }
+  return -1;
+}
+
+/**
+ * Split an ICU plural/select block spanning [start, close] into its skeleton (the
+ * argument, keyword and selectors with their braces) and its messages.
+ * Returns undefined if the block is not a well-formed plural/select.
+ */
+function parseComplexArgument(
+  text: string,
+  start: number,
+  close: number
+):
+  | { skeleton: Array<[number, number]>; messages: Array<[number, number]>; plural: boolean }
+  | undefined {
+  COMPLEX_ARGUMENT.lastIndex = start;
+  const header = COMPLEX_ARGUMENT.exec(text);
+  if (!header) {
+    return undefined;
+  }
+
+  const skeleton: Array<[number, number]> = [];
+  const messages: Array<[number, number]> = [];
+  let segmentStart = start;
+  let i = start + header[0].length;
+  let selector: RegExpExecArray | null;
+  SELECTOR.lastIndex = i;
+  while ((selector = SELECTOR.exec(text)) !== null) {
+    const open = i + selector[0].length - 1;
+    const end = matchingBrace(text, open, close);
+    if (end === -1) {
+      return undefined;
+    }
+    skeleton.push([segmentStart, open + 1]);
+    messages.push([open + 1, end]);
+    segmentStart = end;
+    i = end + 1;
+    SELECTOR.lastIndex = i;
+  }
+  if (messages.length === 0 || text.slice(i, close).trim() !== '') {
+    return undefined;
+  }
+  skeleton.push([segmentStart, close + 1]);
+  return { skeleton, messages, plural: header[1] !== 'select' };
+}
+
+/**
+ * Find `{{mustache}}` and ICU `{argument}` placeholders in [start, end) as
+ * [start, end) ranges. Plural/select blocks contribute their skeleton, e.g.
+ * `{count, plural, one {` and `} other {`, and the placeholders inside their
+ * messages, so the message text itself is translated. Inside plural messages
+ * `#` is a placeholder too.
+ */
+function findBracePlaceholders(
+  text: string,
+  start = 0,
+  end = text.length,
+  inPlural = false
+): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  let i = start;
+  while (i < end) {
+    if (inPlural && text[i] === '#') {
+      ranges.push([i, i + 1]);
+      i++;
+      continue;
+    }
+    if (text[i] !== '{') {
+      i++;
+      continue;
+    }
+    const close = matchingBrace(text, i, end);
+    if (close === -1) {
+      // Unbalanced brace: treat as literal text
+      i++;
+      continue;
+    }
+    const block = parseComplexArgument(text, i, close);
+    if (block) {
+      ranges.push(...block.skeleton);
+      block.messages.forEach(([from, to]) => {
+        ranges.push(...findBracePlaceholders(text, from, to, inPlural || block.plural));
+      });
+    } else {
+      ranges.push([i, close + 1]);
+    }
+    i = close + 1;
+  }
+  return ranges;
+}
+
+/**
+ * Find every placeholder as [start, end) ranges, in order. Brace placeholders
+ * take precedence over tokens inside them.
+ */
+function findPlaceholderRanges(text: string): Array<[number, number]> {
+  const ranges = findBracePlaceholders(text);
+  const inBraces = (offset: number) =>
+    ranges.some(([start, end]) => offset >= start && offset < end);
+  let match: RegExpExecArray | null;
+  TOKEN_PATTERN.lastIndex = 0;
+  while ((match = TOKEN_PATTERN.exec(text)) !== null) {
+    if (!inBraces(match.index)) {
+      ranges.push([match.index, match.index + match[0].length]);
+    }
+  }
+  return ranges.sort((a, b) => a[0] - b[0]);
+}
+
+/**
+ * List the placeholders in a text: `{{mustache}}`, ICU `{argument}`, the skeleton
+ * of ICU plural/select blocks and `#`, printf `%s`/`%1$d`, and numbered tags such
+ * as `<0>` and `</0>`.
+ *
+ * @example
+ * ```typescript
+ * findPlaceholders('Hi {name}, <0>%d new</0>');
+ * // ['{name}', '<0>', '%d', '</0>']
+ * ```
+ */
+export function findPlaceholders(text: string): string[] {
+  return findPlaceholderRanges(text).map(([start, end]) => text.slice(start, end));
+}
+
+/**
+ * Compare the placeholders of a source text and its translation, counting
+ * repeats, and report any difference.
+ */
+export function comparePlaceholders(source: string, translation: string): PlaceholderWarning[] {
+  const counts = new Map<string, number>();
+  findPlaceholders(source).forEach((p) => counts.set(p, (counts.get(p) || 0) + 1));
+  const warnings: PlaceholderWarning[] = [];
+  findPlaceholders(translation).forEach((placeholder) => {
+    const count = counts.get(placeholder) || 0;
+    if (count === 0) {
+      warnings.push({ placeholder, issue: 'unexpected' });
+    } else {
+      counts.set(placeholder, count - 1);
+    }
+  });
+  counts.forEach((count, placeholder) => {
+    for (let i = 0; i < count; i++) {
+      warnings.push({ placeholder, issue: 'missing' });
+    }
+  });
+  return warnings;
+}
+
+/**
+ * Replace placeholders with markers the translation engine leaves alone.
+ *
+ * @example
+ * ```typescript
+ * maskPlaceholders('Hello {{name}}, you have {count} messages');
+ * // { text: 'Hello __TP0__, you have __TP1__ messages', tokens: ['{{name}}', '{count}'] }
+ * ```
+ */
+export function maskPlaceholders(text: string): MaskedText {
+  const tokens: string[] = [];
+  let result = '';
+  let last = 0;
+  for (const [start, end] of findPlaceholderRanges(text)) {
+    result += text.slice(last, start) + marker(tokens.length);
+    tokens.push(text.slice(start, end));
+    last = end;
+  }
+  result += text.slice(last);
+  return { text: result, tokens };
+}
+
+/**
+ * Check whether masked text has anything left to translate besides markers.
+ */
+export function hasTranslatableText(masked: MaskedText): boolean {
+  return masked.text.replace(MARKER_PATTERN, '').trim() !== '';
+}
+
+/**
+ * Restore placeholders masked by maskPlaceholders.
+ *
+ * @returns The restored text and the indexes of tokens whose markers were lost
+ */
+export function unmaskPlaceholders(
+  text: string,
+  tokens: string[]
+): { text: string; missing: number[] } {
+  const seen = new Set<number>();
+  const restored = text.replace(MARKER_PATTERN, (match, index) => {
+    const i = Number(index);
+    if (i >= tokens.length) {
+      return match;
+    }
+    seen.add(i);
+    return tokens[i];
+  });
+  const missing = tokens.map((_, i) => i).filter((i) => !seen.has(i));
+  return { text: restored, missing };
+}
@@ -0,0 +1,331 @@
+/**
+ * Quality checks for translation responses.
+ *
+ * Each check is a heuristic that flags likely defects; none of them call the
+ * API. Reports are plain data so they can be logged or used to fail a CI run.
+ */
+
+import type {
+  BatchTranslateResponse,
+  TranslateEmailOptions,
+  TranslateEmailResponse,
+  TranslateHTMLResponse,
+  TranslateResponse,
+} from './types';
+
+export type QualityCheck =
+  'untranslated' | 'numbers' | 'urls' | 'emails' | 'whitespace' | 'punctuation' | 'length' | 'tags';
+
+export interface QualityIssue {
+  check: QualityCheck;
+  message: string;
+}
+
+export interface QualityReport {
+  /** Position of the item, for batch responses */
+  index?: number;
+  /** Field checked, for email responses */
+  field?: 'subject' | 'html_body';
+  source: string;
+  translation: string;
+  passed: boolean;
+  issues: QualityIssue[];
+}
+
+export interface QualityCheckOptions {
+  /** Checks to run (default: all; 'tags' only runs on HTML) */
+  checks?: QualityCheck[];
+  /**
+   * Flag translations more than this many times longer or shorter than the
+   * source. Sources under 10 characters are not checked (default: 3)
+   */
+  maxLengthRatio?: number;
+  /** Texts allowed to stay identical after translation, e.g. brand names */
+  allowUntranslated?: string[];
+  /** Treat the texts as HTML: ignore markup in text checks and check tag balance */
+  html?: boolean;
+}
+
+const ALL_CHECKS: QualityCheck[] = [
+  'untranslated',
+  'numbers',
+  'urls',
+  'emails',
+  'whitespace',
+  'punctuation',
+  'length',
+  'tags',
+];
+
+const URL_PATTERN = /\bhttps?:\/\/[^\s<>"']+[^\s<>"'.,;:!?)]/g;
+const EMAIL_PATTERN = /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g;
+/** Digit groups may be separated by '.', ',', no-break spaces, or a space before three digits */
+const NUMBER_PATTERN = /\d+(?:[.,\u00a0\u202f]\d+| \d{3}(?!\d))*/g;
+const TAG_PATTERN = /<(\/?)([A-Za-z][\w:-]*)(?:\s[^>]*)?>/g;
+const VOID_ELEMENTS = new Set([
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'source',
+  'track',
+  'wbr',
+]);
+/** Sentence-final punctuation, grouped so '?' and '？' count as the same */
+const END_PUNCTUATION: Array<[string, RegExp]> = [
+  ['question mark', /[?？؟]$/],
+  ['exclamation mark', /[!！]$/],
+  ['ellipsis', /(?:…|\.\.\.)$/],
+  ['full stop', /[.。।]$/],
+  ['colon', /[:：]$/],
+];
+
+/**
+ * Values not found in `other`, counting repeats.
+ */
+function difference(values: string[], other: string[]): string[] {
+  const counts = new Map<string, number>();
+  other.forEach((value) => counts.set(value, (counts.get(value) || 0) + 1));
+  return values.filter((value) => {
+    const count = counts.get(value) || 0;
+    counts.set(value, count - 1);
+    return count <= 0;
+  });
+}
+
+function matches(text: string, pattern: RegExp): string[] {
+  return text.match(pattern) || [];
+}
+
+/** Digits only, so '1,000.5' and '1.000,5' compare equal */
+function numbers(text: string): string[] {
+  const plain = text.replace(URL_PATTERN, ' ').replace(EMAIL_PATTERN, ' ');
+  return matches(plain, NUMBER_PATTERN).map((n) => n.replace(/\D/g, ''));
+}
+
+function endPunctuation(text: string): string | undefined {
+  const trimmed = text.trim();
+  const found = END_PUNCTUATION.find(([, pattern]) => pattern.test(trimmed));
+  return found ? found[0] : undefined;
+}
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]*>/g, '');
+}
+
+function compareList(
+  issues: QualityIssue[],
+  check: QualityCheck,
+  what: string,
+  source: string[],
+  translation: string[]
+): void {
+  const missing = difference(source, translation);
+  const extra = difference(translation, source);
+  if (missing.length > 0) {
+    issues.push({ check, message: `Missing ${what}: ${missing.join(', ')}` });
+  }
+  if (extra.length > 0) {
+    issues.push({ check, message: `Unexpected ${what}: ${extra.join(', ')}` });
+  }
+}
+
+function checkTags(issues: QualityIssue[], source: string, translation: string): void {
+  const stack: string[] = [];
+  const names = (html: string) =>
+    Array.from(html.matchAll(TAG_PATTERN), (m) => `${m[1]}${m[2].toLowerCase()}`);
+
+  for (const tag of names(translation)) {
+    const name = tag.replace(/^\//, '');
+    if (VOID_ELEMENTS.has(name)) {
+      continue;
+    }
+    if (!tag.startsWith('/')) {
+      stack.push(name);
+    } else if (stack[stack.length - 1] === name) {
+      stack.pop();
+    } else {
+      issues.push({ check: 'tags', message: `Unexpected </${name}>` });
+      return;
+    }
+  }
+  if (stack.length > 0) {
+    issues.push({ check: 'tags', message: `Unclosed <${stack[stack.length - 1]}>` });
+    return;
+  }
+  compareList(issues, 'tags', 'tags', names(source), names(translation));
+}
+
+/**
+ * Check a single translation.
+ *
+ * @example
+ * ```typescript
+ * checkTranslation('Costs $1,500. See https://acme.com', 'Coûte 15 $. Voir https://acme.fr');
+ * // issues: [{ check: 'numbers', message: 'Missing numbers: 1500' }, ...]
+ * ```
+ */
+export function checkTranslation(
+  source: string,
+  translation: string,
+  options: QualityCheckOptions = {}
+): QualityReport {
+  const enabled = new Set(options.checks || ALL_CHECKS);
+  const issues: QualityIssue[] = [];
+  const sourceText = options.html ? stripTags(source) : source;
+  const translatedText = options.html ? stripTags(translation) : translation;
+
+  if (
+    enabled.has('untranslated') &&
+    /\p{L}/u.test(sourceText) &&
+    sourceText.trim() === translatedText.trim() &&
+    !(options.allowUntranslated || []).includes(sourceText.trim())
+  ) {
+    issues.push({ check: 'untranslated', message: 'Translation is identical to the source' });
+  }
+  if (enabled.has('numbers')) {
+    compareList(issues, 'numbers', 'numbers', numbers(sourceText), numbers(translatedText));
+  }
+  if (enabled.has('urls')) {
+    compareList(
+      issues,
+      'urls',
+      'URLs',
+      matches(source, URL_PATTERN),
+      matches(translation, URL_PATTERN)
+    );
+  }
+  if (enabled.has('emails')) {
+    compareList(
+      issues,
+      'emails',
+      'email addresses',
+      matches(sourceText, EMAIL_PATTERN),
+      matches(translatedText, EMAIL_PATTERN)
+    );
+  }
+  if (enabled.has('whitespace')) {
+    const edges = (text: string) => [
+      text.slice(0, text.length - text.trimStart().length),
+      text.slice(text.trimEnd().length),
+    ];
+    const [sourceLeading, sourceTrailing] = edges(source);
+    const [leading, trailing] = edges(translation);
+    if (sourceLeading !== leading) {
+      issues.push({ check: 'whitespace', message: 'Leading whitespace differs from the source' });
+    }
+    if (sourceTrailing !== trailing) {
+      issues.push({ check: 'whitespace', message: 'Trailing whitespace differs from the source' });
+    }
+  }
+  if (enabled.has('punctuation')) {
+    const expected = endPunctuation(sourceText);
+    const actual = endPunctuation(translatedText);
+    if (expected !== actual) {
+      issues.push({
+        check: 'punctuation',
+        message: expected
+          ? `Source ends with a ${expected}, translation ${actual ? `with a ${actual}` : 'does not'}`
+          : `Translation ends with a ${actual}, source does not`,
+      });
+    }
+  }
+  if (enabled.has('length') && sourceText.trim().length >= 10) {
+    const maxRatio = options.maxLengthRatio || 3;
+    const ratio = translatedText.trim().length / sourceText.trim().length;
+    if (ratio > maxRatio || ratio < 1 / maxRatio) {
+      issues.push({
+        check: 'length',
+        message: `Translation is ${Math.round(ratio * 100) / 100}x the source length`,
+      });
+    }
+  }
+  if (enabled.has('tags') && options.html) {
+    checkTags(issues, source, translation);
+  }
+
+  return { source, translation, passed: issues.length === 0, issues };
+}
+
+/**
+ * Check the result of `translate`.
+ */
+export function checkTranslateResponse(
+  response: TranslateResponse,
+  options?: QualityCheckOptions
+): QualityReport {
+  return checkTranslation(response.translations.text, response.translations.translation, options);
+}
+
+/**
+ * Check every item of a `translateBatch` result. Failed items are reported
+ * as untranslated.
+ *
+ * @example
+ * ```typescript
+ * const reports = checkBatchResponse(await client.translateBatch({ texts, target: 'fr' }));
+ * const failures = reports.filter((r) => !r.passed);
+ * if (failures.length > 0) {
+ *   process.exitCode = 1;
+ * }
+ * ```
+ */
+export function checkBatchResponse(
+  response: BatchTranslateResponse,
+  options?: QualityCheckOptions
+): QualityReport[] {
+  return response.translations.map((item, index) => {
+    if (!item.success) {
+      return {
+        index,
+        source: item.text,
+        translation: item.translation,
+        passed: false,
+        issues: [
+          {
+            check: 'untranslated',
+            message: `Translation failed: ${item.error || 'unknown error'}`,
+          },
+        ],
+      };
+    }
+    return { index, ...checkTranslation(item.text, item.translation, options) };
+  });
+}
+
+/**
+ * Check the result of `translateHTML` against the source HTML, including tag balance.
+ */
+export function checkHTMLResponse(
+  html: string,
+  response: TranslateHTMLResponse,
+  options?: QualityCheckOptions
+): QualityReport {
+  return checkTranslation(html, response.html, { ...options, html: true });
+}
+
+/**
+ * Check the subject and body of a `translateEmail` result.
+ */
+export function checkEmailResponse(
+  email: Pick<TranslateEmailOptions, 'subject' | 'email_body'>,
+  response: TranslateEmailResponse,
+  options?: QualityCheckOptions
+): QualityReport[] {
+  return [
+    {
+      field: 'subject',
+      ...checkTranslation(email.subject, response.subject, { ...options, html: false }),
+    },
+    {
+      field: 'html_body',
+      ...checkTranslation(email.email_body, response.html_body, { ...options, html: true }),
+    },
+  ];
+}
@@ -0,0 +1,150 @@
+/**
+ * Retry policy for TranslatePlus client requests.
+ */
+
+import { TranslatePlusAPIError, TranslatePlusCancelledError } from './exceptions';
+
+export interface RetryInfo {
+  /** Number of the retry about to be made (1 for the first retry) */
+  attempt: number;
+  /** Delay in ms before the retry */
+  delay: number;
+  /** Error that caused the retry */
+  error: Error;
+  method: string;
+  endpoint: string;
+}
+
+export interface RetryPolicy {
+  /** HTTP status codes that are retried (default: 408, 429, 500, 502, 503, 504) */
+  retryableStatusCodes?: number[];
+  /** Additional error classes that are always retried */
+  retryableErrors?: Array<new (...args: never[]) => Error>;
+  /** Retry timeouts and connection failures (default: true) */
+  retryNetworkErrors?: boolean;
+  /** Base delay in ms for exponential backoff (default: 1000) */
+  baseDelay?: number;
+  /** Maximum delay in ms between attempts (default: 30000) */
+  maxDelay?: number;
+  /** Randomization applied to the backoff delay (default: 'none') */
+  jitter?: 'none' | 'full' | 'decorrelated';
+  /**
+   * Wait as long as the server's Retry-After header asks (default: true).
+   * If it asks for longer than maxDelay, the error is thrown without retrying.
+   */
+  respectRetryAfter?: boolean;
+  /** Total time budget in ms; no retry is started that would exceed it */
+  maxElapsedTime?: number;
+  /** Called before each retry */
+  onRetry?: (info: RetryInfo) => void | Promise<void>;
+}
+
+export type ResolvedRetryPolicy = Required<
+  Omit<RetryPolicy, 'retryableErrors' | 'maxElapsedTime' | 'onRetry'>
+> &
+  Pick<RetryPolicy, 'retryableErrors' | 'maxElapsedTime' | 'onRetry'>;
+
+export const DEFAULT_RETRYABLE_STATUS_CODES = [408, 429, 500, 502, 503, 504];
+
+export function resolveRetryPolicy(policy: RetryPolicy = {}): ResolvedRetryPolicy {
+  return {
+    retryableStatusCodes: policy.retryableStatusCodes || DEFAULT_RETRYABLE_STATUS_CODES,
+    retryableErrors: policy.retryableErrors,
+    retryNetworkErrors: policy.retryNetworkErrors !== false,
+    baseDelay: policy.baseDelay !== undefined ? policy.baseDelay : 1000,
+    maxDelay: policy.maxDelay !== undefined ? policy.maxDelay : 30000,
+    jitter: policy.jitter || 'none',
+    respectRetryAfter: policy.respectRetryAfter !== false,
+    maxElapsedTime: policy.maxElapsedTime,
+    onRetry: policy.onRetry,
+  };
+}
+
+/**
+ * Parse a Retry-After header given in seconds or as an HTTP-date.
+ *
+ * @returns Delay in ms, or undefined if the header is missing or invalid
+ */
+export function parseRetryAfter(
+  value: string | null | undefined,
+  now: number = Date.now()
+): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return parseFloat(trimmed) * 1000;
+  }
+  const date = Date.parse(trimmed);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Decide whether an error should be retried under the policy.
+ */
+export function isRetryableError(error: unknown, policy: ResolvedRetryPolicy): boolean {
+  if (error instanceof TranslatePlusCancelledError) {
+    return false;
+  }
+  if (policy.retryableErrors && policy.retryableErrors.some((cls) => error instanceof cls)) {
+    return true;
+  }
+  if (error instanceof TranslatePlusAPIError) {
+    if (error.statusCode === undefined) {
+      return policy.retryNetworkErrors;
+    }
+    return policy.retryableStatusCodes.includes(error.statusCode);
+  }
+  return false;
+}
+
+/**
+ * Compute the backoff delay before the next attempt.
+ *
+ * @param policy - Resolved retry policy
+ * @param attempt - Zero-based number of the attempt that just failed
+ * @param previousDelay - Delay used before the failed attempt (0 for the first)
+ */
+export function computeRetryDelay(
+  policy: ResolvedRetryPolicy,
+  attempt: number,
+  previousDelay: number
+): number {
+  const { baseDelay, maxDelay } = policy;
+  switch (policy.jitter) {
+    case 'full':
+      return Math.random() * Math.min(maxDelay, baseDelay * Math.pow(2, attempt));
+    case 'decorrelated': {
+      const upper = Math.max(previousDelay, baseDelay) * 3;
+      return Math.min(maxDelay, baseDelay + Math.random() * (upper - baseDelay));
+    }
+    default:
+      return Math.min(maxDelay, baseDelay * Math.pow(2, attempt));
+  }
+}
+
+/**
+ * Wait for the given time, rejecting early if the signal aborts.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal && signal.aborted) {
+      reject(new TranslatePlusCancelledError('Request cancelled'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new TranslatePlusCancelledError('Request cancelled'));
+    };
+    const timeoutId = setTimeout(() => {
+      if (signal) {
+        signal.removeEventListener('abort', onAbort);
+      }
+      resolve();
+    }, ms);
+    if (signal) {
+      signal.addEventListener('abort', onAbort, { once: true });
+    }
+  });
+}
@@ -0,0 +1,208 @@
+/**
+ * Runtime shape checks for API responses.
+ *
+ * Each schema mirrors a response interface in `types.ts`. Objects may carry
+ * fields the schema doesn't list, so additions on the server side don't break
+ * older clients; only missing or mistyped fields are reported.
+ */
+
+export interface SchemaMismatch {
+  /** Where the mismatch is, e.g. `$.translations[0].source` */
+  path: string;
+  /** What the schema expected, e.g. `string` */
+  expected: string;
+  /** What the response had, e.g. `undefined` */
+  received: string;
+}
+
+/**
+ * Checks a value and returns the first mismatch, if any.
+ */
+export type Schema = (value: unknown, path: string) => SchemaMismatch | undefined;
+
+function typeOf(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function primitive(expected: 'string' | 'number' | 'boolean'): Schema {
+  return (value, path) =>
+    typeof value === expected && !(expected === 'number' && Number.isNaN(value))
+      ? undefined
+      : { path, expected, received: typeOf(value) };
+}
+
+const string = primitive('string');
+const number = primitive('number');
+const boolean = primitive('boolean');
+
+const any: Schema = () => undefined;
+
+/** Field that may be absent or null */
+function optional(schema: Schema): Schema {
+  return (value, path) => (value === undefined || value === null ? undefined : schema(value, path));
+}
+
+function oneOf(...values: string[]): Schema {
+  return (value, path) =>
+    typeof value === 'string' && values.includes(value)
+      ? undefined
+      : {
+          path,
+          expected: values.map((v) => JSON.stringify(v)).join(' | '),
+          received: typeof value === 'string' ? JSON.stringify(value) : typeOf(value),
+        };
+}
+
+function array(item: Schema): Schema {
+  return (value, path) => {
+    if (!Array.isArray(value)) {
+      return { path, expected: 'array', received: typeOf(value) };
+    }
+    for (let i = 0; i < value.length; i++) {
+      const mismatch = item(value[i], `${path}[${i}]`);
+      if (mismatch) {
+        return mismatch;
+      }
+    }
+    return undefined;
+  };
+}
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+  return typeOf(value) === 'object';
+}
+
+function object(fields: { [key: string]: Schema }): Schema {
+  return (value, path) => {
+    if (!isObject(value)) {
+      return { path, expected: 'object', received: typeOf(value) };
+    }
+    for (const key of Object.keys(fields)) {
+      const mismatch = fields[key](value[key], `${path}.${key}`);
+      if (mismatch) {
+        return mismatch;
+      }
+    }
+    return undefined;
+  };
+}
+
+function record(item: Schema): Schema {
+  return (value, path) => {
+    if (!isObject(value)) {
+      return { path, expected: 'object', received: typeOf(value) };
+    }
+    for (const key of Object.keys(value)) {
+      const mismatch = item(value[key], `${path}[${JSON.stringify(key)}]`);
+      if (mismatch) {
+        return mismatch;
+      }
+    }
+    return undefined;
+  };
+}
+
+/** TranslateResponse */
+const translateResponse = object({
+  translations: object({ text: string, translation: string, source: string, target: string }),
+  details: optional(record(any)),
+});
+
+/** BatchTranslateResponse */
+const batchTranslateResponse = object({
+  translations: array(
+    object({
+      text: string,
+      translation: string,
+      source: string,
+      target: string,
+      success: boolean,
+      error: optional(string),
+    })
+  ),
+  total: number,
+  successful: number,
+  failed: number,
+});
+
+/** TranslateHTMLResponse */
+const translateHTMLResponse = object({ html: string });
+
+/** TranslateEmailResponse */
+const translateEmailResponse = object({ subject: string, html_body: string });
+
+/** TranslateSubtitleResponse */
+const translateSubtitleResponse = object({ format: string, content: string });
+
+/** DetectLanguageResponse */
+const detectLanguageResponse = object({
+  language_detection: object({ language: string, confidence: number }),
+});
+
+/** SupportedLanguagesResponse */
+const supportedLanguagesResponse = object({ languages: record(string) });
+
+/** AccountSummaryResponse */
+const accountSummaryResponse = object({
+  credits_remaining: number,
+  total_credits: number,
+  plan_name: string,
+  concurrency_limit: number,
+});
+
+/** I18nJobResponse */
+const i18nJobResponse = object({ job_id: string, status: string, message: optional(string) });
+
+/** I18nJobStatusResponse */
+const i18nJobStatusResponse = object({
+  id: string,
+  status: oneOf('pending', 'processing', 'completed', 'failed'),
+  source_language: string,
+  target_languages: array(string),
+  progress: optional(number),
+  error: optional(string),
+  created_at: string,
+  updated_at: string,
+});
+
+/** I18nJobListResponse */
+const i18nJobListResponse = object({
+  count: number,
+  page: number,
+  page_size: number,
+  total_pages: number,
+  results: array(i18nJobStatusResponse),
+});
+
+const RESPONSE_SCHEMAS: Array<{ method: string; endpoint: RegExp; schema: Schema }> = [
+  { method: 'POST', endpoint: /^\/v2\/translate$/, schema: translateResponse },
+  { method: 'POST', endpoint: /^\/v2\/translate\/batch$/, schema: batchTranslateResponse },
+  { method: 'POST', endpoint: /^\/v2\/translate\/html$/, schema: translateHTMLResponse },
+  { method: 'POST', endpoint: /^\/v2\/translate\/email$/, schema: translateEmailResponse },
+  { method: 'POST', endpoint: /^\/v2\/translate\/subtitles$/, schema: translateSubtitleResponse },
+  { method: 'POST', endpoint: /^\/v2\/language\/detect$/, schema: detectLanguageResponse },
+  { method: 'GET', endpoint: /^\/v2\/language\/supported$/, schema: supportedLanguagesResponse },
+  { method: 'GET', endpoint: /^\/v2\/user\/account$/, schema: accountSummaryResponse },
+  { method: 'POST', endpoint: /^\/v2\/i18n\/jobs$/, schema: i18nJobResponse },
+  { method: 'GET', endpoint: /^\/v2\/i18n\/jobs$/, schema: i18nJobListResponse },
+  { method: 'GET', endpoint: /^\/v2\/i18n\/jobs\/[^/]+$/, schema: i18nJobStatusResponse },
+];
+
+/**
+ * Check a JSON response body against the schema for its endpoint.
+ *
+ * @returns The first mismatch, or undefined if the body matches or the endpoint has no schema
+ */
+export function checkResponseShape(
+  method: string,
+  endpoint: string,
+  body: unknown
+): SchemaMismatch | undefined {
+  const entry = RESPONSE_SCHEMAS.find(
+    (candidate) => candidate.method === method.toUpperCase() && candidate.endpoint.test(endpoint)
+  );
+  return entry ? entry.schema(body, '$') : undefined;
+}
@@ -0,0 +1,208 @@
+/**
+ * Concurrency control for TranslatePlus client requests.
+ */
+
+import {
+  TranslatePlusCancelledError,
+  TranslatePlusQueueFullError,
+  TranslatePlusValidationError,
+} from './exceptions';
+
+export interface SemaphoreOptions {
+  /** Maximum number of concurrent holders (default: 5) */
+  maxConcurrent?: number;
+  /** Maximum number of queued waiters; further acquires are rejected (default: unlimited) */
+  maxQueueSize?: number;
+}
+
+export interface AcquireOptions {
+  /** Higher priorities are served first; equal priorities are served in FIFO order (default: 0) */
+  priority?: number;
+  /** Cancels the wait if aborted before a slot is acquired */
+  signal?: AbortSignal;
+}
+
+export interface SemaphoreStats {
+  active: number;
+  queued: number;
+  maxConcurrent: number;
+  /** Total number of slots handed out */
+  acquired: number;
+  /** Average time in ms spent waiting in the queue */
+  averageWaitTime: number;
+  /** Longest time in ms spent waiting in the queue */
+  maxWaitTime: number;
+}
+
+interface Waiter {
+  priority: number;
+  enqueuedAt: number;
+  resolve: (release: () => void) => void;
+  reject: (error: Error) => void;
+  cleanup?: () => void;
+}
+
+/**
+ * FIFO semaphore with priority levels, bounded queue and cancellation.
+ *
+ * A single instance can be shared by several clients to enforce one
+ * concurrency limit across all of them.
+ *
+ * @example
+ * ```typescript
+ * const semaphore = new Semaphore({ maxConcurrent: 10, maxQueueSize: 1000 });
+ * const clientA = new TranslatePlusClient({ apiKey: 'key-a', semaphore });
+ * const clientB = new TranslatePlusClient({ apiKey: 'key-b', semaphore });
+ * ```
+ */
+export class Semaphore {
+  private maxConcurrent: number;
+  private maxQueueSize?: number;
+  private active: number = 0;
+  private waiters: Waiter[] = [];
+  private acquired: number = 0;
+  private totalWaitTime: number = 0;
+  private maxWaitTime: number = 0;
+
+  constructor(options: SemaphoreOptions = {}) {
+    this.maxConcurrent = Semaphore.validateLimit(options.maxConcurrent || 5);
+    this.maxQueueSize = options.maxQueueSize;
+  }
+
+  private static validateLimit(maxConcurrent: number): number {
+    if (!Number.isInteger(maxConcurrent) || maxConcurrent < 1) {
+      throw new TranslatePlusValidationError('maxConcurrent must be a positive integer');
+    }
+    return maxConcurrent;
+  }
+
+  /**
+   * Wait for a free slot.
+   *
+   * @param options - Priority and abort signal
+   * @returns Function that releases the slot; calling it more than once is a no-op
+   */
+  acquire(options: AcquireOptions = {}): Promise<() => void> {
+    const { signal } = options;
+    if (signal && signal.aborted) {
+      return Promise.reject(new TranslatePlusCancelledError('Request cancelled'));
+    }
+
+    if (this.active < this.maxConcurrent && this.waiters.length === 0) {
+      this.active++;
+      this.recordWait(0);
+      return Promise.resolve(this.createRelease());
+    }
+
+    if (this.maxQueueSize !== undefined && this.waiters.length >= this.maxQueueSize) {
+      return Promise.reject(
+        new TranslatePlusQueueFullError(`Request queue is full (${this.maxQueueSize} waiting)`)
+      );
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        priority: options.priority || 0,
+        enqueuedAt: Date.now(),
+        resolve,
+        reject,
+      };
+
+      // Insert after every waiter with the same or higher priority
+      const index = this.waiters.findIndex((w) => w.priority < waiter.priority);
+      this.waiters.splice(index === -1 ? this.waiters.length : index, 0, waiter);
+
+      if (signal) {
+        const onAbort = () => {
+          this.removeWaiter(waiter);
+          reject(new TranslatePlusCancelledError('Request cancelled'));
+        };
+        signal.addEventListener('abort', onAbort, { once: true });
+        waiter.cleanup = () => signal.removeEventListener('abort', onAbort);
+      }
+    });
+  }
+
+  /**
+   * Run a function while holding a slot.
+   */
+  async run<T>(fn: () => Promise<T>, options: AcquireOptions = {}): Promise<T> {
+    const release = await this.acquire(options);
+    try {
+      return await fn();
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Change the concurrency limit. Raising it immediately starts queued waiters.
+   */
+  setMaxConcurrent(maxConcurrent: number): void {
+    this.maxConcurrent = Semaphore.validateLimit(maxConcurrent);
+    this.dispatch();
+  }
+
+  /**
+   * Reject every queued waiter with TranslatePlusCancelledError.
+   * Slots that are already held are not affected.
+   */
+  cancelQueued(reason: string = 'Request cancelled'): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach((waiter) => {
+      if (waiter.cleanup) {
+        waiter.cleanup();
+      }
+      waiter.reject(new TranslatePlusCancelledError(reason));
+    });
+  }
+
+  getStats(): SemaphoreStats {
+    return {
+      active: this.active,
+      queued: this.waiters.length,
+      maxConcurrent: this.maxConcurrent,
+      acquired: this.acquired,
+      averageWaitTime: this.acquired > 0 ? this.totalWaitTime / this.acquired : 0,
+      maxWaitTime: this.maxWaitTime,
+    };
+  }
+
+  private createRelease(): () => void {
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      this.active--;
+      this.dispatch();
+    };
+  }
+
+  private dispatch(): void {
+    while (this.active < this.maxConcurrent && this.waiters.length > 0) {
+      const waiter = this.waiters.shift() as Waiter;
+      if (waiter.cleanup) {
+        waiter.cleanup();
+      }
+      this.active++;
+      this.recordWait(Date.now() - waiter.enqueuedAt);
+      waiter.resolve(this.createRelease());
+    }
+  }
+
+  private removeWaiter(waiter: Waiter): void {
+    const index = this.waiters.indexOf(waiter);
+    if (index !== -1) {
+      this.waiters.splice(index, 1);
+    }
+  }
+
+  private recordWait(waitTime: number): void {
+    this.acquired++;
+    this.totalWaitTime += waitTime;
+    this.maxWaitTime = Math.max(this.maxWaitTime, waitTime);
+  }
+}
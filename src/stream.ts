@@ -0,0 +1,195 @@
+/**
+ * Streaming translation for TranslatePlus client.
+ *
+ * Texts are read from an async source, grouped into batch requests and
+ * yielded in input order. Reading pauses while `maxInFlight` batches are
+ * pending, so a slow API slows the source down instead of buffering it.
+ */
+
+import { isCallWideError } from './exceptions';
+import type { BatchTranslateResponse } from './types';
+
+export type StreamTranslationItem = BatchTranslateResponse['translations'][number];
+
+/**
+ * Streaming input. Strings are translated one per item; byte chunks, and every
+ * chunk of a Node Readable that is not in object mode, are split into lines.
+ */
+export type StreamInput = AsyncIterable<string | Uint8Array> | Iterable<string>;
+
+export interface TranslateStreamOptions {
+  source?: string;
+  target: string;
+  /** Texts per batch request (default: 100) */
+  batchSize?: number;
+  /** Maximum batch requests pending at once; input is not read beyond this (default: 4) */
+  maxInFlight?: number;
+  /** Send a partial batch after this many ms without filling it; 0 waits (default: 1000) */
+  flushInterval?: number;
+}
+
+interface PendingBatch {
+  texts: string[];
+  items?: StreamTranslationItem[];
+  error?: Error;
+  settled: Promise<void>;
+}
+
+const DEFAULT_BATCH_SIZE = 100;
+const DEFAULT_MAX_IN_FLIGHT = 4;
+const DEFAULT_FLUSH_INTERVAL = 1000;
+
+function isByteStream(input: StreamInput): boolean {
+  const { readableObjectMode } = input as { readableObjectMode?: unknown };
+  return typeof readableObjectMode === 'boolean' && !readableObjectMode;
+}
+
+/**
+ * Turn streaming input into texts, splitting byte chunks into lines.
+ * Both '\n' and '\r\n' line breaks are accepted, even across chunk boundaries.
+ */
+export async function* readTexts(input: StreamInput): AsyncGenerator<string> {
+  const byteStream = isByteStream(input);
+  const decoder = new TextDecoder();
+  let rest = '';
+  for await (const chunk of input) {
+    if (typeof chunk === 'string' && !byteStream) {
+      yield chunk;
+      continue;
+    }
+    rest += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+    const lines = rest.split(/\r?\n/);
+    rest = lines.pop() as string;
+    yield* lines;
+  }
+  rest += decoder.decode();
+  if (rest !== '') {
+    yield rest;
+  }
+}
+
+/**
+ * Translate texts in batches with at most `maxInFlight` batches pending,
+ * yielding results in input order as soon as the batches in front are done.
+ *
+ * Blank texts are passed through without a request. A failed batch is
+ * reported as failed items; cancellation, a bad API key or running out of
+ * credits rejects the stream, since every later batch would fail too.
+ */
+export async function* translateInBatches(
+  texts: AsyncIterable<string>,
+  translate: (texts: string[]) => Promise<StreamTranslationItem[]>,
+  options: TranslateStreamOptions
+): AsyncGenerator<StreamTranslationItem> {
+  const batchSize = options.batchSize || DEFAULT_BATCH_SIZE;
+  const maxInFlight = options.maxInFlight || DEFAULT_MAX_IN_FLIGHT;
+  const flushInterval =
+    options.flushInterval !== undefined ? options.flushInterval : DEFAULT_FLUSH_INTERVAL;
+  const source = options.source || 'auto';
+
+  const iterator = texts[Symbol.asyncIterator]();
+  const inFlight: PendingBatch[] = [];
+  let batch: string[] = [];
+  let batchStartedAt = 0;
+  let next: Promise<IteratorResult<string>> | undefined;
+  let done = false;
+
+  const item = (text: string, translation: string, error?: string): StreamTranslationItem => ({
+    text,
+    translation,
+    source,
+    target: options.target,
+    success: error === undefined,
+    ...(error !== undefined && { error }),
+  });
+
+  const send = () => {
+    const entry = { texts: batch } as PendingBatch;
+    batch = [];
+    const sendable = entry.texts.filter((text) => text.trim() !== '');
+    entry.settled = (sendable.length > 0 ? translate(sendable) : Promise.resolve([])).then(
+      (results) => {
+        let j = 0;
+        entry.items = entry.texts.map((text) =>
+          text.trim() === '' ? item(text, text) : results[j++] || item(text, '', 'No result')
+        );
+      },
+      (error: Error) => {
+        if (isCallWideError(error)) {
+          entry.error = error;
+          return;
+        }
+        entry.items = entry.texts.map((text) =>
+          text.trim() === '' ? item(text, text) : item(text, '', error.message)
+        );
+      }
+    );
+    inFlight.push(entry);
+  };
+
+  try {
+    for (;;) {
+      while (inFlight.length > 0 && (inFlight[0].items || inFlight[0].error)) {
+        const entry = inFlight.shift() as PendingBatch;
+        if (entry.error) {
+          throw entry.error;
+        }
+        yield* entry.items as StreamTranslationItem[];
+      }
+
+      if (done) {
+        if (batch.length > 0) {
+          send();
+        } else if (inFlight.length > 0) {
+          await inFlight[0].settled;
+        } else {
+          return;
+        }
+        continue;
+      }
+      if (inFlight.length >= maxInFlight) {
+        await inFlight[0].settled;
+        continue;
+      }
+
+      // Wait for whichever comes first: more input, the front batch, or the flush timer
+      if (!next) {
+        next = iterator.next();
+      }
+      const events: Array<Promise<'input' | 'batch' | 'flush'>> = [next.then(() => 'input')];
+      if (inFlight.length > 0) {
+        events.push(inFlight[0].settled.then(() => 'batch'));
+      }
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      if (batch.length > 0 && flushInterval > 0) {
+        const delay = Math.max(0, batchStartedAt + flushInterval - Date.now());
+        events.push(new Promise((resolve) => (timer = setTimeout(() => resolve('flush'), delay))));
+      }
+      const event = await Promise.race(events);
+      clearTimeout(timer);
+
+      if (event === 'flush') {
+        send();
+      } else if (event === 'input') {
+        const result = await next;
+        next = undefined;
+        if (result.done) {
+          done = true;
+        } else {
+          if (batch.length === 0) {
+            batchStartedAt = Date.now();
+          }
+          batch.push(result.value);
+          if (batch.length >= batchSize) {
+            send();
+          }
+        }
+      }
+    }
+  } finally {
+    // Stop the source if the consumer broke out early
+    if (!done && iterator.return) {
+      iterator.return().catch(() => undefined);
+    }
+  }
+}
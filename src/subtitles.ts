@@ -0,0 +1,456 @@
+/**
+ * SRT and WebVTT parsing, validation, re-timing and translation for TranslatePlus client.
+ */
+
+import { TranslatePlusFormatError, TranslatePlusValidationError } from './exceptions';
+import { Glossary, GlossaryWarning, maskTerms, restoreTerms } from './glossary';
+import type { TranslateSubtitleOptions, TranslateSubtitleResponse } from './types';
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+export interface SubtitleCue {
+  /** SRT sequence number or WebVTT cue identifier */
+  id?: string;
+  /** Start time in ms */
+  start: number;
+  /** End time in ms */
+  end: number;
+  /** Cue text; lines are separated by '\n' */
+  text: string;
+  /** WebVTT cue settings, e.g. 'align:start line:0' */
+  settings?: string;
+}
+
+export interface SubtitleDocument {
+  format: SubtitleFormat;
+  /** WebVTT header, STYLE and REGION blocks, kept verbatim */
+  header?: string;
+  cues: SubtitleCue[];
+}
+
+export interface SubtitleIssue {
+  message: string;
+  /** 1-based line number */
+  line?: number;
+  /** 0-based index of the cue */
+  cue?: number;
+}
+
+export interface SubtitleValidationResult {
+  valid: boolean;
+  errors: SubtitleIssue[];
+}
+
+export interface ChunkSubtitlesOptions {
+  /** Maximum cues per chunk */
+  maxCues?: number;
+  /** Maximum characters of cue text per chunk */
+  maxChars?: number;
+}
+
+export interface ReadingSpeedWarning {
+  /** 0-based index of the cue */
+  index: number;
+  id?: string;
+  start: number;
+  end: number;
+  /** Characters per second, excluding line breaks and tags */
+  charsPerSecond: number;
+}
+
+const TIMING = /^(\S+)\s+-->\s+(\S+)(?:\s+(.*))?$/;
+const SRT_TIME = /^(\d+):(\d{2}):(\d{2})[,.](\d{3})$/;
+const VTT_TIME = /^(?:(\d+):)?(\d{2}):(\d{2})\.(\d{3})$/;
+
+function parseTime(value: string, format: SubtitleFormat): number | undefined {
+  const match = (format === 'srt' ? SRT_TIME : VTT_TIME).exec(value);
+  if (!match) {
+    return undefined;
+  }
+  const [hours, minutes, seconds, millis] = match.slice(1).map((part) => Number(part || 0));
+  if (minutes > 59 || seconds > 59) {
+    return undefined;
+  }
+  return ((hours * 60 + minutes) * 60 + seconds) * 1000 + millis;
+}
+
+function formatTime(ms: number, format: SubtitleFormat): string {
+  const pad = (value: number, length: number) => String(value).padStart(length, '0');
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor(total / 60000) % 60;
+  const seconds = Math.floor(total / 1000) % 60;
+  const separator = format === 'srt' ? ',' : '.';
+  return `${pad(hours, 2)}:${pad(minutes, 2)}:${pad(seconds, 2)}${separator}${pad(total % 1000, 3)}`;
+}
+
+/**
+ * Parse into a document, reporting problems through `report`. Structural
+ * problems stop parsing when `report` throws.
+ */
+function readSubtitles(
+  content: string,
+  format: SubtitleFormat,
+  report: (issue: SubtitleIssue) => void
+): SubtitleDocument {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const document: SubtitleDocument = { format, cues: [] };
+  let n = 0;
+
+  const nextBlock = (): Array<{ text: string; line: number }> => {
+    while (n < lines.length && lines[n].trim() === '') {
+      n++;
+    }
+    const block: Array<{ text: string; line: number }> = [];
+    while (n < lines.length && lines[n].trim() !== '') {
+      block.push({ text: lines[n], line: n + 1 });
+      n++;
+    }
+    return block;
+  };
+
+  if (format === 'vtt') {
+    const header = nextBlock();
+    if (header.length === 0 || !/^WEBVTT(?:[ \t].*)?$/.test(header[0].text)) {
+      report({ message: 'WebVTT file must start with WEBVTT', line: 1 });
+    }
+    document.header = header.map((l) => l.text).join('\n');
+  }
+
+  for (let block = nextBlock(); block.length > 0; block = nextBlock()) {
+    if (format === 'vtt' && /^(NOTE|STYLE|REGION)(?:\s|$)/.test(block[0].text)) {
+      if (!block[0].text.startsWith('NOTE')) {
+        document.header += '\n\n' + block.map((l) => l.text).join('\n');
+      }
+      continue;
+    }
+
+    let i = 0;
+    let id: string | undefined;
+    if (!block[0].text.includes('-->')) {
+      id = block[0].text.trim();
+      i = 1;
+    }
+    const index = document.cues.length;
+    const timingLine = block[i];
+    const timing = timingLine ? TIMING.exec(timingLine.text.trim()) : null;
+    if (!timing) {
+      report({
+        message: 'Expected a timestamp line',
+        line: timingLine ? timingLine.line : block[0].line,
+        cue: index,
+      });
+      continue;
+    }
+
+    const start = parseTime(timing[1], format);
+    const end = parseTime(timing[2], format);
+    if (start === undefined || end === undefined) {
+      report({
+        message: `Invalid timestamp: ${start === undefined ? timing[1] : timing[2]}`,
+        line: timingLine.line,
+        cue: index,
+      });
+      continue;
+    }
+    document.cues.push({
+      id,
+      start,
+      end,
+      text: block
+        .slice(i + 1)
+        .map((l) => l.text)
+        .join('\n'),
+      settings: format === 'vtt' && timing[3] ? timing[3] : undefined,
+    });
+  }
+  return document;
+}
+
+/**
+ * Parse SRT or WebVTT content into cues.
+ *
+ * @throws TranslatePlusFormatError if a cue has no valid timestamp line
+ *
+ * @example
+ * ```typescript
+ * const { cues } = parseSubtitles(fs.readFileSync('movie.srt', 'utf8'), 'srt');
+ * console.log(cues[0]); // { id: '1', start: 1000, end: 2500, text: 'Hello world' }
+ * ```
+ */
+export function parseSubtitles(content: string, format: SubtitleFormat): SubtitleDocument {
+  return readSubtitles(content, format, (issue) => {
+    throw new TranslatePlusFormatError(issue.message, format, issue.line);
+  });
+}
+
+/**
+ * Check timestamps, cue order and SRT numbering without throwing.
+ *
+ * @example
+ * ```typescript
+ * const { valid, errors } = validateSubtitles(content, 'srt');
+ * // errors: [{ message: 'Cue ends before it starts', cue: 3 }]
+ * ```
+ */
+export function validateSubtitles(
+  content: string,
+  format: SubtitleFormat
+): SubtitleValidationResult {
+  const errors: SubtitleIssue[] = [];
+  const document = readSubtitles(content, format, (issue) => errors.push(issue));
+
+  document.cues.forEach((cue, i) => {
+    if (cue.end <= cue.start) {
+      errors.push({ message: 'Cue ends before it starts', cue: i });
+    }
+    if (i > 0 && cue.start < document.cues[i - 1].start) {
+      errors.push({ message: 'Cue starts before the previous cue', cue: i });
+    }
+    if (format === 'srt' && cue.id !== String(i + 1)) {
+      errors.push({
+        message: `Expected cue number ${i + 1}, got ${cue.id === undefined ? 'none' : cue.id}`,
+        cue: i,
+      });
+    }
+  });
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Write cues as SRT or WebVTT. SRT cues are renumbered from 1; WebVTT cue
+ * identifiers are only written for documents parsed from WebVTT.
+ */
+export function formatSubtitles(document: SubtitleDocument, format: SubtitleFormat): string {
+  const blocks = document.cues.map((cue, i) => {
+    const timing = `${formatTime(cue.start, format)} --> ${formatTime(cue.end, format)}`;
+    if (format === 'srt') {
+      return `${i + 1}\n${timing}\n${cue.text}`;
+    }
+    const settings = cue.settings ? ` ${cue.settings}` : '';
+    const id = document.format === 'vtt' && cue.id ? `${cue.id}\n` : '';
+    return `${id}${timing}${settings}\n${cue.text}`;
+  });
+  if (format === 'vtt') {
+    blocks.unshift(document.format === 'vtt' && document.header ? document.header : 'WEBVTT');
+  }
+  return blocks.join('\n\n') + '\n';
+}
+
+/**
+ * Convert between SRT and WebVTT.
+ *
+ * @example
+ * ```typescript
+ * const vtt = convertSubtitles(srtContent, 'srt', 'vtt');
+ * ```
+ */
+export function convertSubtitles(
+  content: string,
+  from: SubtitleFormat,
+  to: SubtitleFormat
+): string {
+  return formatSubtitles(parseSubtitles(content, from), to);
+}
+
+/**
+ * Split a document into smaller documents on cue boundaries.
+ * Each chunk keeps the WebVTT header and holds at least one cue.
+ */
+export function chunkSubtitles(
+  document: SubtitleDocument,
+  options: ChunkSubtitlesOptions
+): SubtitleDocument[] {
+  const maxCues = options.maxCues || Infinity;
+  const maxChars = options.maxChars || Infinity;
+  const chunks: SubtitleDocument[] = [];
+  let current: SubtitleCue[] = [];
+  let chars = 0;
+
+  document.cues.forEach((cue) => {
+    if (current.length > 0 && (current.length >= maxCues || chars + cue.text.length > maxChars)) {
+      chunks.push({ ...document, cues: current });
+      current = [];
+      chars = 0;
+    }
+    current.push(cue);
+    chars += cue.text.length;
+  });
+  if (current.length > 0 || chunks.length === 0) {
+    chunks.push({ ...document, cues: current });
+  }
+  return chunks;
+}
+
+/**
+ * Put translated text back on the original cues, restoring their timing,
+ * identifiers and settings.
+ *
+ * @throws TranslatePlusValidationError if the cue counts differ
+ */
+export function retimeSubtitles(original: SubtitleCue[], translated: SubtitleCue[]): SubtitleCue[] {
+  if (original.length !== translated.length) {
+    throw new TranslatePlusValidationError(
+      `Translated subtitles have ${translated.length} cues, expected ${original.length}`
+    );
+  }
+  return original.map((cue, i) => ({ ...cue, text: translated[i].text }));
+}
+
+/**
+ * Re-wrap cue text to at most `maxCharsPerLine` characters per line.
+ * Dialogue lines starting with '-' stay on their own lines.
+ *
+ * @example
+ * ```typescript
+ * wrapSubtitleText('This sentence is far too long for a single line', 20);
+ * // 'This sentence is far\ntoo long for a\nsingle line'
+ * ```
+ */
+export function wrapSubtitleText(text: string, maxCharsPerLine: number): string {
+  const speakers: string[][] = [];
+  text.split('\n').forEach((line, i) => {
+    if (i === 0 || line.trimStart().startsWith('-')) {
+      speakers.push([]);
+    }
+    speakers[speakers.length - 1].push(line);
+  });
+
+  return speakers
+    .map((lines) => {
+      const wrapped: string[] = [];
+      let current = '';
+      lines
+        .join(' ')
+        .split(/\s+/)
+        .filter((word) => word !== '')
+        .forEach((word) => {
+          if (current === '') {
+            current = word;
+          } else if (current.length + 1 + word.length <= maxCharsPerLine) {
+            current += ` ${word}`;
+          } else {
+            wrapped.push(current);
+            current = word;
+          }
+        });
+      wrapped.push(current);
+      return wrapped.join('\n');
+    })
+    .join('\n');
+}
+
+/**
+ * Find cues that need to be read faster than `maxCharsPerSecond`.
+ *
+ * @param cues - Cues to check
+ * @param maxCharsPerSecond - Reading speed limit (default: 17, a common broadcast guideline)
+ */
+export function checkReadingSpeed(
+  cues: SubtitleCue[],
+  maxCharsPerSecond: number = 17
+): ReadingSpeedWarning[] {
+  const warnings: ReadingSpeedWarning[] = [];
+  cues.forEach((cue, index) => {
+    const chars = cue.text.replace(/<[^>]*>/g, '').replace(/\n/g, '').length;
+    const seconds = (cue.end - cue.start) / 1000;
+    const charsPerSecond = seconds > 0 ? chars / seconds : Infinity;
+    if (charsPerSecond > maxCharsPerSecond) {
+      warnings.push({
+        index,
+        id: cue.id,
+        start: cue.start,
+        end: cue.end,
+        charsPerSecond: Math.round(charsPerSecond * 10) / 10,
+      });
+    }
+  });
+  return warnings;
+}
+
+/**
+ * Throw a validation error listing every problem in a subtitle file.
+ */
+export function assertValidSubtitles(content: string, format: SubtitleFormat): void {
+  const { errors } = validateSubtitles(content, format);
+  if (errors.length > 0) {
+    const details = errors
+      .map((e) => (e.cue !== undefined ? `cue ${e.cue + 1}: ${e.message}` : e.message))
+      .join('; ');
+    throw new TranslatePlusValidationError(`Invalid subtitles: ${details}`);
+  }
+}
+
+/**
+ * Translate a subtitle file cue by cue: parse it, send it in chunks of whole cues,
+ * and put the translated text back on the original cues, so timing is never
+ * changed by the server. Applies the glossary, line wrapping, reading speed
+ * checks and bilingual output from the options.
+ *
+ * @param options - Subtitle translation options
+ * @param glossary - Glossary to apply, if any
+ * @param send - Translates one chunk of subtitle content
+ */
+export async function translateSubtitleCues(
+  options: TranslateSubtitleOptions,
+  glossary: Glossary | undefined,
+  send: (content: string) => Promise<TranslateSubtitleResponse>
+): Promise<TranslateSubtitleResponse> {
+  if (options.validate) {
+    assertValidSubtitles(options.content, options.format);
+  }
+
+  const document = parseSubtitles(options.content, options.format);
+  const masked = glossary
+    ? document.cues.map((cue) => maskTerms(cue.text, glossary, options.target))
+    : undefined;
+  const chunks = chunkSubtitles(
+    masked
+      ? { ...document, cues: document.cues.map((cue, i) => ({ ...cue, text: masked[i].text })) }
+      : document,
+    { maxCues: options.chunkSize }
+  );
+  const results = await Promise.all(
+    chunks.map((chunk) => send(formatSubtitles(chunk, options.format)))
+  );
+  const translated = results.reduce<SubtitleCue[]>(
+    (cues, result) => cues.concat(parseSubtitles(result.content, options.format).cues),
+    []
+  );
+
+  let cues = retimeSubtitles(document.cues, translated);
+  let glossaryWarnings: GlossaryWarning[] | undefined;
+  if (masked) {
+    const lost: GlossaryWarning[] = [];
+    cues = cues.map((cue, i) => {
+      const { text, warnings } = restoreTerms(cue.text, masked[i]);
+      warnings.forEach((warning) => lost.push({ ...warning, cue: i }));
+      return { ...cue, text };
+    });
+    glossaryWarnings = lost;
+  }
+  if (options.maxCharsPerLine !== undefined) {
+    const max = options.maxCharsPerLine;
+    cues = cues.map((cue) => ({ ...cue, text: wrapSubtitleText(cue.text, max) }));
+  }
+
+  const warnings =
+    options.maxCharsPerSecond !== undefined
+      ? checkReadingSpeed(cues, options.maxCharsPerSecond)
+      : undefined;
+  if (options.bilingual) {
+    cues = cues.map((cue, i) => ({ ...cue, text: `${document.cues[i].text}\n${cue.text}` }));
+  }
+
+  const response: TranslateSubtitleResponse = {
+    format: options.format,
+    content: formatSubtitles({ ...document, cues }, options.format),
+  };
+  if (warnings) {
+    response.readingSpeedWarnings = warnings;
+  }
+  if (glossaryWarnings) {
+    response.glossaryWarnings = glossaryWarnings;
+  }
+  return response;
+}
@@ -0,0 +1,11 @@
+/**
+ * Test helpers, kept out of the main entry so they don't ship in production bundles.
+ *
+ * Import from `translateplus-js/testing`.
+ */
+
+export { FakeTranslatePlusServer } from './mock-server';
+export type { MockServerOptions, MockFailure, MockRequest } from './mock-server';
+export { MockTranslatePlusClient } from './mock-client';
+export type { MockClientOptions } from './mock-client';
+export { Cassette } from './cassette';
@@ -0,0 +1,132 @@
+/**
+ * Node Transform stream that translates text line by line.
+ */
+
+import { Transform, TransformCallback } from 'stream';
+import type { TranslatePlusBaseClient } from './base-client';
+import { TranslatePlusError } from './exceptions';
+import type { TranslateStreamOptions } from './stream';
+import type { RequestOptions } from './types';
+
+/**
+ * Hands written chunks to the translation loop one at a time. A chunk's
+ * callback runs once the loop takes it, which gives the writable side
+ * backpressure while batches are pending.
+ */
+class ChunkQueue implements AsyncIterable<Uint8Array> {
+  private chunks: Array<{ chunk: Uint8Array; taken: () => void }> = [];
+  private ended = false;
+  private notify?: () => void;
+
+  push(chunk: Uint8Array, taken: () => void): void {
+    this.chunks.push({ chunk, taken });
+    this.wake();
+  }
+
+  end(): void {
+    this.ended = true;
+    this.wake();
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<Uint8Array> {
+    for (;;) {
+      const next = this.chunks.shift();
+      if (next) {
+        next.taken();
+        yield next.chunk;
+      } else if (this.ended) {
+        return;
+      } else {
+        await new Promise<void>((resolve) => (this.notify = resolve));
+      }
+    }
+  }
+
+  private wake(): void {
+    const notify = this.notify;
+    this.notify = undefined;
+    if (notify) {
+      notify();
+    }
+  }
+}
+
+/**
+ * Transform stream that translates each input line and writes it out in order,
+ * followed by '\n'. The stream errors if any line fails to translate.
+ *
+ * @example
+ * ```typescript
+ * import { pipeline } from 'stream/promises';
+ *
+ * await pipeline(
+ *   fs.createReadStream('chapter.txt'),
+ *   new TranslateTransform(client, { source: 'en', target: 'fr' }),
+ *   fs.createWriteStream('chapter.fr.txt')
+ * );
+ * ```
+ */
+export class TranslateTransform extends Transform {
+  private queue = new ChunkQueue();
+  private done?: Promise<void>;
+  /** Resumes the translation loop once the reader wants more output */
+  private onRead?: () => void;
+
+  constructor(
+    private client: TranslatePlusBaseClient,
+    private options: TranslateStreamOptions,
+    private requestOptions?: RequestOptions
+  ) {
+    super();
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    if (!this.done) {
+      this.done = this.run().catch((error: Error) => {
+        this.destroy(error);
+      });
+    }
+    this.queue.push(chunk, () => callback());
+  }
+
+  _flush(callback: TransformCallback): void {
+    this.queue.end();
+    (this.done || Promise.resolve()).then(() => callback());
+  }
+
+  _read(size: number): void {
+    super._read(size);
+    this.wake();
+  }
+
+  _destroy(error: Error | null, callback: (error?: Error | null) => void): void {
+    this.wake();
+    super._destroy(error, callback);
+  }
+
+  private async run(): Promise<void> {
+    const items = this.client.translateStream(this.queue, this.options, this.requestOptions);
+    let line = 0;
+    for await (const item of items) {
+      line++;
+      if (!item.success) {
+        throw new TranslatePlusError(`Line ${line}: ${item.error || 'Translation failed'}`);
+      }
+      if (!this.push(`${item.translation}\n`)) {
+        // The reader is behind: stop taking results, and so input, until it catches up
+        await new Promise<void>((resolve) => (this.onRead = resolve));
+      }
+      if (this.destroyed) {
+        return;
+      }
+    }
+  }
+
+  private wake(): void {
+    const onRead = this.onRead;
+    this.onRead = undefined;
+    if (onRead) {
+      onRead();
+    }
+  }
+}
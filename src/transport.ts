@@ -0,0 +1,175 @@
+/**
+ * HTTP transport for TranslatePlus client.
+ *
+ * The client core only talks to the network through a Transport, so the same
+ * code runs on Node.js, in browsers and on edge runtimes. `fetchTransport`
+ * uses the runtime's global fetch, FormData and Blob.
+ */
+
+import { TranslatePlusError } from './exceptions';
+
+export interface TransportRequest {
+  method?: string;
+  headers: { [key: string]: string };
+  /** JSON string or the transport's multipart body */
+  body?: unknown;
+  signal?: AbortSignal;
+}
+
+export interface TransportResponse {
+  status: number;
+  headers: { get(name: string): string | null };
+  json(): Promise<unknown>;
+  arrayBuffer(): Promise<ArrayBuffer>;
+}
+
+export type FetchFunction = (url: string, init: TransportRequest) => Promise<TransportResponse>;
+
+/** Uploaded file contents and the name they are sent under */
+export interface UploadFile {
+  data: Blob | Uint8Array;
+  filename: string;
+}
+
+export interface Transport {
+  fetch: FetchFunction;
+  /** Build a multipart body, and any headers it needs, from text fields and files */
+  createFormData(
+    fields: { [key: string]: string },
+    files: { [key: string]: UploadFile }
+  ): Promise<{ body: unknown; headers: { [key: string]: string } }>;
+  /** Wrap downloaded bytes in the runtime's binary type */
+  toBytes(data: ArrayBuffer): Uint8Array;
+}
+
+/**
+ * Decode file contents as UTF-8 text.
+ */
+export function readText(data: Blob | Uint8Array): Promise<string> {
+  return ArrayBuffer.isView(data) ? Promise.resolve(new TextDecoder().decode(data)) : data.text();
+}
+
+/**
+ * Build a response from raw bytes, for transports that don't hit the network.
+ */
+export function createResponse(
+  status: number,
+  headers: { [name: string]: string },
+  body: Uint8Array
+): TransportResponse {
+  const lowerCased = new Map(
+    Object.keys(headers).map((name) => [name.toLowerCase(), headers[name]])
+  );
+  return {
+    status,
+    headers: { get: (name) => lowerCased.get(name.toLowerCase()) || null },
+    json: async () => JSON.parse(new TextDecoder().decode(body)),
+    arrayBuffer: async () => body.slice().buffer,
+  };
+}
+
+/**
+ * Split a multipart body, as produced by the form-data package, into fields and a file.
+ */
+function parseMultipart(content: string, boundary: string): RequestBody {
+  const fields: { [key: string]: string } = {};
+  let file: RequestBody['file'];
+  for (const part of content.split(`--${boundary}`)) {
+    const match = /^\r\n([\s\S]*?)\r\n\r\n([\s\S]*)\r\n$/.exec(part);
+    const name = match && /name="([^"]*)"/.exec(match[1]);
+    if (!match || !name) {
+      continue;
+    }
+    const filename = /filename="([^"]*)"/.exec(match[1]);
+    if (filename) {
+      file = { filename: filename[1], content: match[2] };
+    } else {
+      fields[name[1]] = match[2];
+    }
+  }
+  return { body: fields, file };
+}
+
+/** Request body as data, with any uploaded file decoded as text */
+export interface RequestBody {
+  /** Parsed JSON body, or the text fields of a multipart upload */
+  body?: { [key: string]: unknown };
+  file?: { filename: string; content: string };
+}
+
+/** The methods of a form-data package instance used to read it back */
+interface NodeFormData {
+  getBuffer(): Uint8Array;
+  getBoundary(): string;
+}
+
+/** A value of a global FormData: a text field or a File */
+type FormDataValue = string | { name: string; text(): Promise<string> };
+
+/** The methods of a global FormData used to read it back */
+interface GlobalFormData {
+  forEach(callback: (value: FormDataValue, key: string) => void): void;
+}
+
+function hasMethod(value: unknown, name: string): boolean {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as { [key: string]: unknown })[name] === 'function'
+  );
+}
+
+/**
+ * Read back a request body built by the client: a JSON string, a form-data
+ * instance or a global FormData.
+ */
+export async function readRequestBody(body: unknown): Promise<RequestBody> {
+  if (typeof body === 'string') {
+    return { body: JSON.parse(body) };
+  }
+  if (hasMethod(body, 'getBuffer')) {
+    const form = body as NodeFormData;
+    return parseMultipart(new TextDecoder().decode(form.getBuffer()), form.getBoundary());
+  }
+  if (hasMethod(body, 'get') && hasMethod(body, 'forEach')) {
+    const fields: { [key: string]: unknown } = {};
+    const result: RequestBody = { body: fields };
+    const entries: Array<[string, FormDataValue]> = [];
+    (body as GlobalFormData).forEach((value, key) => entries.push([key, value]));
+    for (const [key, value] of entries) {
+      if (typeof value === 'string') {
+        fields[key] = value;
+      } else {
+        result.file = { filename: value.name, content: await value.text() };
+      }
+    }
+    return result;
+  }
+  return {};
+}
+
+/**
+ * Transport using the global fetch, FormData and Blob of browsers, Deno, Bun,
+ * Cloudflare Workers and Node.js 18+.
+ */
+export const fetchTransport: Transport = {
+  fetch: (url, init) => {
+    if (typeof globalThis.fetch !== 'function') {
+      throw new TranslatePlusError('No global fetch is available in this runtime');
+    }
+    return globalThis.fetch(url, init as RequestInit);
+  },
+
+  async createFormData(fields, files) {
+    const form = new FormData();
+    Object.keys(fields).forEach((key) => form.append(key, fields[key]));
+    Object.keys(files).forEach((key) => {
+      const { data, filename } = files[key];
+      form.append(key, ArrayBuffer.isView(data) ? new Blob([data]) : data, filename);
+    });
+    // fetch sets the multipart Content-Type, including the boundary
+    return { body: form, headers: {} };
+  },
+
+  toBytes: (data) => new Uint8Array(data),
+};
@@ -2,22 +2,43 @@
  * Type definitions for TranslatePlus API.
  */
 
+import type { LocaleFileFormat } from './formats/types';
+import type { ReadingSpeedWarning } from './subtitles';
+import type { Glossary, GlossaryWarning } from './glossary';
+import type { PlaceholderWarning } from './placeholders';
+
 export interface TranslateOptions {
   text: string;
   source?: string;
   target: string;
+  /** Glossary for this call, replacing the client's glossary */
+  glossary?: Glossary;
+  /**
+   * Shield `{{mustache}}`, ICU `{name}` and plural blocks, printf `%s`/`%1$d` and `<0>` tags
+   * from translation, and check the translation has the same placeholders
+   */
+  protectPlaceholders?: boolean;
 }
 
 export interface BatchTranslateOptions {
   texts: string[];
   source?: string;
   target: string;
+  /** Glossary for this call, replacing the client's glossary */
+  glossary?: Glossary;
+  /**
+   * Shield `{{mustache}}`, ICU `{name}` and plural blocks, printf `%s`/`%1$d` and `<0>` tags
+   * from translation, and check the translation has the same placeholders
+   */
+  protectPlaceholders?: boolean;
 }
 
 export interface TranslateHTMLOptions {
   html: string;
   source?: string;
   target: string;
+  /** Glossary for this call, replacing the client's glossary */
+  glossary?: Glossary;
 }
 
 export interface TranslateEmailOptions {
@@ -25,20 +46,117 @@ export interface TranslateEmailOptions {
   email_body: string;
   source?: string;
   target: string;
+  /** Glossary for this call, replacing the client's glossary */
+  glossary?: Glossary;
 }
 
+/**
+ * Options for the multi-target methods: the single-target options with `targets`
+ * instead of `target`.
+ */
+export type MultiTargetOptions<T extends { target: string }> = Omit<T, 'target'> & {
+  targets: string[];
+};
+
 export interface TranslateSubtitleOptions {
   content: string;
   format: 'srt' | 'vtt';
   source?: string;
   target: string;
+  /** Check timestamps, cue order and SRT numbering before uploading */
+  validate?: boolean;
+  /** Send at most this many cues per request; results are reassembled in order */
+  chunkSize?: number;
+  /** Re-wrap translated cue text to this many characters per line */
+  maxCharsPerLine?: number;
+  /** Report cues whose translated text must be read faster than this many characters per second */
+  maxCharsPerSecond?: number;
+  /** Keep the original text above the translation in each cue */
+  bilingual?: boolean;
+  /** Glossary for this call, replacing the client's glossary */
+  glossary?: Glossary;
+}
+
+export interface TranslateSubtitlesToManyOptions extends Omit<TranslateSubtitleOptions, 'target'> {
+  targets: string[];
 }
 
 export interface I18nJobOptions {
-  file_path: string;
+  /** File to upload (Node.js only); alternatively pass file and filename */
+  file_path?: string;
+  /** File contents to upload, e.g. a browser File or a Buffer */
+  file?: Blob | Uint8Array;
+  /** Name to upload file under; its extension tells the API the format */
+  filename?: string;
   target_languages: string[];
   source_language?: string;
   webhook_url?: string;
+  /** Parse the file locally before uploading it and reject malformed files */
+  validate?: boolean;
+  /** File format for validation (default: detected from the extension) */
+  format?: LocaleFileFormat;
+}
+
+/** Options accepted by each method `estimateCredits` can price */
+export interface CreditEstimateRequests {
+  translate: TranslateOptions;
+  translateBatch: BatchTranslateOptions;
+  translateHTML: TranslateHTMLOptions;
+  translateEmail: TranslateEmailOptions;
+  translateSubtitles: TranslateSubtitleOptions;
+  createI18nJob: I18nJobOptions;
+}
+
+export type LocaleValue = string | number | boolean | null | LocaleValue[] | LocaleData;
+
+export interface LocaleData {
+  [key: string]: LocaleValue;
+}
+
+export interface TranslateLocaleOptions {
+  /** Nested locale object, e.g. the parsed contents of en.json */
+  data: LocaleData;
+  target_languages: string[];
+  source_language?: string;
+}
+
+/**
+ * State of the last sync. Store it alongside the locale files, like a lockfile.
+ */
+export interface LocaleSnapshot {
+  /** Source strings as of the last sync, keyed by flattened key (e.g. 'home.items[0]') */
+  source: { [key: string]: string };
+  /** Keys per language that failed to translate; the next sync retries them for that language only */
+  pending?: { [language: string]: string[] };
+}
+
+export interface SyncLocaleOptions {
+  /** Current source locale object */
+  source: LocaleData;
+  /** Snapshot returned by the previous sync; omit on the first sync */
+  snapshot?: LocaleSnapshot;
+  /** Existing target locale objects keyed by language */
+  targets: Record<string, LocaleData>;
+  /** Languages to sync (default: the keys of targets) */
+  target_languages?: string[];
+  source_language?: string;
+}
+
+export interface WaitForI18nJobOptions {
+  /** Initial polling interval in ms (default: 1000) */
+  interval?: number;
+  /** Maximum polling interval in ms; the interval grows by 1.5x per poll (default: 10000) */
+  maxInterval?: number;
+  /** Give up after this many ms (default: wait indefinitely) */
+  timeout?: number;
+  /** Stops polling when aborted */
+  signal?: AbortSignal;
+  /** Called whenever the job's status or progress changes */
+  onProgress?: (status: I18nJobStatusResponse) => void;
+  /** Download every target language into this directory once the job completes */
+  downloadDir?: string;
+  /** File name for a downloaded language (default: `${language}.json`) */
+  fileName?: (language: string) => string;
 }
 
 export interface TranslateResponse {
@@ -49,6 +167,10 @@ export interface TranslateResponse {
     target: string;
   };
   details?: Record<string, any>;
+  /** Glossary terms lost in translation, when a glossary is used */
+  glossaryWarnings?: GlossaryWarning[];
+  /** Placeholder differences, when protectPlaceholders is set */
+  placeholderWarnings?: PlaceholderWarning[];
 }
 
 export interface BatchTranslateResponse {
@@ -59,6 +181,10 @@ export interface BatchTranslateResponse {
     target: string;
     success: boolean;
     error?: string;
+    /** Glossary terms lost in translation, when a glossary is used */
+    glossaryWarnings?: GlossaryWarning[];
+    /** Placeholder differences, when protectPlaceholders is set */
+    placeholderWarnings?: PlaceholderWarning[];
   }>;
   total: number;
   successful: number;
@@ -67,16 +193,31 @@ export interface BatchTranslateResponse {
 
 export interface TranslateHTMLResponse {
   html: string;
+  /** Glossary terms lost in translation, when a glossary is used */
+  glossaryWarnings?: GlossaryWarning[];
 }
 
 export interface TranslateEmailResponse {
   subject: string;
   html_body: string;
+  /** Glossary terms lost in translation, when a glossary is used */
+  glossaryWarnings?: GlossaryWarning[];
 }
 
 export interface TranslateSubtitleResponse {
   format: string;
   content: string;
+  /** Cues that are too fast to read, when maxCharsPerSecond is set */
+  readingSpeedWarnings?: ReadingSpeedWarning[];
+  /** Glossary terms lost in translation, with their cue index, when a glossary is used */
+  glossaryWarnings?: GlossaryWarning[];
+}
+
+export interface MultiTargetResponse<T> {
+  /** Result per target language that succeeded */
+  results: Record<string, T>;
+  /** Error per target language that failed */
+  errors: Record<string, Error>;
 }
 
 export interface DetectLanguageResponse {
@@ -122,3 +263,66 @@ export interface I18nJobListResponse {
   total_pages: number;
   results: I18nJobStatusResponse[];
 }
+
+/**
+ * Per-call options accepted by every client method.
+ */
+export interface RequestOptions {
+  /** Cancels the request, whether queued or in flight */
+  signal?: AbortSignal;
+  /** Timeout in ms for this call, overriding the client's timeout */
+  timeout?: number;
+  /** Maximum retries for this call, overriding the client's maxRetries */
+  maxRetries?: number;
+  /** Extra headers sent with this call */
+  headers?: Record<string, string>;
+  /** Queue priority; higher priorities are sent first (default: 0) */
+  priority?: number;
+}
+
+export interface TranslateLocaleResponse {
+  /** Translated locale object per target language, with the source structure */
+  translations: Record<string, LocaleData>;
+  /** Keys that could not be translated per language; these keep the source text */
+  failed: Record<string, Array<{ key: string; error: string }>>;
+}
+
+export interface TranslateLocaleFileOptions {
+  /** File content; alternatively pass file_path */
+  content?: string;
+  /** File to read when content is not given (Node.js only) */
+  file_path?: string;
+  /** File format (default: detected from file_path) */
+  format?: LocaleFileFormat;
+  target_languages: string[];
+  source_language?: string;
+}
+
+export interface TranslateLocaleFileResponse {
+  /** Translated file content per target language */
+  translations: Record<string, string>;
+  /** Units that could not be translated per language; these keep their previous text */
+  failed: Record<string, Array<{ key: string; error: string }>>;
+}
+
+export interface LocaleSyncReport {
+  /** Keys translated because they are new in the source or missing from the target */
+  added: string[];
+  /** Keys retranslated because their source text changed since the snapshot */
+  changed: string[];
+  /** Keys removed from the target because they are no longer in the source */
+  removed: string[];
+  /**
+   * Keys that could not be translated; these keep their previous value, or are left out
+   * if the target had none, and are retried by the next sync
+   */
+  failed: Array<{ key: string; error: string }>;
+}
+
+export interface SyncLocaleResponse {
+  /** Updated target locale objects, with the source structure */
+  translations: Record<string, LocaleData>;
+  /** Snapshot to store and pass to the next sync */
+  snapshot: LocaleSnapshot;
+  report: Record<string, LocaleSyncReport>;
+}
@@ -0,0 +1,265 @@
+/**
+ * Webhook receiver for i18n job callbacks.
+ */
+
+import { EventEmitter } from 'events';
+import * as crypto from 'crypto';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { I18nJobStatusResponse } from './types';
+import { TranslatePlusWebhookError } from './exceptions';
+
+const JOB_STATUSES = ['pending', 'processing', 'completed', 'failed'];
+
+export type I18nWebhookEvent = 'job' | I18nJobStatusResponse['status'];
+
+export interface I18nWebhookReceiverOptions {
+  /** Shared secret; when set, every payload must carry a valid HMAC-SHA256 signature */
+  secret?: string;
+  /** Header carrying the hex signature, optionally prefixed with 'sha256=' */
+  signatureHeader?: string;
+  /** Maximum accepted body size in bytes (default: 1 MB) */
+  maxBodySize?: number;
+}
+
+type Headers = { [key: string]: string | string[] | undefined };
+
+/** Minimal Express request/response shapes, so Express isn't a dependency. */
+interface ExpressLikeRequest {
+  headers: Headers;
+  body?: unknown;
+  rawBody?: string | Buffer;
+}
+
+interface ExpressLikeResponse {
+  status(code: number): ExpressLikeResponse;
+  json(body: unknown): unknown;
+}
+
+/** Minimal Fastify request/reply shapes, so Fastify isn't a dependency. */
+interface FastifyLikeRequest {
+  headers: Headers;
+  body?: unknown;
+  rawBody?: string | Buffer;
+}
+
+interface FastifyLikeReply {
+  code(statusCode: number): FastifyLikeReply;
+  send(payload?: unknown): unknown;
+}
+
+/**
+ * Receives i18n job webhook callbacks and emits them as typed events.
+ *
+ * Emits `job` for every valid payload, then an event named after the job status
+ * (`pending`, `processing`, `completed` or `failed`). Invalid payloads are
+ * rejected and emitted as `error` when an error listener is registered.
+ *
+ * @example
+ * ```typescript
+ * const receiver = new I18nWebhookReceiver({ secret: process.env.WEBHOOK_SECRET });
+ * receiver.on('completed', async (job) => {
+ *   for (const lang of job.target_languages) {
+ *     fs.writeFileSync(`locales/${lang}.json`, await client.downloadI18nFile(job.id, lang));
+ *   }
+ * });
+ *
+ * http.createServer(receiver.nodeHandler()).listen(3000);
+ * // or: app.post('/webhook', express.raw({ type: '*\/*' }), receiver.expressHandler());
+ * // or: fastify.post('/webhook', receiver.fastifyHandler());
+ * ```
+ */
+export class I18nWebhookReceiver extends EventEmitter {
+  private secret?: string;
+  private signatureHeader: string;
+  private maxBodySize: number;
+
+  constructor(options: I18nWebhookReceiverOptions = {}) {
+    super();
+    this.secret = options.secret;
+    this.signatureHeader = (options.signatureHeader || 'x-translateplus-signature').toLowerCase();
+    this.maxBodySize = options.maxBodySize || 1024 * 1024;
+  }
+
+  on(event: I18nWebhookEvent, listener: (job: I18nJobStatusResponse) => void): this;
+  on(event: 'error', listener: (error: TranslatePlusWebhookError) => void): this;
+  on(event: string, listener: (...args: never[]) => void): this {
+    return super.on(event, listener as (...args: unknown[]) => void);
+  }
+
+  /**
+   * Verify, parse and emit a webhook payload.
+   *
+   * @param body - Raw request body
+   * @param headers - Request headers (names are matched case-insensitively)
+   * @returns The parsed job status
+   * @throws TranslatePlusWebhookError if the signature or payload is invalid
+   */
+  handle(body: string | Buffer, headers: Headers = {}): I18nJobStatusResponse {
+    try {
+      this.verifySignature(body, headers);
+      const job = parseJobPayload(body);
+      this.emit('job', job);
+      this.emit(job.status, job);
+      return job;
+    } catch (error) {
+      if (error instanceof TranslatePlusWebhookError && this.listenerCount('error') > 0) {
+        this.emit('error', error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Create a handler for Node's `http.createServer`.
+   */
+  nodeHandler(): (req: IncomingMessage, res: ServerResponse) => void {
+    return (req, res) => {
+      const respond = (statusCode: number, payload: unknown) => {
+        res.statusCode = statusCode;
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(payload));
+      };
+
+      if (req.method !== 'POST') {
+        respond(405, { error: 'Method not allowed' });
+        return;
+      }
+
+      this.readBody(req).then(
+        (body) => {
+          try {
+            this.handle(body, req.headers);
+            respond(200, { received: true });
+          } catch (error) {
+            respond(statusCodeFor(error), { error: (error as Error).message });
+          }
+        },
+        (error) => respond(statusCodeFor(error), { error: error.message })
+      );
+    };
+  }
+
+  /**
+   * Create an Express route handler.
+   *
+   * Signature verification needs the raw body: mount it after `express.raw()`, or
+   * keep the raw body on `req.rawBody`. A body already parsed by `express.json()` is
+   * re-serialized, which only works without a secret.
+   */
+  expressHandler(): (req: ExpressLikeRequest, res: ExpressLikeResponse) => void {
+    return (req, res) => {
+      try {
+        this.handle(rawBodyOf(req), req.headers);
+        res.status(200).json({ received: true });
+      } catch (error) {
+        res.status(statusCodeFor(error)).json({ error: (error as Error).message });
+      }
+    };
+  }
+
+  /**
+   * Create a Fastify route handler.
+   *
+   * For signature verification, expose the raw body on `request.rawBody`
+   * (e.g. with the fastify-raw-body plugin).
+   */
+  fastifyHandler(): (request: FastifyLikeRequest, reply: FastifyLikeReply) => Promise<unknown> {
+    return async (request, reply) => {
+      try {
+        this.handle(rawBodyOf(request), request.headers);
+        return reply.code(200).send({ received: true });
+      } catch (error) {
+        return reply.code(statusCodeFor(error)).send({ error: (error as Error).message });
+      }
+    };
+  }
+
+  private verifySignature(body: string | Buffer, headers: Headers): void {
+    if (!this.secret) {
+      return;
+    }
+
+    const header = headerValue(headers, this.signatureHeader);
+    if (!header) {
+      throw new TranslatePlusWebhookError('Missing webhook signature', 401);
+    }
+
+    const signature = Buffer.from(header.replace(/^sha256=/, ''), 'hex');
+    const expected = crypto.createHmac('sha256', this.secret).update(body).digest();
+    if (signature.length !== expected.length || !crypto.timingSafeEqual(signature, expected)) {
+      throw new TranslatePlusWebhookError('Invalid webhook signature', 401);
+    }
+  }
+
+  private readBody(req: IncomingMessage): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > this.maxBodySize) {
+          reject(new TranslatePlusWebhookError('Webhook payload too large', 413));
+          req.destroy();
+          return;
+        }
+        chunks.push(chunk);
+      });
+      req.on('end', () => resolve(Buffer.concat(chunks)));
+      req.on('error', reject);
+    });
+  }
+}
+
+function headerValue(headers: Headers, name: string): string | undefined {
+  const key = Object.keys(headers).find((k) => k.toLowerCase() === name);
+  const value = key ? headers[key] : undefined;
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function rawBodyOf(req: { body?: unknown; rawBody?: string | Buffer }): string | Buffer {
+  if (req.rawBody !== undefined) {
+    return req.rawBody;
+  }
+  if (typeof req.body === 'string' || Buffer.isBuffer(req.body)) {
+    return req.body;
+  }
+  return JSON.stringify(req.body);
+}
+
+function statusCodeFor(error: unknown): number {
+  return error instanceof TranslatePlusWebhookError ? error.statusCode : 500;
+}
+
+/**
+ * Parse and validate a job status payload.
+ */
+function parseJobPayload(body: string | Buffer): I18nJobStatusResponse {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body.toString());
+  } catch {
+    throw new TranslatePlusWebhookError('Webhook payload is not valid JSON');
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new TranslatePlusWebhookError('Webhook payload must be a JSON object');
+  }
+  const payload = parsed as { [key: string]: unknown };
+  if (typeof payload.id !== 'string' || !payload.id) {
+    throw new TranslatePlusWebhookError('Webhook payload is missing the job id');
+  }
+  if (typeof payload.status !== 'string' || !JOB_STATUSES.includes(payload.status)) {
+    throw new TranslatePlusWebhookError(`Unknown job status: ${payload.status}`);
+  }
+  if (
+    !Array.isArray(payload.target_languages) ||
+    payload.target_languages.some((lang: unknown) => typeof lang !== 'string')
+  ) {
+    throw new TranslatePlusWebhookError('Webhook payload target_languages must be a string array');
+  }
+  if (payload.progress !== undefined && typeof payload.progress !== 'number') {
+    throw new TranslatePlusWebhookError('Webhook payload progress must be a number');
+  }
+
+  return payload as unknown as I18nJobStatusResponse;
+}
@@ -0,0 +1,88 @@
+/**
+ * Tests for the browser and edge-runtime client.
+ */
+
+import { TranslatePlusClient } from '../src/browser';
+import { TranslatePlusValidationError } from '../src/exceptions';
+
+describe('browser TranslatePlusClient', () => {
+  const originalFetch = globalThis.fetch;
+  let mockedFetch: jest.Mock;
+  let client: TranslatePlusClient;
+
+  function respond(status: number, body: string) {
+    return {
+      status,
+      json: async () => JSON.parse(body),
+      arrayBuffer: async () => new TextEncoder().encode(body).buffer,
+      headers: {
+        get: () => null,
+      },
+    };
+  }
+
+  beforeEach(() => {
+    mockedFetch = jest.fn();
+    globalThis.fetch = mockedFetch as any;
+    client = new TranslatePlusClient({ apiKey: 'test-api-key' });
+  });
+
+  afterAll(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it('should send requests through the global fetch', async () => {
+    mockedFetch.mockResolvedValueOnce(
+      respond(200, '{"translations":{"text":"Hi","translation":"Salut"}}')
+    );
+
+    const result = await client.translate({ text: 'Hi', target: 'fr' });
+
+    expect(result.translations.translation).toBe('Salut');
+    expect(mockedFetch.mock.calls[0][0]).toBe('https://api.translateplus.io/v2/translate');
+    expect(mockedFetch.mock.calls[0][1].headers['X-API-KEY']).toBe('test-api-key');
+  });
+
+  it('should upload file contents as multipart form data', async () => {
+    mockedFetch.mockResolvedValueOnce(respond(200, '{"job_id":"job-1","status":"pending"}'));
+
+    await client.createI18nJob({
+      file: new TextEncoder().encode('{"title":"Hello"}'),
+      filename: 'en.json',
+      target_languages: ['fr', 'de'],
+    });
+
+    const { body, headers } = mockedFetch.mock.calls[0][1];
+    expect(body).toBeInstanceOf(FormData);
+    expect(body.get('target_languages')).toBe('fr,de');
+    expect(body.get('file').name).toBe('en.json');
+    expect(await body.get('file').text()).toBe('{"title":"Hello"}');
+    expect(headers['Content-Type']).toBeUndefined();
+  });
+
+  it('should reject file paths and download directories', async () => {
+    await expect(
+      client.createI18nJob({ file_path: 'locales/en.json', target_languages: ['fr'] })
+    ).rejects.toThrow(TranslatePlusValidationError);
+    await expect(
+      client.createI18nJob({ file: new Uint8Array(), target_languages: ['fr'] })
+    ).rejects.toThrow('filename is required when passing file');
+
+    mockedFetch.mockResolvedValueOnce(
+      respond(200, '{"id":"job-1","status":"completed","target_languages":["fr"]}')
+    );
+    mockedFetch.mockResolvedValueOnce(respond(200, '{"title":"Bonjour"}'));
+    await expect(client.waitForI18nJob('job-1', { downloadDir: 'locales' })).rejects.toThrow(
+      'downloadDir is only supported on Node.js'
+    );
+  });
+
+  it('should download files as bytes', async () => {
+    mockedFetch.mockResolvedValueOnce(respond(200, '{"title":"Bonjour"}'));
+
+    const file = await client.downloadI18nFile('job-1', 'fr');
+
+    expect(file).toBeInstanceOf(Uint8Array);
+    expect(new TextDecoder().decode(file)).toBe('{"title":"Bonjour"}');
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Tests for translation caching.
+ */
+
+import fetch from 'node-fetch';
+import { MemoryCache } from '../src/cache';
+import { TranslatePlusClient } from '../src/client';
+
+const mockedFetch = fetch as jest.MockedFunction<typeof fetch>;
+
+function mockJsonResponse(data: any) {
+  mockedFetch.mockResolvedValueOnce({
+    status: 200,
+    json: async () => data,
+    headers: {
+      get: () => null,
+    },
+  } as any);
+}
+
+function batchItem(text: string) {
+  return { text, translation: `fr:${text}`, source: 'en', target: 'fr', success: true };
+}
+
+describe('MemoryCache', () => {
+  it('should evict the least recently used entry', () => {
+    const cache = new MemoryCache({ maxSize: 2 });
+    cache.set('a', '1');
+    cache.set('b', '2');
+    cache.get('a');
+    cache.set('c', '3');
+
+    expect(cache.get('a')).toBe('1');
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('c')).toBe('3');
+  });
+
+  it('should expire entries after the TTL', () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    const cache = new MemoryCache({ ttl: 500 });
+    cache.set('a', '1');
+
+    now.mockReturnValue(1499);
+    expect(cache.get('a')).toBe('1');
+    now.mockReturnValue(1500);
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.size).toBe(0);
+
+    now.mockRestore();
+  });
+});
+
+describe('TranslatePlusClient caching', () => {
+  let client: TranslatePlusClient;
+
+  beforeEach(() => {
+    client = new TranslatePlusClient({ apiKey: 'test-api-key', cache: new MemoryCache() });
+    mockedFetch.mockReset();
+  });
+
+  it('should serve repeated translations from the cache', async () => {
+    mockJsonResponse({
+      translations: { text: 'Hello', translation: 'Bonjour', source: 'en', target: 'fr' },
+    });
+
+    const first = await client.translate({ text: 'Hello', source: 'en', target: 'fr' });
+    const second = await client.translate({ text: 'Hello', source: 'en', target: 'fr' });
+
+    expect(mockedFetch).toHaveBeenCalledTimes(1);
+    expect(second.translations).toEqual(first.translations);
+    expect(client.getCacheStats()).toEqual({ hits: 1, misses: 1 });
+  });
+
+  it('should only send batch cache misses and keep order', async () => {
+    mockJsonResponse({
+      translations: { text: 'b', translation: 'fr:b', source: 'en', target: 'fr' },
+    });
+    await client.translate({ text: 'b', source: 'en', target: 'fr' });
+
+    mockJsonResponse({
+      translations: [batchItem('a'), batchItem('c')],
+      total: 2,
+      successful: 2,
+      failed: 0,
+    });
+    const result = await client.translateBatch({
+      texts: ['a', 'b', 'c'],
+      source: 'en',
+      target: 'fr',
+    });
+
+    const body = JSON.parse((mockedFetch.mock.calls[1] as any)[1].body);
+    expect(body.texts).toEqual(['a', 'c']);
+    expect(result.translations.map((t) => t.translation)).toEqual(['fr:a', 'fr:b', 'fr:c']);
+    expect(result).toMatchObject({ total: 3, successful: 3, failed: 0 });
+
+    // Batch results are cached for single translations too
+    const single = await client.translate({ text: 'c', source: 'en', target: 'fr' });
+    expect(single.translations.translation).toBe('fr:c');
+    expect(mockedFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not cache failed batch items', async () => {
+    mockJsonResponse({
+      translations: [{ ...batchItem('a'), success: false, translation: '', error: 'boom' }],
+      total: 1,
+      successful: 0,
+      failed: 1,
+    });
+    await client.translateBatch({ texts: ['a'], source: 'en', target: 'fr' });
+
+    mockJsonResponse({ translations: [batchItem('a')], total: 1, successful: 1, failed: 0 });
+    const result = await client.translateBatch({ texts: ['a'], source: 'en', target: 'fr' });
+
+    expect(mockedFetch).toHaveBeenCalledTimes(2);
+    expect(result.successful).toBe(1);
+  });
+
+  it('should cache HTML translation and language detection', async () => {
+    mockJsonResponse({ html: '<p>Bonjour</p>' });
+    mockJsonResponse({ language_detection: { language: 'fr', confidence: 0.99 } });
+
+    await client.translateHTML({ html: '<p>Hello</p>', source: 'en', target: 'fr' });
+    await client.detectLanguage('Bonjour');
+    const html = await client.translateHTML({ html: '<p>Hello</p>', source: 'en', target: 'fr' });
+    const detection = await client.detectLanguage('Bonjour');
+
+    expect(mockedFetch).toHaveBeenCalledTimes(2);
+    expect(html.html).toBe('<p>Bonjour</p>');
+    expect(detection.language_detection.language).toBe('fr');
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Tests for request recording and cassette replay.
+ */
+
+import * as fs from 'fs';
+import { TranslatePlusClient } from '../src/client';
+import { TranslatePlusClient as BrowserClient } from '../src/browser';
+import { Cassette } from '../src/cassette';
+import { FakeTranslatePlusServer } from '../src/mock-server';
+import { TranslatePlusCassetteError, TranslatePlusRateLimitError } from '../src/exceptions';
+
+// Uploads must reach the fake server as real multipart bodies
+jest.unmock('form-data');
+
+describe('cassettes', () => {
+  let server: FakeTranslatePlusServer;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    server = new FakeTranslatePlusServer({ apiKey: 'secret-key' });
+  });
+
+  async function record(): Promise<Cassette> {
+    const cassette = new Cassette();
+    const client = new TranslatePlusClient({
+      apiKey: 'secret-key',
+      fetch: server.fetch,
+      cassette: { mode: 'record', cassette },
+    });
+    await client.translate({ text: 'Hello', target: 'fr' });
+    await client.translate({ text: 'Hello', target: 'de' });
+    return cassette;
+  }
+
+  it('should record requests and responses with the API key redacted', async () => {
+    const cassette = await record();
+
+    expect(cassette.interactions).toHaveLength(2);
+    const [first] = cassette.interactions;
+    expect(first.request).toMatchObject({
+      method: 'POST',
+      endpoint: '/v2/translate',
+      query: {},
+      body: { text: 'Hello', source: 'auto', target: 'fr' },
+    });
+    expect(first.request.headers['X-API-KEY']).toBe('[REDACTED]');
+    expect(JSON.stringify(cassette)).not.toContain('secret-key');
+    expect(first.response.status).toBe(200);
+    expect(first.response.body.translations.translation).toBe('[fr] Hello');
+  });
+
+  it('should replay matching responses without the network', async () => {
+    const cassette = Cassette.parse(JSON.stringify(await record()));
+    const client = new BrowserClient({
+      apiKey: 'other-key',
+      cassette: { mode: 'replay', cassette },
+    });
+
+    const de = await client.translate({ text: 'Hello', target: 'de' });
+    const fr = await client.translate({ text: 'Hello', target: 'fr' });
+
+    expect(de.translations.translation).toBe('[de] Hello');
+    expect(fr.translations.translation).toBe('[fr] Hello');
+    expect(cassette.remaining).toBe(0);
+    expect(server.requests).toHaveLength(2);
+  });
+
+  it('should fail loudly on unmatched requests', async () => {
+    const cassette = await record();
+    const client = new TranslatePlusClient({
+      apiKey: 'secret-key',
+      maxRetries: 3,
+      cassette: { mode: 'replay', cassette },
+    });
+
+    const error = await client.translate({ text: 'Goodbye', target: 'fr' }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(TranslatePlusCassetteError);
+    expect(error.message).toContain('No cassette interaction matches POST /v2/translate');
+    expect(error.message).toContain('"text":"Goodbye"');
+    expect(error.request.headers['X-API-KEY']).toBe('[REDACTED]');
+  });
+
+  it('should only compare the configured fields', async () => {
+    const cassette = await record();
+    const client = new TranslatePlusClient({
+      apiKey: 'secret-key',
+      cassette: { mode: 'replay', cassette, match: ['method', 'endpoint'] },
+    });
+
+    const result = await client.translate({ text: 'Anything', target: 'it' });
+
+    expect(result.translations.translation).toBe('[fr] Hello');
+  });
+
+  it('should match query strings when asked', async () => {
+    const cassette = new Cassette();
+    const recorder = new TranslatePlusClient({
+      apiKey: 'secret-key',
+      fetch: server.fetch,
+      cassette: { mode: 'record', cassette },
+    });
+    await recorder.listI18nJobs(1, 10);
+
+    const client = new TranslatePlusClient({
+      apiKey: 'secret-key',
+      cassette: { mode: 'replay', cassette, match: ['method', 'endpoint', 'query'] },
+    });
+    await expect(client.listI18nJobs(2, 10)).rejects.toThrow(TranslatePlusCassetteError);
+    await expect(client.listI18nJobs(1, 10)).resolves.toMatchObject({ count: 0 });
+  });
+
+  it('should record uploads, downloads and error responses', async () => {
+    const cassette = new Cassette();
+    const recorder = new TranslatePlusClient({
+      apiKey: 'secret-key',
+      maxRetries: 0,
+      fetch: server.fetch,
+      cassette: { mode: 'record', cassette },
+    });
+    const { job_id } = await recorder.createI18nJob({
+      file: Buffer.from('{"title": "Hello"}'),
+      filename: 'en.json',
+      target_languages: ['fr'],
+    });
+    await recorder.waitForI18nJob(job_id, { interval: 1 });
+    await recorder.downloadI18nFile(job_id, 'fr');
+    server.fail({ status: 429, retryAfter: 3 });
+    await recorder.detectLanguage('Hi').catch(() => undefined);
+
+    expect(cassette.interactions[0].request.body).toEqual({
+      target_languages: 'fr',
+      source_language: 'auto',
+      file: { filename: 'en.json', content: '{"title": "Hello"}' },
+    });
+
+    const client = new TranslatePlusClient({
+      apiKey: 'secret-key',
+      maxRetries: 0,
+      cassette: { mode: 'replay', cassette },
+    });
+    await client.createI18nJob({
+      file: Buffer.from('{"title": "Hello"}'),
+      filename: 'en.json',
+      target_languages: ['fr'],
+    });
+    await client.waitForI18nJob(job_id, { interval: 1 });
+    const file = await client.downloadI18nFile(job_id, 'fr');
+    expect(file.toString()).toBe('{"title": "[fr] Hello"}');
+
+    const error = await client.detectLanguage('Hi').catch((e) => e);
+    expect(error).toBeInstanceOf(TranslatePlusRateLimitError);
+    expect(error.retryAfter).toBe(3000);
+  });
+
+  it('should save recordings to and load replays from a file', async () => {
+    const client = new TranslatePlusClient({
+      apiKey: 'secret-key',
+      fetch: server.fetch,
+      cassette: { mode: 'record', path: 'fixtures/translate.json' },
+    });
+    await client.translate({ text: 'Hello', target: 'fr' });
+
+    expect(fs.mkdirSync).toHaveBeenCalledWith('fixtures', { recursive: true });
+    const [file, data] = (fs.writeFileSync as jest.Mock).mock.calls[0];
+    expect(file).toMatch(/fixtures[\\/]translate\.json$/);
+    const saved = new TextDecoder().decode(data);
+    expect(saved).not.toContain('secret-key');
+
+    (fs.readFileSync as jest.Mock).mockReturnValueOnce(Buffer.from(saved));
+    const replay = new TranslatePlusClient({
+      apiKey: 'secret-key',
+      cassette: { mode: 'replay', path: 'fixtures/translate.json' },
+    });
+    const result = await replay.translate({ text: 'Hello', target: 'fr' });
+    expect(result.translations.translation).toBe('[fr] Hello');
+  });
+
+  it('should reject cassettes without a source', () => {
+    expect(
+      () => new TranslatePlusClient({ apiKey: 'secret-key', cassette: { mode: 'replay' } })
+    ).toThrow('Cassette requires a path or a cassette');
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Tests for the command-line interface.
+ */
+
+import * as fs from 'fs';
+import fetch from 'node-fetch';
+import { runCli, CliIO } from '../src/cli';
+
+const mockedFetch = fetch as jest.MockedFunction<typeof fetch>;
+const mockedExistsSync = fs.existsSync as jest.MockedFunction<typeof fs.existsSync>;
+const mockedReadFileSync = fs.readFileSync as jest.MockedFunction<typeof fs.readFileSync>;
+const mockedWriteFileSync = fs.writeFileSync as jest.MockedFunction<typeof fs.writeFileSync>;
+
+function mockJsonResponse(data: any, status: number = 200) {
+  mockedFetch.mockResolvedValueOnce({
+    status,
+    json: async () => data,
+    headers: {
+      get: () => null,
+    },
+  } as any);
+}
+
+function createIO(stdin: string = '', env: CliIO['env'] = {}) {
+  const io = {
+    out: '',
+    err: '',
+    stdout: (text: string) => {
+      io.out += text;
+    },
+    stderr: (text: string) => {
+      io.err += text;
+    },
+    readStdin: async () => stdin,
+    env: { TRANSLATEPLUS_API_KEY: 'env-key', ...env },
+  };
+  return io;
+}
+
+describe('CLI', () => {
+  beforeEach(() => {
+    mockedFetch.mockReset();
+    mockedExistsSync.mockReset();
+    mockedExistsSync.mockImplementation((p) => !String(p).endsWith('.translateplus.json'));
+    mockedReadFileSync.mockClear();
+    mockedWriteFileSync.mockClear();
+  });
+
+  it('should print usage without a command', async () => {
+    const io = createIO();
+    expect(await runCli([], io)).toBe(0);
+    expect(io.out).toContain('Usage: translateplus');
+  });
+
+  it('should translate text from arguments with the env API key', async () => {
+    mockJsonResponse({
+      translations: { text: 'Hello', translation: 'Bonjour', source: 'en', target: 'fr' },
+    });
+    const io = createIO();
+
+    expect(await runCli(['translate', 'Hello', '--to', 'fr', '-f', 'en'], io)).toBe(0);
+    expect(io.out).toBe('Bonjour\n');
+
+    const [url, init] = mockedFetch.mock.calls[0] as any;
+    expect(url).toBe('https://api.translateplus.io/v2/translate');
+    expect(init.headers['X-API-KEY']).toBe('env-key');
+    expect(JSON.parse(init.body)).toEqual({ text: 'Hello', source: 'en', target: 'fr' });
+  });
+
+  it('should read batch input from stdin and print JSON', async () => {
+    const response = {
+      translations: [
+        { text: 'Hello', translation: 'Hola', source: 'en', target: 'es', success: true },
+        { text: 'Bye', translation: 'Adiós', source: 'en', target: 'es', success: true },
+      ],
+      total: 2,
+      successful: 2,
+      failed: 0,
+    };
+    mockJsonResponse(response);
+    const io = createIO('Hello\nBye\n');
+
+    expect(await runCli(['batch', '--to=es', '--json'], io)).toBe(0);
+    expect(JSON.parse(io.out)).toEqual(response);
+    expect(JSON.parse((mockedFetch.mock.calls[0] as any)[1].body).texts).toEqual(['Hello', 'Bye']);
+  });
+
+  it('should exit non-zero and report failed batch items on stderr', async () => {
+    mockJsonResponse({
+      translations: [
+        { text: 'Hello', translation: 'Hola', source: 'en', target: 'es', success: true },
+        {
+          text: 'Bye',
+          translation: '',
+          source: 'en',
+          target: 'es',
+          success: false,
+          error: 'Too long',
+        },
+      ],
+      total: 2,
+      successful: 1,
+      failed: 1,
+    });
+    const io = createIO('Hello\nBye\n');
+
+    expect(await runCli(['batch', '--to=es'], io)).toBe(1);
+    expect(io.out).toBe('Hola\n[error] Too long\n');
+    expect(io.err).toBe('Error: Item 2 failed: Too long\n');
+  });
+
+  it('should exit non-zero when every batch item fails', async () => {
+    mockedExistsSync.mockReturnValue(true);
+    mockedReadFileSync.mockReturnValueOnce(JSON.stringify({ maxRetries: 0 }));
+    mockedFetch.mockRejectedValue(new Error('getaddrinfo ENOTFOUND api.translateplus.io'));
+    const io = createIO('Hello\nBye\n');
+
+    expect(await runCli(['batch', '--to=es', '--json', '--config', 'tp.json'], io)).toBe(1);
+    expect(JSON.parse(io.out).failed).toBe(2);
+    expect(io.err).toContain('Error: Item 1 failed: Network error: getaddrinfo ENOTFOUND');
+    expect(io.err).toContain('Error: Item 2 failed');
+  });
+
+  it('should read the API key from the config file', async () => {
+    mockedExistsSync.mockReturnValue(true);
+    mockedReadFileSync.mockReturnValueOnce(JSON.stringify({ apiKey: 'config-key' }));
+    mockJsonResponse({ language_detection: { language: 'fr', confidence: 0.98 } });
+    const io = createIO('', { TRANSLATEPLUS_API_KEY: undefined });
+
+    expect(await runCli(['detect', 'Bonjour', '--config', 'tp.json'], io)).toBe(0);
+    expect(io.out).toBe('fr (confidence: 0.98)\n');
+    expect((mockedFetch.mock.calls[0] as any)[1].headers['X-API-KEY']).toBe('config-key');
+  });
+
+  it('should write output to a file', async () => {
+    mockJsonResponse({ format: 'srt', content: '1\n00:00:01,000 --> 00:00:02,000\nBonjour\n' });
+    const io = createIO();
+
+    const code = await runCli(
+      ['subtitles', '-i', 'movie.srt', '-o', 'movie.fr.srt', '--to', 'fr'],
+      io
+    );
+
+    expect(code).toBe(0);
+    expect(JSON.parse((mockedFetch.mock.calls[0] as any)[1].body).format).toBe('srt');
+    expect(mockedWriteFileSync).toHaveBeenCalledWith(
+      'movie.fr.srt',
+      '1\n00:00:01,000 --> 00:00:02,000\nBonjour\n'
+    );
+    expect(io.out).toBe('');
+  });
+
+  it('should run i18n job subcommands', async () => {
+    mockJsonResponse({ job_id: 'job-1', status: 'pending' });
+    const io = createIO();
+
+    expect(await runCli(['i18n', 'create', 'en.json', '--to', 'fr,es'], io)).toBe(0);
+    expect(io.out).toBe('Job job-1 created (status: pending)\n');
+  });
+
+  it('should fail without an API key', async () => {
+    const io = createIO('', { TRANSLATEPLUS_API_KEY: undefined });
+    expect(await runCli(['languages'], io)).toBe(1);
+    expect(io.err).toContain('API key is required');
+    expect(mockedFetch).not.toHaveBeenCalled();
+  });
+
+  it('should report unknown commands', async () => {
+    const io = createIO();
+    expect(await runCli(['transmogrify'], io)).toBe(1);
+    expect(io.err).toContain('Unknown command: transmogrify');
+  });
+
+  it('should report unknown commands before a missing API key', async () => {
+    const io = createIO('', { TRANSLATEPLUS_API_KEY: undefined });
+    expect(await runCli(['bogus'], io)).toBe(1);
+    expect(io.err).toContain('Unknown command: bogus');
+    expect(io.err).not.toContain('API key is required');
+
+    const i18n = createIO('', { TRANSLATEPLUS_API_KEY: undefined });
+    expect(await runCli(['i18n', 'bogus'], i18n)).toBe(1);
+    expect(i18n.err).toContain('Unknown i18n command: bogus');
+  });
+
+  it('should reject page options that are not positive integers', async () => {
+    for (const value of ['abc', '0', '1.5']) {
+      const io = createIO();
+      expect(await runCli(['i18n', 'list', '--page', value], io)).toBe(1);
+      expect(io.err).toContain(`Option --page must be a positive integer, got '${value}'`);
+    }
+    const io = createIO();
+    expect(await runCli(['i18n', 'list', '--page-size', '-5'], io)).toBe(1);
+    expect(io.err).toContain('Option --page-size must be a positive integer');
+    expect(mockedFetch).not.toHaveBeenCalled();
+  });
+});
@@ -3,15 +3,20 @@
  */
 
 import {
+  TranslatePlusAPIError,
   TranslatePlusAuthenticationError,
   TranslatePlusRateLimitError,
   TranslatePlusInsufficientCreditsError,
   TranslatePlusValidationError,
+  TranslatePlusCancelledError,
+  TranslatePlusJobFailedError,
+  TranslatePlusJobTimeoutError,
 } from '../src/exceptions';
 
 // Import client - mocks are set up in setup.ts
 import { TranslatePlusClient } from '../src/client';
 import fetch from 'node-fetch';
+import * as fs from 'fs';
 
 const mockedFetch = fetch as jest.MockedFunction<typeof fetch>;
 
@@ -119,6 +124,77 @@ describe('TranslatePlusClient', () => {
     });
   });
 
+  describe('request options', () => {
+    const okResponse = {
+      status: 200,
+      json: async () => ({ language_detection: { language: 'fr', confidence: 0.9 } }),
+      headers: {
+        get: () => null,
+      },
+    };
+
+    function hangUntilAborted() {
+      mockedFetch.mockImplementationOnce(
+        (_url: any, init: any) =>
+          new Promise((_resolve, reject) => {
+            init.signal.addEventListener('abort', () => {
+              const error = new Error('The operation was aborted');
+              error.name = 'AbortError';
+              reject(error);
+            });
+          }) as any
+      );
+    }
+
+    it('should send extra headers', async () => {
+      mockedFetch.mockResolvedValueOnce(okResponse as any);
+
+      await client.detectLanguage('Bonjour', { headers: { 'X-Trace-Id': 'abc' } });
+
+      const init = (mockedFetch.mock.calls[0] as any)[1];
+      expect(init.headers['X-Trace-Id']).toBe('abc');
+      expect(init.headers['X-API-KEY']).toBe('test-api-key');
+    });
+
+    it('should cancel an in-flight request without retrying', async () => {
+      hangUntilAborted();
+      const controller = new AbortController();
+
+      const promise = client.detectLanguage('Bonjour', { signal: controller.signal });
+      await new Promise((resolve) => setImmediate(resolve));
+      controller.abort();
+
+      await expect(promise).rejects.toThrow(TranslatePlusCancelledError);
+      expect(mockedFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should cancel a queued request before it is sent', async () => {
+      const limited = new TranslatePlusClient({ apiKey: 'test-api-key', maxConcurrent: 1 });
+      hangUntilAborted();
+      const first = new AbortController();
+      const second = new AbortController();
+
+      const inFlight = limited.detectLanguage('a', { signal: first.signal });
+      const queued = limited.detectLanguage('b', { signal: second.signal });
+      await new Promise((resolve) => setImmediate(resolve));
+      second.abort();
+      first.abort();
+
+      await expect(queued).rejects.toThrow(TranslatePlusCancelledError);
+      await expect(inFlight).rejects.toThrow(TranslatePlusCancelledError);
+      expect(mockedFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should apply timeout and retry overrides', async () => {
+      hangUntilAborted();
+
+      await expect(
+        client.detectLanguage('Bonjour', { timeout: 10, maxRetries: 0 })
+      ).rejects.toThrow('Request timeout after 10ms');
+      expect(mockedFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('translateBatch', () => {
     it('should validate empty texts array', async () => {
       await expect(
@@ -134,6 +210,294 @@ describe('TranslatePlusClient', () => {
     });
   });
 
+  describe('translateBatchChunked', () => {
+    function mockBatchResponse(texts: string[]) {
+      mockedFetch.mockResolvedValueOnce({
+        status: 200,
+        json: async () => ({
+          translations: texts.map((text) => ({
+            text,
+            translation: `fr:${text}`,
+            source: 'en',
+            target: 'fr',
+            success: true,
+          })),
+          total: texts.length,
+          successful: texts.length,
+          failed: 0,
+        }),
+        headers: {
+          get: () => null,
+        },
+      } as any);
+    }
+
+    it('should split texts into chunks and merge results in order', async () => {
+      const texts = Array.from({ length: 250 }, (_, i) => `text ${i}`);
+      mockBatchResponse(texts.slice(0, 100));
+      mockBatchResponse(texts.slice(100, 200));
+      mockBatchResponse(texts.slice(200));
+
+      const result = await client.translateBatchChunked({ texts, source: 'en', target: 'fr' });
+
+      expect(mockedFetch).toHaveBeenCalledTimes(3);
+      expect(result.total).toBe(250);
+      expect(result.successful).toBe(250);
+      expect(result.failed).toBe(0);
+      expect(result.translations.map((t) => t.text)).toEqual(texts);
+    });
+
+    it('should report a failed chunk per item', async () => {
+      const texts = Array.from({ length: 150 }, (_, i) => `text ${i}`);
+      mockBatchResponse(texts.slice(0, 100));
+      mockedFetch.mockResolvedValueOnce({
+        status: 400,
+        json: async () => ({ detail: 'Text too long' }),
+        headers: {
+          get: () => null,
+        },
+      } as any);
+
+      const result = await client.translateBatchChunked({ texts, source: 'en', target: 'fr' });
+
+      expect(result.total).toBe(150);
+      expect(result.successful).toBe(100);
+      expect(result.failed).toBe(50);
+      expect(result.translations[120]).toMatchObject({
+        text: 'text 120',
+        success: false,
+        error: 'Text too long',
+      });
+    });
+
+    it('should reject when a chunk fails for the whole call', async () => {
+      const texts = Array.from({ length: 150 }, (_, i) => `text ${i}`);
+      mockBatchResponse(texts.slice(0, 100));
+      mockedFetch.mockResolvedValueOnce({
+        status: 402,
+        json: async () => ({ detail: 'Insufficient credits' }),
+        headers: {
+          get: () => null,
+        },
+      } as any);
+
+      await expect(
+        client.translateBatchChunked({ texts, source: 'en', target: 'fr' })
+      ).rejects.toThrow(TranslatePlusInsufficientCreditsError);
+    });
+
+    it('should reject when cancelled', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        client.translateBatchChunked(
+          { texts: ['Hello', 'World'], source: 'en', target: 'fr' },
+          { signal: controller.signal }
+        )
+      ).rejects.toThrow(TranslatePlusCancelledError);
+      expect(mockedFetch).not.toHaveBeenCalled();
+    });
+
+    it('should validate empty texts array', async () => {
+      await expect(
+        client.translateBatchChunked({ texts: [], source: 'en', target: 'fr' })
+      ).rejects.toThrow(TranslatePlusValidationError);
+    });
+  });
+
+  describe('multi-target methods', () => {
+    beforeEach(() => {
+      mockedFetch.mockReset();
+      mockedFetch.mockImplementation(async (_url: any, init: any) => {
+        const { text, target } = JSON.parse(init.body);
+        if (target === 'xx') {
+          return {
+            status: 400,
+            json: async () => ({ detail: 'Unsupported target language' }),
+            headers: {
+              get: () => null,
+            },
+          } as any;
+        }
+        return {
+          status: 200,
+          json: async () => ({
+            translations: { text, translation: `${target}:${text}`, source: 'en', target },
+          }),
+          headers: {
+            get: () => null,
+          },
+        } as any;
+      });
+    });
+
+    it('should translate into each target and key results by language', async () => {
+      const { results, errors } = await client.translateToMany({
+        text: 'Hello',
+        source: 'en',
+        targets: ['fr', 'de', 'fr'],
+      });
+
+      expect(mockedFetch).toHaveBeenCalledTimes(2);
+      expect(Object.keys(results)).toEqual(['fr', 'de']);
+      expect(results.de.translations.translation).toBe('de:Hello');
+      expect(errors).toEqual({});
+    });
+
+    it('should report per-language errors instead of rejecting', async () => {
+      const { results, errors } = await client.translateToMany({
+        text: 'Hello',
+        source: 'en',
+        targets: ['xx', 'fr'],
+      });
+
+      expect(Object.keys(results)).toEqual(['fr']);
+      expect(errors.xx).toBeInstanceOf(TranslatePlusAPIError);
+      expect(errors.xx.message).toBe('Unsupported target language');
+    });
+
+    it('should reject when cancelled', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        client.translateHTMLToMany(
+          { html: '<p>Hello</p>', targets: ['fr', 'de'] },
+          { signal: controller.signal }
+        )
+      ).rejects.toThrow(TranslatePlusCancelledError);
+    });
+
+    it('should validate targets', async () => {
+      await expect(
+        client.translateEmailToMany({ subject: 'Hi', email_body: '<p>Hi</p>', targets: [] })
+      ).rejects.toThrow('At least one target language is required');
+    });
+  });
+
+  describe('waitForI18nJob', () => {
+    function mockJobStatus(status: string, progress?: number, error?: string) {
+      mockedFetch.mockResolvedValueOnce({
+        status: 200,
+        json: async () => ({
+          id: 'job-1',
+          status,
+          progress,
+          error,
+          source_language: 'en',
+          target_languages: ['fr', 'es'],
+          created_at: '2026-01-01T00:00:00Z',
+          updated_at: '2026-01-01T00:00:00Z',
+        }),
+        headers: {
+          get: () => null,
+        },
+      } as any);
+    }
+
+    it('should poll until completed and report progress changes', async () => {
+      mockJobStatus('pending', 0);
+      mockJobStatus('processing', 50);
+      mockJobStatus('processing', 50);
+      mockJobStatus('completed', 100);
+      const progress: Array<number | undefined> = [];
+
+      const result = await client.waitForI18nJob('job-1', {
+        interval: 1,
+        onProgress: (status) => progress.push(status.progress),
+      });
+
+      expect(result.status).toBe('completed');
+      expect(mockedFetch).toHaveBeenCalledTimes(4);
+      expect(progress).toEqual([0, 50, 100]);
+    });
+
+    it('should throw with the job error when the job fails', async () => {
+      mockJobStatus('failed', 10, 'Invalid JSON file');
+
+      const error = await client.waitForI18nJob('job-1', { interval: 1 }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(TranslatePlusJobFailedError);
+      expect(error.message).toBe('Invalid JSON file');
+      expect(error.job.id).toBe('job-1');
+    });
+
+    it('should time out while the job is still running', async () => {
+      mockedFetch.mockResolvedValue({
+        status: 200,
+        json: async () => ({ id: 'job-1', status: 'processing', target_languages: [] }),
+        headers: {
+          get: () => null,
+        },
+      } as any);
+
+      await expect(
+        client.waitForI18nJob('job-1', { interval: 5, timeout: 20 })
+      ).rejects.toThrow(TranslatePlusJobTimeoutError);
+      mockedFetch.mockReset();
+    });
+
+    it('should download every target language once completed', async () => {
+      mockJobStatus('completed', 100);
+      ['fr', 'es'].forEach((lang) => {
+        mockedFetch.mockResolvedValueOnce({
+          status: 200,
+          arrayBuffer: async () => Buffer.from(`{"lang":"${lang}"}`),
+          headers: {
+            get: () => null,
+          },
+        } as any);
+      });
+
+      await client.waitForI18nJob('job-1', { downloadDir: 'locales' });
+
+      expect(fs.mkdirSync).toHaveBeenCalledWith('locales', { recursive: true });
+      expect(fs.writeFileSync).toHaveBeenCalledWith(
+        'locales/fr.json',
+        Buffer.from('{"lang":"fr"}')
+      );
+      expect(fs.writeFileSync).toHaveBeenCalledWith(
+        'locales/es.json',
+        Buffer.from('{"lang":"es"}')
+      );
+    });
+  });
+
+  describe('downloadI18nFile', () => {
+    it('should respect maxConcurrent when downloading many languages', async () => {
+      const limited = new TranslatePlusClient({ apiKey: 'test-api-key', maxConcurrent: 2 });
+      const languages = ['fr', 'es', 'de', 'it', 'ja'];
+      let active = 0;
+      let maxActive = 0;
+      (fs.writeFileSync as jest.Mock).mockClear();
+      mockedFetch.mockImplementation(async (url: any) => {
+        if (!String(url).includes('/download/')) {
+          return {
+            status: 200,
+            json: async () => ({ id: 'job-1', status: 'completed', target_languages: languages }),
+            headers: { get: () => null },
+          } as any;
+        }
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        active--;
+        return {
+          status: 200,
+          arrayBuffer: async () => Buffer.from('{}'),
+          headers: { get: () => null },
+        } as any;
+      });
+
+      await limited.waitForI18nJob('job-1', { downloadDir: 'locales' });
+
+      expect(fs.writeFileSync).toHaveBeenCalledTimes(languages.length);
+      expect(maxActive).toBe(2);
+      mockedFetch.mockReset();
+    });
+  });
+
   describe('translateSubtitles', () => {
     it('should validate format', async () => {
       await expect(
@@ -0,0 +1,202 @@
+/**
+ * Tests for credit estimation and the budget guard.
+ */
+
+import fetch from 'node-fetch';
+import * as fs from 'fs';
+import { TranslatePlusClient } from '../src/client';
+import { countCredits, estimateRequestCredits } from '../src/credits';
+import { TranslatePlusBudgetExceededError, TranslatePlusCancelledError } from '../src/exceptions';
+
+const mockedFetch = fetch as jest.MockedFunction<typeof fetch>;
+
+describe('estimateRequestCredits', () => {
+  it('should count characters of text and batch requests', () => {
+    expect(countCredits('héllo 👋')).toBe(7);
+    expect(estimateRequestCredits('/v2/translate', { text: 'Hello', target: 'fr' })).toBe(5);
+    expect(
+      estimateRequestCredits('/v2/translate/batch', { texts: ['Hello', 'Bye'], target: 'fr' })
+    ).toBe(8);
+  });
+
+  it('should ignore markup in HTML and email bodies', () => {
+    expect(estimateRequestCredits('/v2/translate/html', { html: '<p>Hi <b>there</b></p>' })).toBe(
+      8
+    );
+    expect(
+      estimateRequestCredits('/v2/translate/email', { subject: 'Hi', email_body: '<p>Thanks</p>' })
+    ).toBe(8);
+  });
+
+  it('should only count subtitle cue text', () => {
+    const content =
+      '1\n00:00:01,000 --> 00:00:02,000\nHello\n\n2\n00:00:03,000 --> 00:00:04,000\nBye\n';
+    expect(estimateRequestCredits('/v2/translate/subtitles', { content, format: 'srt' })).toBe(8);
+  });
+
+  it('should charge i18n files once per target language', () => {
+    const file = { filename: 'en.json', content: '{"title": "Hello", "nav": {"home": "Home"}}' };
+    expect(estimateRequestCredits('/v2/i18n/jobs', { target_languages: 'fr,de' }, file)).toBe(18);
+    expect(estimateRequestCredits('/v2/i18n/jobs', { target_languages: ['fr'] }, file)).toBe(9);
+  });
+
+  it('should not charge other requests', () => {
+    expect(estimateRequestCredits('/v2/language/detect', { text: 'Hello' })).toBe(0);
+    expect(estimateRequestCredits('/v2/user/account', undefined)).toBe(0);
+  });
+});
+
+describe('TranslatePlusClient credit budget', () => {
+  const mockedReadFileSync = fs.readFileSync as jest.MockedFunction<typeof fs.readFileSync>;
+
+  function respond(data: unknown) {
+    return {
+      status: 200,
+      json: async () => data,
+      headers: {
+        get: () => null,
+      },
+    } as any;
+  }
+
+  beforeEach(() => {
+    mockedFetch.mockReset();
+    mockedFetch.mockImplementation(async (url: any, init: any) => {
+      if (url.endsWith('/v2/user/account')) {
+        return respond({
+          credits_remaining: 12,
+          total_credits: 100,
+          plan_name: 'free',
+          concurrency_limit: 2,
+        });
+      }
+      const body = JSON.parse(init.body);
+      return respond({
+        translations: { text: body.text, translation: body.text, source: 'en', target: 'fr' },
+      });
+    });
+  });
+
+  it('should track estimated credits spent per client', async () => {
+    const client = new TranslatePlusClient({ apiKey: 'test-api-key' });
+
+    await client.translate({ text: 'Hello', target: 'fr' });
+    await client.translate({ text: 'World!', target: 'fr' });
+    await client.getAccountSummary();
+
+    expect(client.getCreditUsage()).toEqual({ spent: 11, pending: 0, requests: 2 });
+  });
+
+  it('should refuse requests over the credit cap before sending them', async () => {
+    const client = new TranslatePlusClient({ apiKey: 'test-api-key', budget: { maxCredits: 8 } });
+
+    await client.translate({ text: 'Hello', target: 'fr' });
+    const error = await client.translate({ text: 'World', target: 'fr' }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(TranslatePlusBudgetExceededError);
+    expect(error.estimatedCredits).toBe(5);
+    expect(error.availableCredits).toBe(3);
+    expect(mockedFetch).toHaveBeenCalledTimes(1);
+    expect(client.getCreditUsage()).toEqual({ spent: 5, pending: 0, requests: 1 });
+  });
+
+  it('should count in-flight requests against the budget', async () => {
+    const client = new TranslatePlusClient({ apiKey: 'test-api-key', budget: { maxCredits: 8 } });
+
+    const results = await Promise.allSettled([
+      client.translate({ text: 'Hello', target: 'fr' }),
+      client.translate({ text: 'World', target: 'fr' }),
+    ]);
+
+    expect(results.map((r) => r.status)).toEqual(['fulfilled', 'rejected']);
+  });
+
+  it('should check the cached account balance', async () => {
+    const client = new TranslatePlusClient({
+      apiKey: 'test-api-key',
+      budget: { checkAccountCredits: true },
+    });
+
+    await client.translate({ text: 'Hello', target: 'fr' });
+    await client.translate({ text: 'World', target: 'fr' });
+    await expect(client.translate({ text: 'Again', target: 'fr' })).rejects.toThrow(
+      'Request needs about 5 credits but the account has only 2 left'
+    );
+
+    const accountCalls = mockedFetch.mock.calls.filter(([url]) =>
+      String(url).endsWith('/v2/user/account')
+    );
+    expect(accountCalls).toHaveLength(1);
+  });
+
+  it('should not fail other callers when the one that started the balance check aborts', async () => {
+    mockedFetch.mockImplementation(async (url: any, init: any) => {
+      if (url.endsWith('/v2/user/account')) {
+        await new Promise((resolve, reject) => {
+          setTimeout(resolve, 20);
+          init.signal.addEventListener('abort', () =>
+            reject(Object.assign(new Error('aborted'), { name: 'AbortError' }))
+          );
+        });
+        return respond({ credits_remaining: 12, total_credits: 100, plan_name: 'free' });
+      }
+      const body = JSON.parse(init.body);
+      return respond({
+        translations: { text: body.text, translation: body.text, source: 'en', target: 'fr' },
+      });
+    });
+    const client = new TranslatePlusClient({
+      apiKey: 'test-api-key',
+      budget: { checkAccountCredits: true },
+    });
+    const controller = new AbortController();
+
+    const first = client.translate({ text: 'Hello', target: 'fr' }, { signal: controller.signal });
+    const second = client.translate({ text: 'World', target: 'fr' });
+    setTimeout(() => controller.abort(), 5);
+
+    await expect(first).rejects.toBeInstanceOf(TranslatePlusCancelledError);
+    expect((await second).translations.translation).toBe('World');
+  });
+
+  it('should estimate a call without sending it', () => {
+    const client = new TranslatePlusClient({ apiKey: 'test-api-key' });
+    mockedReadFileSync.mockReturnValueOnce(Buffer.from('{"title": "Hello"}'));
+
+    expect(client.estimateCredits('translateBatch', { texts: ['a', 'bc'], target: 'fr' })).toBe(3);
+    expect(
+      client.estimateCredits('createI18nJob', {
+        file_path: 'en.json',
+        target_languages: ['fr', 'de', 'es'],
+      })
+    ).toBe(15);
+    expect(mockedFetch).not.toHaveBeenCalled();
+  });
+
+  it('should estimate uploads of any kind asynchronously', async () => {
+    const client = new TranslatePlusClient({ apiKey: 'test-api-key' });
+    const blob = new Blob(['{"title": "Hi"}']);
+
+    expect(
+      await client.estimateUploadCredits({
+        file: blob,
+        filename: 'en.json',
+        target_languages: ['fr', 'de'],
+      })
+    ).toBe(4);
+    expect(() =>
+      client.estimateCredits('createI18nJob', {
+        file: blob,
+        filename: 'en.json',
+        target_languages: ['fr'],
+      })
+    ).toThrow('use estimateUploadCredits instead');
+    expect(
+      client.estimateCredits('createI18nJob', {
+        file: new TextEncoder().encode('{"title": "Hi"}'),
+        filename: 'en.json',
+        target_languages: ['fr'],
+      })
+    ).toBe(2);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Tests for error types and the request context they carry.
+ */
+
+import { MockTranslatePlusClient } from '../src/mock-client';
+import { TranslatePlusClient } from '../src/client';
+import {
+  TranslatePlusAPIError,
+  TranslatePlusError,
+  TranslatePlusNetworkError,
+  TranslatePlusNotFoundError,
+  TranslatePlusRateLimitError,
+  TranslatePlusRequestValidationError,
+  TranslatePlusServerError,
+  TranslatePlusTimeoutError,
+} from '../src/exceptions';
+import { createResponse } from '../src/transport';
+
+describe('error types', () => {
+  let client: MockTranslatePlusClient;
+
+  beforeEach(() => {
+    client = new MockTranslatePlusClient();
+  });
+
+  it('should raise timeout and network errors with their cause', async () => {
+    client.server.fail({ timeout: true }).fail({ networkError: true });
+
+    const timeout = await client.detectLanguage('Hi', { timeout: 10 }).catch((e) => e);
+    expect(timeout).toBeInstanceOf(TranslatePlusTimeoutError);
+    expect(timeout).toBeInstanceOf(TranslatePlusAPIError);
+    expect(timeout.timeout).toBe(10);
+    expect(timeout.cause.name).toBe('AbortError');
+
+    const network = await client.detectLanguage('Hi').catch((e) => e);
+    expect(network).toBeInstanceOf(TranslatePlusNetworkError);
+    expect(network.statusCode).toBeUndefined();
+    expect(network.cause).toBeInstanceOf(TypeError);
+  });
+
+  it('should map status codes to error types', async () => {
+    client.server
+      .fail({ status: 503 })
+      .fail({ status: 400, detail: 'Unsupported target language' })
+      .fail({ status: 418 });
+
+    await expect(client.translate({ text: 'Hi', target: 'fr' })).rejects.toBeInstanceOf(
+      TranslatePlusServerError
+    );
+    await expect(client.translate({ text: 'Hi', target: 'fr' })).rejects.toBeInstanceOf(
+      TranslatePlusRequestValidationError
+    );
+    const teapot = await client.translate({ text: 'Hi', target: 'fr' }).catch((e) => e);
+    expect(teapot.constructor).toBe(TranslatePlusAPIError);
+
+    const missing = await client.getI18nJobStatus('job-404').catch((e) => e);
+    expect(missing).toBeInstanceOf(TranslatePlusNotFoundError);
+    expect(missing.message).toBe('Job job-404 not found');
+  });
+
+  it('should carry the request context', async () => {
+    const retrying = new MockTranslatePlusClient({
+      maxRetries: 2,
+      retryPolicy: { baseDelay: 1, maxDelay: 10 },
+    });
+    retrying.server.fail({ endpoint: '/v2/translate/batch', status: 429, retryAfter: 0, times: 3 });
+
+    const error = await retrying.translateBatch({ texts: ['Hi'], target: 'fr' }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(TranslatePlusRateLimitError);
+    expect(error).toMatchObject({
+      statusCode: 429,
+      method: 'POST',
+      endpoint: '/v2/translate/batch',
+      attempt: 3,
+      requestId: 'req-3',
+      retryAfter: 0,
+    });
+  });
+
+  it('should report field errors from server-side validation', async () => {
+    const validating = new TranslatePlusClient({
+      apiKey: 'test-api-key',
+      fetch: async () =>
+        createResponse(
+          422,
+          { 'Content-Type': 'application/json' },
+          new TextEncoder().encode(
+            JSON.stringify({
+              detail: [
+                { loc: ['body', 'target'], msg: 'unsupported language', type: 'value_error' },
+                { loc: ['body', 'texts', 2], msg: 'text too long', type: 'value_error' },
+              ],
+            })
+          )
+        ),
+    });
+
+    const error = await validating.translate({ text: 'Hi', target: 'xx' }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(TranslatePlusRequestValidationError);
+    expect(error.message).toBe(
+      'Invalid request: target: unsupported language; texts.2: text too long'
+    );
+    expect(error.fields).toEqual([
+      { field: 'target', message: 'unsupported language' },
+      { field: 'texts.2', message: 'text too long' },
+    ]);
+  });
+
+  it('should serialize for logging', async () => {
+    client.server.fail({ networkError: true });
+    const error = await client.detectLanguage('Hi').catch((e) => e);
+
+    const json = JSON.parse(JSON.stringify(error));
+
+    expect(json).toEqual({
+      name: 'TranslatePlusNetworkError',
+      message: 'Network error: fetch failed',
+      cause: { name: 'TypeError', message: 'fetch failed' },
+      method: 'POST',
+      endpoint: '/v2/language/detect',
+      attempt: 1,
+    });
+    expect(JSON.stringify(error)).not.toContain('test-api-key');
+  });
+
+  it('should serialize every TranslatePlusError', () => {
+    const error = new TranslatePlusError('Something went wrong');
+    error.cause = new TranslatePlusAPIError('Inner', 500);
+
+    expect(error.toJSON()).toEqual({
+      name: 'TranslatePlusError',
+      message: 'Something went wrong',
+      cause: {
+        name: 'TranslatePlusAPIError',
+        message: 'Inner',
+        statusCode: 500,
+        response: undefined,
+        cause: undefined,
+      },
+    });
+  });
+});
@@ -0,0 +1,544 @@
+/**
+ * Tests for i18n file format parsers and serializers.
+ */
+
+import {
+  detectLocaleFormat,
+  parseLocaleFile,
+  serializeLocaleFile,
+  validateLocaleFile,
+  LocaleFileFormat,
+} from '../src/formats';
+import * as fs from 'fs';
+import fetch from 'node-fetch';
+import { TranslatePlusClient } from '../src/client';
+import { TranslatePlusFormatError } from '../src/exceptions';
+
+const mockedFetch = fetch as jest.MockedFunction<typeof fetch>;
+const mockedReadFileSync = fs.readFileSync as jest.MockedFunction<typeof fs.readFileSync>;
+
+function units(content: string, format: LocaleFileFormat) {
+  return parseLocaleFile(content, format).units.map(({ key, source }) => ({ key, source }));
+}
+
+/** Translate every unit by upper-casing it, keeping everything else intact. */
+function upperCase(content: string, format: LocaleFileFormat): string {
+  const file = parseLocaleFile(content, format);
+  const translations: { [key: string]: string } = {};
+  file.units.forEach((unit) => {
+    translations[unit.key] = unit.source.toUpperCase();
+  });
+  return serializeLocaleFile(file, translations);
+}
+
+describe('detectLocaleFormat', () => {
+  it('should detect formats from file extensions', () => {
+    expect(detectLocaleFormat('locales/en.json')).toBe('json');
+    expect(detectLocaleFormat('config/locales/en.yml')).toBe('yaml');
+    expect(detectLocaleFormat('messages.pot')).toBe('po');
+    expect(detectLocaleFormat('app.XLF')).toBe('xliff');
+    expect(detectLocaleFormat('res/values/strings.xml')).toBe('android');
+    expect(detectLocaleFormat('en.lproj/Localizable.strings')).toBe('strings');
+    expect(detectLocaleFormat('en.lproj/Localizable.stringsdict')).toBe('stringsdict');
+    expect(detectLocaleFormat('messages_en.properties')).toBe('properties');
+    expect(detectLocaleFormat('notes.txt')).toBeUndefined();
+  });
+});
+
+describe('round-tripping', () => {
+  const samples: Array<[LocaleFileFormat, string]> = [
+    ['json', '{\n  "a": "x",\n  "b": { "c": "\\u00e9t\\u00e9" }, "n": 1\n}\n'],
+    ['yaml', 'en:\n  # comment\n  a: x   # trailing\n  b: "y"\n'],
+    ['po', '# header\nmsgid ""\nmsgstr ""\n"Language: fr\\n"\n\nmsgid "a"\nmsgstr ""\n'],
+    ['properties', '# comment\r\na = x\r\nb:y \\\r\n  z\r\n'],
+  ];
+
+  it.each(samples)(
+    'should reproduce %s files exactly when nothing is translated',
+    (format, content) => {
+      const file = parseLocaleFile(content, format);
+      expect(serializeLocaleFile(file, {})).toBe(content);
+    }
+  );
+});
+
+describe('json', () => {
+  const content =
+    '{\n  "title": "Hello",\n  "nav": {"home": "Home", "items": ["A", 2]},\n  "flat.key": "Flat"\n}\n';
+
+  it('should extract nested and flat keys', () => {
+    expect(units(content, 'json')).toEqual([
+      { key: 'title', source: 'Hello' },
+      { key: 'nav.home', source: 'Home' },
+      { key: 'nav.items[0]', source: 'A' },
+      { key: 'flat.key', source: 'Flat' },
+    ]);
+  });
+
+  it('should only rewrite translated values', () => {
+    const file = parseLocaleFile(content, 'json');
+    expect(serializeLocaleFile(file, { 'nav.home': 'Accueil "maison"' })).toBe(
+      '{\n  "title": "Hello",\n  "nav": {"home": "Accueil \\"maison\\"", "items": ["A", 2]},\n  "flat.key": "Flat"\n}\n'
+    );
+  });
+
+  it('should report syntax errors with a line number', () => {
+    expect(() => parseLocaleFile('{\n  "a": "x",\n  "b" "y"\n}', 'json')).toThrow(
+      "Expected ':' (line 3)"
+    );
+    expect(() => parseLocaleFile('{"a": "x", "a": "y"}', 'json')).toThrow('Duplicate key: a');
+  });
+
+  it('should reject flat and nested keys that flatten to the same key', () => {
+    expect(() => parseLocaleFile('{"a.b": "x",\n"a": {"b": "y"}}', 'json')).toThrow(
+      'Duplicate key: a.b (line 2)'
+    );
+    expect(() => parseLocaleFile('{"a": ["x"], "a[0]": "y"}', 'json')).toThrow(
+      'Duplicate key: a[0]'
+    );
+  });
+});
+
+describe('yaml', () => {
+  const content = [
+    'en:',
+    '  title: Hello world # greeting',
+    "  quote: 'It''s here'",
+    '  escaped: "Line\\nbreak"',
+    '  count: 3',
+    '  enabled: true',
+    '  list:',
+    '  - First',
+    '  - Second',
+    '  items:',
+    '    - name: Apple',
+    '      label: Fruit',
+    '  body: |',
+    '    Line one',
+    '    Line two',
+    '  folded: >-',
+    '    Folded',
+    '    text',
+    '',
+    '    Next',
+    '  empty:',
+    'done: Yes done',
+    '',
+  ].join('\n');
+
+  it('should extract string scalars and skip other types', () => {
+    expect(units(content, 'yaml')).toEqual([
+      { key: 'en.title', source: 'Hello world' },
+      { key: 'en.quote', source: "It's here" },
+      { key: 'en.escaped', source: 'Line\nbreak' },
+      { key: 'en.list[0]', source: 'First' },
+      { key: 'en.list[1]', source: 'Second' },
+      { key: 'en.items[0].name', source: 'Apple' },
+      { key: 'en.items[0].label', source: 'Fruit' },
+      { key: 'en.body', source: 'Line one\nLine two\n' },
+      { key: 'en.folded', source: 'Folded text\nNext' },
+      { key: 'done', source: 'Yes done' },
+    ]);
+  });
+
+  it('should write translations in the original quoting style', () => {
+    expect(upperCase(content, 'yaml')).toBe(
+      [
+        'en:',
+        '  title: HELLO WORLD # greeting',
+        "  quote: 'IT''S HERE'",
+        '  escaped: "LINE\\nBREAK"',
+        '  count: 3',
+        '  enabled: true',
+        '  list:',
+        '  - FIRST',
+        '  - SECOND',
+        '  items:',
+        '    - name: APPLE',
+        '      label: FRUIT',
+        '  body: |',
+        '    LINE ONE',
+        '    LINE TWO',
+        '  folded: >-',
+        '    FOLDED TEXT',
+        '',
+        '    NEXT',
+        '  empty:',
+        'done: YES DONE',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should quote plain values that would change meaning', () => {
+    const file = parseLocaleFile('a: x\nb: y\n', 'yaml');
+    expect(serializeLocaleFile(file, { a: 'Note: this', b: 'true' })).toBe(
+      "a: 'Note: this'\nb: 'true'\n"
+    );
+  });
+
+  it('should reject bad indentation and unsupported constructs', () => {
+    expect(() => parseLocaleFile('a:\n  b: x\n c: y\n', 'yaml')).toThrow(
+      'Bad indentation (line 3)'
+    );
+    expect(() => parseLocaleFile('a: "open\n  quote"\n', 'yaml')).toThrow(TranslatePlusFormatError);
+    expect(() => parseLocaleFile('a: x\na: y\n', 'yaml')).toThrow('Duplicate key: a');
+    expect(() => parseLocaleFile('"a.b": x\na:\n  b: y\n', 'yaml')).toThrow('Duplicate key: a.b');
+  });
+});
+
+describe('po', () => {
+  const content = [
+    'msgid ""',
+    'msgstr ""',
+    '"Content-Type: text/plain; charset=UTF-8\\n"',
+    '',
+    '#. Shown on the home page',
+    '#: src/home.ts:12',
+    'msgid "Welcome"',
+    'msgstr ""',
+    '',
+    'msgctxt "menu"',
+    'msgid "Open"',
+    'msgstr "Ouvrir"',
+    '',
+    'msgid "One file"',
+    'msgid_plural "%d files"',
+    'msgstr[0] ""',
+    'msgstr[1] ""',
+    '',
+    '#~ msgid "Old"',
+    '#~ msgstr "Vieux"',
+    '',
+  ].join('\n');
+
+  it('should extract entries with context, plurals and notes', () => {
+    const file = parseLocaleFile(content, 'po');
+    expect(
+      file.units.map(({ key, source, target, note }) => ({ key, source, target, note }))
+    ).toEqual([
+      { key: 'Welcome', source: 'Welcome', target: '', note: 'Shown on the home page' },
+      { key: 'menu\u0004Open', source: 'Open', target: 'Ouvrir', note: undefined },
+      { key: 'One file[0]', source: 'One file', target: '', note: undefined },
+      { key: 'One file[1]', source: '%d files', target: '', note: undefined },
+    ]);
+  });
+
+  it('should fill msgstr and keep everything else', () => {
+    const file = parseLocaleFile(content, 'po');
+    const result = serializeLocaleFile(file, {
+      Welcome: 'Bienvenue\nà tous',
+      'One file[0]': 'Un fichier',
+      'One file[1]': '%d fichiers',
+    });
+    expect(result).toBe(
+      content
+        .replace(
+          'msgid "Welcome"\nmsgstr ""',
+          'msgid "Welcome"\nmsgstr ""\n"Bienvenue\\n"\n"à tous"'
+        )
+        .replace('msgstr[0] ""', 'msgstr[0] "Un fichier"')
+        .replace('msgstr[1] ""', 'msgstr[1] "%d fichiers"')
+    );
+  });
+
+  it('should join multi-line strings', () => {
+    const file = parseLocaleFile('msgid ""\n"Hello "\n"world"\nmsgstr ""\n', 'po');
+    expect(file.units[0].source).toBe('Hello world');
+  });
+
+  it('should report malformed entries', () => {
+    expect(() => parseLocaleFile('msgid "a"\n\nmsgid "b"\nmsgstr ""\n', 'po')).toThrow(
+      'msgid without msgstr (line 1)'
+    );
+    expect(() => parseLocaleFile('msgid "a\nmsgstr ""\n', 'po')).toThrow(
+      'Expected a quoted string'
+    );
+  });
+});
+
+describe('xliff', () => {
+  it('should handle XLIFF 1.2 and insert missing targets', () => {
+    const content = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<xliff version="1.2"><file source-language="en" target-language="fr"><body>',
+      '  <trans-unit id="greeting">',
+      '    <source>Hello &amp; welcome</source>',
+      '    <note>Home page</note>',
+      '  </trans-unit>',
+      '  <trans-unit id="bold"><source>Click <g id="1">here</g></source><target/></trans-unit>',
+      '  <trans-unit id="done"><source>Done</source><target>Fait</target></trans-unit>',
+      '  <trans-unit id="skip" translate="no"><source>Brand</source></trans-unit>',
+      '</body></file></xliff>',
+    ].join('\n');
+
+    const file = parseLocaleFile(content, 'xliff');
+    expect(
+      file.units.map(({ key, source, target, markup }) => ({ key, source, target, markup }))
+    ).toEqual([
+      { key: 'greeting', source: 'Hello & welcome', target: undefined, markup: undefined },
+      { key: 'bold', source: 'Click <g id="1">here</g>', target: '', markup: true },
+      { key: 'done', source: 'Done', target: 'Fait', markup: undefined },
+    ]);
+    expect(file.units[0].note).toBe('Home page');
+
+    const result = serializeLocaleFile(file, {
+      greeting: 'Bonjour & bienvenue',
+      bold: 'Cliquez <g id="1">ici</g>',
+    });
+    expect(result).toContain(
+      '    <source>Hello &amp; welcome</source>\n    <target>Bonjour &amp; bienvenue</target>\n    <note>'
+    );
+    expect(result).toContain('<target>Cliquez <g id="1">ici</g></target>');
+    expect(result).toContain('<target>Fait</target>');
+  });
+
+  it('should handle XLIFF 2.0 segments', () => {
+    const content = [
+      '<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0" srcLang="en">',
+      '<file id="f1">',
+      '<unit id="u1"><segment><source>One</source></segment></unit>',
+      '<unit id="u2"><segment id="s1"><source>Two</source><target>Deux</target></segment>',
+      '<segment id="s2"><source>Three</source></segment></unit>',
+      '</file></xliff>',
+    ].join('\n');
+
+    expect(units(content, 'xliff')).toEqual([
+      { key: 'u1', source: 'One' },
+      { key: 'u2#s1', source: 'Two' },
+      { key: 'u2#s2', source: 'Three' },
+    ]);
+    const result = upperCase(content, 'xliff');
+    expect(result).toContain('<source>One</source><target>ONE</target>');
+    expect(result).toContain('<target>TWO</target>');
+  });
+
+  it('should report mismatched tags', () => {
+    expect(() =>
+      parseLocaleFile('<xliff version="1.2">\n<file>\n</body></xliff>', 'xliff')
+    ).toThrow('Unexpected </body> (line 3)');
+  });
+});
+
+describe('android', () => {
+  const content = [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<resources>',
+    '    <!-- App name -->',
+    '    <string name="app_name" translatable="false">MyApp</string>',
+    '    <string name="welcome">Don\\\'t stop &amp; go</string>',
+    '    <string name="spaced">"  Keep  spaces "</string>',
+    '    <string name="styled">Hello <b>world</b></string>',
+    '    <string-array name="days"><item>Mon</item><item>Tue</item></string-array>',
+    '    <plurals name="files">',
+    '        <item quantity="one">%d file</item>',
+    '        <item quantity="other">%d files</item>',
+    '    </plurals>',
+    '</resources>',
+    '',
+  ].join('\n');
+
+  it('should extract strings, arrays and plurals', () => {
+    expect(units(content, 'android')).toEqual([
+      { key: 'welcome', source: "Don't stop & go" },
+      { key: 'spaced', source: '  Keep  spaces ' },
+      { key: 'styled', source: 'Hello <b>world</b>' },
+      { key: 'days[0]', source: 'Mon' },
+      { key: 'days[1]', source: 'Tue' },
+      { key: 'files[one]', source: '%d file' },
+      { key: 'files[other]', source: '%d files' },
+    ]);
+  });
+
+  it('should escape translations for Android', () => {
+    const file = parseLocaleFile(content, 'android');
+    const result = serializeLocaleFile(file, {
+      welcome: 'N\'arrête pas & "va"',
+      spaced: "  L'espace ",
+      'files[other]': '@%d fichiers',
+    });
+    expect(result).toContain('<string name="welcome">N\\\'arrête pas &amp; \\"va\\"</string>');
+    expect(result).toContain('<string name="spaced">"  L\'espace "</string>');
+    expect(result).toContain('<item quantity="other">\\@%d fichiers</item>');
+    expect(result).toContain('<string name="app_name" translatable="false">MyApp</string>');
+  });
+});
+
+describe('strings', () => {
+  const content = [
+    '/* Greeting on the home screen */',
+    '"greeting" = "Hello \\"friend\\"";',
+    '',
+    '// Button',
+    'ok_button = "OK";',
+    '',
+  ].join('\n');
+
+  it('should extract keys, values and comments', () => {
+    const file = parseLocaleFile(content, 'strings');
+    expect(file.units.map(({ key, source, note }) => ({ key, source, note }))).toEqual([
+      { key: 'greeting', source: 'Hello "friend"', note: 'Greeting on the home screen' },
+      { key: 'ok_button', source: 'OK', note: 'Button' },
+    ]);
+  });
+
+  it('should write escaped values', () => {
+    expect(upperCase(content, 'strings')).toBe(
+      content.replace('Hello \\"friend\\"', 'HELLO \\"FRIEND\\"')
+    );
+  });
+
+  it('should report a missing semicolon', () => {
+    expect(() => parseLocaleFile('"a" = "b"\n"c" = "d";', 'strings')).toThrow(
+      "Expected ';' (line 2)"
+    );
+  });
+});
+
+describe('stringsdict', () => {
+  const content = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">
+<dict>
+  <key>files_left</key>
+  <dict>
+    <key>NSStringLocalizedFormatKey</key>
+    <string>%#@files@ left</string>
+    <key>files</key>
+    <dict>
+      <key>NSStringFormatSpecTypeKey</key>
+      <string>NSStringPluralRuleType</string>
+      <key>NSStringFormatValueTypeKey</key>
+      <string>d</string>
+      <key>one</key>
+      <string>%d file</string>
+      <key>other</key>
+      <string>%d files</string>
+    </dict>
+  </dict>
+</dict>
+</plist>
+`;
+
+  it('should extract plural rule strings', () => {
+    expect(units(content, 'stringsdict')).toEqual([
+      { key: 'files_left.NSStringLocalizedFormatKey', source: '%#@files@ left' },
+      { key: 'files_left.files.one', source: '%d file' },
+      { key: 'files_left.files.other', source: '%d files' },
+    ]);
+    const result = serializeLocaleFile(parseLocaleFile(content, 'stringsdict'), {
+      'files_left.files.one': '%d fichier <restant>',
+    });
+    expect(result).toBe(content.replace('%d file<', '%d fichier &lt;restant&gt;<'));
+  });
+});
+
+describe('properties', () => {
+  const content = [
+    '# Messages',
+    'greeting = Hello',
+    'farewell:Goodbye \\',
+    '    and thanks',
+    'path\\ key = C:\\\\temp',
+    'accent=caf\\u00e9',
+    '',
+  ].join('\n');
+
+  it('should extract keys, continuations and escapes', () => {
+    expect(units(content, 'properties')).toEqual([
+      { key: 'greeting', source: 'Hello' },
+      { key: 'farewell', source: 'Goodbye and thanks' },
+      { key: 'path key', source: 'C:\\temp' },
+      { key: 'accent', source: 'café' },
+    ]);
+  });
+
+  it('should escape non-ASCII characters when the file already does', () => {
+    const file = parseLocaleFile(content, 'properties');
+    expect(serializeLocaleFile(file, { farewell: 'Au revoir, à bientôt' })).toBe(
+      content.replace('Goodbye \\\n    and thanks', 'Au revoir, \\u00e0 bient\\u00f4t')
+    );
+  });
+});
+
+describe('validateLocaleFile', () => {
+  it('should return errors instead of throwing', () => {
+    expect(validateLocaleFile('{"a": "b"}', 'json')).toEqual({ valid: true, errors: [] });
+    expect(validateLocaleFile('<resources>\n<string name="a">x</resources>', 'android')).toEqual({
+      valid: false,
+      errors: [{ message: 'Unexpected </resources> (line 2)', line: 2 }],
+    });
+  });
+});
+
+describe('TranslatePlusClient locale files', () => {
+  let client: TranslatePlusClient;
+
+  beforeEach(() => {
+    client = new TranslatePlusClient({ apiKey: 'test-api-key' });
+    mockedFetch.mockReset();
+  });
+
+  it('should translate a file and keep its layout', async () => {
+    mockedFetch.mockImplementation(async (url: any, init: any) => {
+      const body = JSON.parse(init.body);
+      const data = String(url).endsWith('/v2/translate/html')
+        ? { html: body.html.replace('here', 'ici') }
+        : {
+            translations: body.texts.map((text: string) => ({
+              text,
+              translation: `[${body.target}] ${text}`,
+              source: 'en',
+              target: body.target,
+              success: true,
+            })),
+            total: body.texts.length,
+            successful: body.texts.length,
+            failed: 0,
+          };
+      return { status: 200, json: async () => data, headers: { get: () => null } } as any;
+    });
+
+    const content = [
+      '<resources>',
+      '  <!-- Greeting -->',
+      '  <string name="hello">Hello {name}</string>',
+      '  <string name="link">Tap <b>here</b></string>',
+      '</resources>',
+      '',
+    ].join('\n');
+    const result = await client.translateLocaleFile({
+      content,
+      format: 'android',
+      target_languages: ['fr'],
+    });
+
+    expect(result.translations.fr).toBe(
+      content
+        .replace('>Hello {name}<', '>[fr] Hello {name}<')
+        .replace('Tap <b>here</b>', 'Tap <b>ici</b>')
+    );
+    expect(result.failed.fr).toEqual([]);
+    const sent = JSON.parse((mockedFetch.mock.calls[0] as any)[1].body);
+    expect(sent.texts).toEqual(['Hello __TP0__']);
+  });
+
+  it('should require a format when it cannot be detected', async () => {
+    await expect(
+      client.translateLocaleFile({ content: 'a=b', target_languages: ['fr'] })
+    ).rejects.toThrow('format is required when passing content');
+  });
+
+  it('should validate files before creating a job when asked', async () => {
+    mockedReadFileSync.mockReturnValueOnce(Buffer.from('{\n  "title": "Hello",\n}'));
+
+    await expect(
+      client.createI18nJob({
+        file_path: 'locales/en.json',
+        target_languages: ['fr'],
+        validate: true,
+      })
+    ).rejects.toThrow(TranslatePlusFormatError);
+    expect(mockedFetch).not.toHaveBeenCalled();
+  });
+});
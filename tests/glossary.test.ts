@@ -0,0 +1,175 @@
+/**
+ * Tests for glossary term protection.
+ */
+
+import fetch from 'node-fetch';
+import { TranslatePlusClient } from '../src/client';
+import { maskTerms, restoreTerms } from '../src/glossary';
+
+const mockedFetch = fetch as jest.MockedFunction<typeof fetch>;
+
+const glossary = {
+  doNotTranslate: ['Acme', 'Acme Cloud', 'SKU-42'],
+  terms: { dashboard: { fr: 'tableau de bord' }, invoice: 'INV' },
+};
+
+describe('maskTerms', () => {
+  it('should mask whole-word terms, longest first', () => {
+    const masked = maskTerms('Acme Cloud and Acme, not Acmes or SKU-42x', glossary, 'fr');
+
+    expect(masked.text).toBe('__TPG0__ and __TPG1__, not Acmes or SKU-42x');
+    expect(masked.terms).toEqual([
+      { term: 'Acme Cloud', replacement: 'Acme Cloud' },
+      { term: 'Acme', replacement: 'Acme' },
+    ]);
+  });
+
+  it('should only force translations defined for the target language', () => {
+    expect(maskTerms('Open the dashboard', glossary, 'fr').terms).toEqual([
+      { term: 'dashboard', replacement: 'tableau de bord' },
+    ]);
+    expect(maskTerms('Open the dashboard', glossary, 'de').terms).toEqual([]);
+    expect(maskTerms('Your invoice', glossary, 'de').terms).toEqual([
+      { term: 'invoice', replacement: 'INV' },
+    ]);
+  });
+
+  it('should match case-insensitively when asked', () => {
+    const masked = maskTerms('Use ACME', { doNotTranslate: ['acme'], ignoreCase: true }, 'fr');
+    expect(masked).toEqual({
+      text: 'Use __TPG0__',
+      terms: [{ term: 'ACME', replacement: 'ACME' }],
+    });
+  });
+
+  it('should leave HTML tags alone', () => {
+    const masked = maskTerms('<a class="Acme">Acme</a>', glossary, 'fr', { html: true });
+    expect(masked.text).toBe('<a class="Acme">__TPG0__</a>');
+  });
+
+  it('should restore terms and report lost markers', () => {
+    const masked = maskTerms('Acme dashboard', glossary, 'fr');
+
+    expect(restoreTerms('Le __TPG1__ d’__TPG0__', masked)).toEqual({
+      text: 'Le tableau de bord d’Acme',
+      warnings: [],
+    });
+    expect(restoreTerms('Le __TPG1__', masked).warnings).toEqual([
+      { term: 'Acme', expected: 'Acme' },
+    ]);
+  });
+});
+
+describe('TranslatePlusClient with a glossary', () => {
+  let client: TranslatePlusClient;
+
+  function respond(data: unknown) {
+    return {
+      status: 200,
+      json: async () => data,
+      headers: {
+        get: () => null,
+      },
+    } as any;
+  }
+
+  beforeEach(() => {
+    client = new TranslatePlusClient({ apiKey: 'test-api-key', glossary });
+    mockedFetch.mockReset();
+    // Echo the text back, dropping the second marker to simulate a mangled term
+    const translate = (text: string) => `fr[${text.replace('__TPG1__', '')}]`;
+    mockedFetch.mockImplementation(async (url: any, init: any) => {
+      const body = JSON.parse(init.body);
+      if (url.endsWith('/v2/translate')) {
+        return respond({
+          translations: {
+            text: body.text,
+            translation: translate(body.text),
+            source: 'en',
+            target: 'fr',
+          },
+        });
+      }
+      if (url.endsWith('/v2/translate/batch')) {
+        return respond({
+          translations: body.texts.map((text: string) => ({
+            text,
+            translation: translate(text),
+            source: 'en',
+            target: 'fr',
+            success: true,
+          })),
+          total: body.texts.length,
+          successful: body.texts.length,
+          failed: 0,
+        });
+      }
+      if (url.endsWith('/v2/translate/html')) {
+        return respond({ html: translate(body.html) });
+      }
+      if (url.endsWith('/v2/translate/email')) {
+        return respond({ subject: translate(body.subject), html_body: translate(body.email_body) });
+      }
+      return respond({ format: body.format, content: body.content.replace(/Hello/g, 'Bonjour') });
+    });
+  });
+
+  it('should protect terms in text translation', async () => {
+    const result = await client.translate({ text: 'Acme dashboard', target: 'fr' });
+
+    expect(JSON.parse((mockedFetch.mock.calls[0][1] as any).body).text).toBe('__TPG0__ __TPG1__');
+    expect(result.translations.text).toBe('Acme dashboard');
+    expect(result.translations.translation).toBe('fr[Acme ]');
+    expect(result.glossaryWarnings).toEqual([{ term: 'dashboard', expected: 'tableau de bord' }]);
+  });
+
+  it('should report mismatches per batch item', async () => {
+    const result = await client.translateBatch({
+      texts: ['Buy SKU-42', 'Acme Cloud and Acme'],
+      target: 'fr',
+    });
+
+    expect(result.translations.map((t) => t.translation)).toEqual([
+      'fr[Buy SKU-42]',
+      'fr[Acme Cloud and ]',
+    ]);
+    expect(result.translations[0].glossaryWarnings).toEqual([]);
+    expect(result.translations[1].glossaryWarnings).toEqual([{ term: 'Acme', expected: 'Acme' }]);
+  });
+
+  it('should protect terms in HTML and email without touching tags', async () => {
+    const html = await client.translateHTML({ html: '<b class="Acme">Acme</b>', target: 'fr' });
+    expect(html.html).toBe('fr[<b class="Acme">Acme</b>]');
+
+    const email = await client.translateEmail({
+      subject: 'Your invoice',
+      email_body: '<p>Acme</p>',
+      target: 'fr',
+    });
+    expect(email.subject).toBe('fr[Your INV]');
+    expect(email.html_body).toBe('fr[<p>Acme</p>]');
+    expect(email.glossaryWarnings).toEqual([]);
+  });
+
+  it('should protect terms in subtitle cues', async () => {
+    const result = await client.translateSubtitles({
+      content: '1\n00:00:01,000 --> 00:00:02,000\nHello from Acme\n',
+      format: 'srt',
+      target: 'fr',
+    });
+
+    expect(result.content).toBe('1\n00:00:01,000 --> 00:00:02,000\nBonjour from Acme\n');
+    expect(result.glossaryWarnings).toEqual([]);
+  });
+
+  it('should let a call replace the client glossary', async () => {
+    const result = await client.translate({
+      text: 'Acme dashboard',
+      target: 'fr',
+      glossary: { doNotTranslate: ['Widget'] },
+    });
+
+    expect(JSON.parse((mockedFetch.mock.calls[0][1] as any).body).text).toBe('Acme dashboard');
+    expect(result.glossaryWarnings).toEqual([]);
+  });
+});
@@ -0,0 +1,316 @@
+/**
+ * Tests for client-side locale translation.
+ */
+
+import fetch from 'node-fetch';
+import { TranslatePlusClient } from '../src/client';
+import { MockTranslatePlusClient } from '../src/mock-client';
+import { flattenLocale, rebuildLocale } from '../src/locale';
+import { maskPlaceholders, unmaskPlaceholders } from '../src/placeholders';
+
+const mockedFetch = fetch as jest.MockedFunction<typeof fetch>;
+
+const en = {
+  greeting: 'Hello {{name}}',
+  home: {
+    title: 'Welcome',
+    items: ['First', 'Second'],
+    count: 3,
+    enabled: true,
+  },
+  inbox: '{count, plural, one {# message} other {# messages}} waiting',
+  onlyPlaceholder: '{{name}}',
+  repeated: 'Welcome',
+  empty: null,
+};
+
+/** Echo batch texts back as upper-cased "translations" tagged with the target language. */
+function mockBatchEcho() {
+  mockedFetch.mockImplementation(async (_url: any, init: any) => {
+    const { texts, target } = JSON.parse(init.body);
+    return {
+      status: 200,
+      json: async () => ({
+        translations: texts.map((text: string) => ({
+          text,
+          translation: `${target}:${text.toUpperCase()}`,
+          source: 'en',
+          target,
+          success: true,
+        })),
+        total: texts.length,
+        successful: texts.length,
+        failed: 0,
+      }),
+      headers: {
+        get: () => null,
+      },
+    } as any;
+  });
+}
+
+describe('locale helpers', () => {
+  it('should flatten string leaves with their keys', () => {
+    expect(flattenLocale(en).map((entry) => entry.key)).toEqual([
+      'greeting',
+      'home.title',
+      'home.items[0]',
+      'home.items[1]',
+      'inbox',
+      'onlyPlaceholder',
+      'repeated',
+    ]);
+  });
+
+  it('should reject flat and nested keys that flatten to the same key', () => {
+    expect(() => flattenLocale({ 'a.b': 'Flat', a: { b: 'Nested' } })).toThrow(
+      'Duplicate key: a.b'
+    );
+  });
+
+  it('should rebuild the same structure with replaced strings', () => {
+    const rebuilt = rebuildLocale(en, new Map([['home.items[1]', 'Deuxième']]));
+    expect(rebuilt).toEqual({ ...en, home: { ...en.home, items: ['First', 'Deuxième'] } });
+    expect(rebuilt.home).not.toBe(en.home);
+  });
+
+  it('should mask and restore mustache and ICU placeholders', () => {
+    const masked = maskPlaceholders('Hi {{name}}, {count, plural, one {# item} other {# items}}');
+    expect(masked.text).toBe('Hi __TP0__, __TP1____TP2__ item__TP3____TP4__ items__TP5__');
+    expect(
+      unmaskPlaceholders(
+        'Salut __TP0__, __ TP1 ____TP2__ article__TP3____TP4__ articles__TP5__',
+        masked.tokens
+      )
+    ).toEqual({
+      text: 'Salut {{name}}, {count, plural, one {# article} other {# articles}}',
+      missing: [],
+    });
+    expect(unmaskPlaceholders('Salut', masked.tokens).missing).toEqual([0, 1, 2, 3, 4, 5]);
+  });
+});
+
+describe('TranslatePlusClient.translateLocale', () => {
+  let client: TranslatePlusClient;
+
+  beforeEach(() => {
+    client = new TranslatePlusClient({ apiKey: 'test-api-key' });
+    mockedFetch.mockReset();
+  });
+
+  it('should translate every target language and keep structure and placeholders', async () => {
+    mockBatchEcho();
+
+    const result = await client.translateLocale({
+      data: en,
+      target_languages: ['fr', 'de'],
+      source_language: 'en',
+    });
+
+    expect(mockedFetch).toHaveBeenCalledTimes(2);
+    const sent = JSON.parse((mockedFetch.mock.calls[0] as any)[1].body).texts;
+    expect(sent).toEqual([
+      'Hello __TP0__',
+      'Welcome',
+      'First',
+      'Second',
+      '__TP0____TP1__ message__TP2____TP3__ messages__TP4__ waiting',
+    ]);
+
+    expect(result.translations.fr).toEqual({
+      greeting: 'fr:HELLO {{name}}',
+      home: { title: 'fr:WELCOME', items: ['fr:FIRST', 'fr:SECOND'], count: 3, enabled: true },
+      inbox: 'fr:{count, plural, one {# MESSAGE} other {# MESSAGES}} WAITING',
+      onlyPlaceholder: '{{name}}',
+      repeated: 'fr:WELCOME',
+      empty: null,
+    });
+    expect(result.translations.de.home).toMatchObject({ title: 'de:WELCOME' });
+    expect(result.failed).toEqual({ fr: [], de: [] });
+  });
+
+  it('should report keys whose placeholders were lost', async () => {
+    mockedFetch.mockResolvedValueOnce({
+      status: 200,
+      json: async () => ({
+        translations: [
+          {
+            text: 'Hello __TP0__',
+            translation: 'Bonjour',
+            source: 'en',
+            target: 'fr',
+            success: true,
+          },
+        ],
+        total: 1,
+        successful: 1,
+        failed: 0,
+      }),
+      headers: {
+        get: () => null,
+      },
+    } as any);
+
+    const result = await client.translateLocale({
+      data: { greeting: 'Hello {{name}}' },
+      target_languages: ['fr'],
+    });
+
+    expect(result.translations.fr).toEqual({ greeting: 'Hello {{name}}' });
+    expect(result.failed.fr).toEqual([
+      { key: 'greeting', error: 'Placeholders lost in translation: {{name}}' },
+    ]);
+  });
+});
+
+describe('syncLocale', () => {
+  let client: TranslatePlusClient;
+
+  beforeEach(() => {
+    client = new TranslatePlusClient({ apiKey: 'test-api-key' });
+    mockedFetch.mockReset();
+  });
+
+  const snapshot = {
+    source: {
+      title: 'Welcome',
+      subtitle: 'Old subtitle',
+      footer: 'Bye',
+    },
+  };
+
+  it('should translate only added and changed keys and remove deleted ones', async () => {
+    mockBatchEcho();
+
+    const result = await client.syncLocale({
+      source: { title: 'Welcome', subtitle: 'New subtitle', nav: { home: 'Home' } },
+      snapshot,
+      targets: {
+        fr: { title: 'Bienvenue (relu)', subtitle: 'Ancien sous-titre', footer: 'Au revoir' },
+      },
+      source_language: 'en',
+    });
+
+    expect(mockedFetch).toHaveBeenCalledTimes(1);
+    const sent = JSON.parse((mockedFetch.mock.calls[0] as any)[1].body).texts;
+    expect(sent).toEqual(['New subtitle', 'Home']);
+
+    expect(result.translations.fr).toEqual({
+      title: 'Bienvenue (relu)',
+      subtitle: 'fr:NEW SUBTITLE',
+      nav: { home: 'fr:HOME' },
+    });
+    expect(result.report.fr).toEqual({
+      added: ['nav.home'],
+      changed: ['subtitle'],
+      removed: ['footer'],
+      failed: [],
+    });
+    expect(result.snapshot).toEqual({
+      source: {
+        title: 'Welcome',
+        subtitle: 'New subtitle',
+        'nav.home': 'Home',
+      },
+    });
+  });
+
+  it('should adopt existing translations on the first sync', async () => {
+    mockBatchEcho();
+
+    const result = await client.syncLocale({
+      source: { title: 'Welcome', footer: 'Bye' },
+      targets: { fr: { title: 'Bienvenue' }, de: {} },
+    });
+
+    expect(result.translations).toEqual({
+      fr: { title: 'Bienvenue', footer: 'fr:BYE' },
+      de: { title: 'de:WELCOME', footer: 'de:BYE' },
+    });
+    expect(result.report.fr.added).toEqual(['footer']);
+    expect(result.report.de.added).toEqual(['title', 'footer']);
+  });
+
+  it('should record failed keys as pending and leave new ones out of the target', async () => {
+    mockedFetch.mockResolvedValueOnce({
+      status: 200,
+      json: async () => ({
+        translations: [
+          {
+            text: 'New subtitle',
+            translation: '',
+            source: 'en',
+            target: 'fr',
+            success: false,
+            error: 'Engine error',
+          },
+          { text: 'Home', translation: '', source: 'en', target: 'fr', success: false },
+        ],
+        total: 2,
+        successful: 0,
+        failed: 2,
+      }),
+      headers: {
+        get: () => null,
+      },
+    } as any);
+
+    const result = await client.syncLocale({
+      source: { title: 'Welcome', subtitle: 'New subtitle', home: 'Home' },
+      snapshot,
+      targets: { fr: { title: 'Bienvenue', subtitle: 'Ancien sous-titre' } },
+    });
+
+    expect(result.translations.fr).toEqual({
+      title: 'Bienvenue',
+      subtitle: 'Ancien sous-titre',
+    });
+    expect(result.report.fr.failed).toEqual([
+      { key: 'subtitle', error: 'Engine error' },
+      { key: 'home', error: 'Translation failed' },
+    ]);
+    expect(result.snapshot).toEqual({
+      source: { title: 'Welcome', subtitle: 'New subtitle', home: 'Home' },
+      pending: { fr: ['subtitle', 'home'] },
+    });
+  });
+
+  it('should retry failed keys only for the language that failed', async () => {
+    const mock = new MockTranslatePlusClient();
+    // The first batch request, for fr, fails
+    mock.server.fail({ endpoint: '/v2/translate/batch', status: 400, detail: 'Engine error' });
+    const source = { a: 'Apple', b: 'Banana' };
+
+    const failed = await mock.syncLocale({
+      source,
+      snapshot: { source: { a: 'Apple', b: 'Old banana' } },
+      targets: { fr: { a: 'Pomme', b: 'Banane' }, es: { a: 'Manzana', b: 'Plátano' } },
+    });
+    expect(failed.report.fr.failed).toEqual([{ key: 'b', error: 'Engine error' }]);
+    expect(failed.report.es.failed).toEqual([]);
+    expect(failed.translations.es.b).toBe('[es] Banana');
+    expect(failed.snapshot.pending).toEqual({ fr: ['b'] });
+
+    // Reviewer edits the Spanish translation; only French is retried
+    mock.server.reset();
+    const retried = await mock.syncLocale({
+      source,
+      snapshot: failed.snapshot,
+      targets: { fr: failed.translations.fr, es: { a: 'Manzana', b: 'Banana (revisado)' } },
+    });
+    expect(retried.report.fr.changed).toEqual(['b']);
+    expect(retried.report.es).toEqual({ added: [], changed: [], removed: [], failed: [] });
+    expect(retried.translations).toEqual({
+      fr: { a: 'Pomme', b: '[fr] Banana' },
+      es: { a: 'Manzana', b: 'Banana (revisado)' },
+    });
+    expect(retried.snapshot).toEqual({ source });
+    expect(mock.server.requests).toHaveLength(1);
+  });
+
+  it('should require at least one target language', async () => {
+    await expect(client.syncLocale({ source: { a: 'b' }, targets: {} })).rejects.toThrow(
+      'At least one target language is required'
+    );
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Tests for the middleware pipeline.
+ */
+
+import fetch from 'node-fetch';
+import { TranslatePlusClient } from '../src/client';
+import { MiddlewareRequest, MiddlewareResponse } from '../src/middleware';
+
+const mockedFetch = fetch as jest.MockedFunction<typeof fetch>;
+
+function mockResponse(status: number, data: any) {
+  mockedFetch.mockResolvedValueOnce({
+    status,
+    json: async () => data,
+    arrayBuffer: async () => Buffer.from(JSON.stringify(data)),
+    headers: {
+      get: () => null,
+    },
+  } as any);
+}
+
+describe('TranslatePlusClient middleware', () => {
+  let client: TranslatePlusClient;
+
+  beforeEach(() => {
+    client = new TranslatePlusClient({ apiKey: 'test-api-key', maxRetries: 0 });
+    mockedFetch.mockReset();
+  });
+
+  it('should let beforeRequest add headers and rewrite the URL', async () => {
+    client.use({
+      beforeRequest: (request) => {
+        request.headers['X-Trace-Id'] = 'trace-1';
+        return {
+          ...request,
+          url: request.url.replace('https://api.translateplus.io', 'http://proxy'),
+        };
+      },
+    });
+    mockResponse(200, { language_detection: { language: 'fr', confidence: 0.9 } });
+
+    await client.detectLanguage('Bonjour');
+
+    const [url, init] = mockedFetch.mock.calls[0] as any;
+    expect(url).toBe('http://proxy/v2/language/detect');
+    expect(init.headers['X-Trace-Id']).toBe('trace-1');
+  });
+
+  it('should run hooks in registration order', async () => {
+    const order: string[] = [];
+    client
+      .use({ beforeRequest: () => void order.push('first') })
+      .use({ beforeRequest: () => void order.push('second') });
+    mockResponse(200, { languages: {} });
+
+    await client.getSupportedLanguages();
+
+    expect(order).toEqual(['first', 'second']);
+  });
+
+  it('should pass responses and errors to afterResponse and onError', async () => {
+    const responses: MiddlewareResponse[] = [];
+    const errors: Array<[Error, MiddlewareRequest]> = [];
+    client = new TranslatePlusClient({
+      apiKey: 'test-api-key',
+      maxRetries: 0,
+      middleware: [
+        {
+          afterResponse: (response) => void responses.push(response),
+          onError: (error, request) => void errors.push([error, request]),
+        },
+      ],
+    });
+    mockResponse(404, { detail: 'Job not found' });
+
+    await expect(client.getI18nJobStatus('missing')).rejects.toThrow('Job not found');
+
+    expect(responses[0]).toMatchObject({ status: 404, data: { detail: 'Job not found' } });
+    expect(responses[0].request.endpoint).toBe('/v2/i18n/jobs/missing');
+    expect(errors[0][0].message).toBe('Job not found');
+    expect(errors[0][1].method).toBe('GET');
+  });
+
+  it('should apply to multipart uploads and file downloads', async () => {
+    const endpoints: string[] = [];
+    client.use({ beforeRequest: (request) => void endpoints.push(request.endpoint) });
+    mockResponse(200, { job_id: 'job-1', status: 'pending' });
+    mockResponse(200, { hello: 'bonjour' });
+
+    await client.createI18nJob({ file_path: 'en.json', target_languages: ['fr'] });
+    const file = await client.downloadI18nFile('job-1', 'fr');
+
+    expect(endpoints).toEqual(['/v2/i18n/jobs', '/v2/i18n/jobs/job-1/download/fr']);
+    expect(file.toString()).toBe('{"hello":"bonjour"}');
+  });
+});
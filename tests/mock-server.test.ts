@@ -0,0 +1,217 @@
+/**
+ * Tests for the fake TranslatePlus server and MockTranslatePlusClient.
+ */
+
+import * as main from '../src/index';
+import { FakeTranslatePlusServer, MockTranslatePlusClient } from '../src/testing';
+import { TranslatePlusClient as BrowserClient } from '../src/browser';
+import {
+  TranslatePlusAPIError,
+  TranslatePlusInsufficientCreditsError,
+  TranslatePlusJobFailedError,
+  TranslatePlusRateLimitError,
+  TranslatePlusRequestValidationError,
+} from '../src/exceptions';
+
+// Uploads must reach the fake server as real multipart bodies
+jest.unmock('form-data');
+
+describe('FakeTranslatePlusServer', () => {
+  let client: MockTranslatePlusClient;
+
+  beforeEach(() => {
+    client = new MockTranslatePlusClient({ serverOptions: { credits: 100 } });
+  });
+
+  it('should pseudo-translate text, HTML, email and subtitles', async () => {
+    const text = await client.translate({ text: 'Hello', target: 'fr' });
+    expect(text.translations).toEqual({
+      text: 'Hello',
+      translation: '[fr] Hello',
+      source: 'en',
+      target: 'fr',
+    });
+
+    const batch = await client.translateBatch({ texts: ['One', 'Два'], target: 'de' });
+    expect(batch.translations.map((t) => [t.translation, t.source])).toEqual([
+      ['[de] One', 'en'],
+      ['[de] Два', 'ru'],
+    ]);
+
+    const html = await client.translateHTML({ html: '<p>Hi <b>there</b></p>', target: 'es' });
+    expect(html.html).toBe('<p>[es] Hi <b>[es] there</b></p>');
+
+    const email = await client.translateEmail({
+      subject: 'Welcome',
+      email_body: '<p>Thanks</p>',
+      target: 'it',
+    });
+    expect(email).toEqual({ subject: '[it] Welcome', html_body: '<p>[it] Thanks</p>' });
+
+    const subtitles = await client.translateSubtitles({
+      content: '1\n00:00:01,000 --> 00:00:02,000\nHello\n',
+      format: 'srt',
+      target: 'fr',
+    });
+    expect(subtitles.content).toBe('1\n00:00:01,000 --> 00:00:02,000\n[fr] Hello\n');
+  });
+
+  it('should answer detection, language and account requests', async () => {
+    expect((await client.detectLanguage('こんにちは')).language_detection.language).toBe('ja');
+    expect((await client.getSupportedLanguages()).languages.fr).toBe('French');
+
+    await client.translate({ text: 'Hello', target: 'fr' });
+    expect(await client.getAccountSummary()).toEqual({
+      credits_remaining: 95,
+      total_credits: 100,
+      plan_name: 'Mock',
+      concurrency_limit: 5,
+    });
+  });
+
+  it('should refuse requests the account cannot pay for', async () => {
+    await expect(client.translate({ text: 'x'.repeat(101), target: 'fr' })).rejects.toBeInstanceOf(
+      TranslatePlusInsufficientCreditsError
+    );
+    expect(client.server.creditsRemaining).toBe(100);
+  });
+
+  it('should run scripted failures on matching requests only', async () => {
+    client.server
+      .fail({ endpoint: '/v2/translate', status: 429, retryAfter: 7 })
+      .fail({ endpoint: '/v2/translate/html', status: 402, detail: 'Top up' });
+
+    await client.translateBatch({ texts: ['Hi'], target: 'fr' });
+    const rateLimited = await client.translate({ text: 'Hi', target: 'fr' }).catch((e) => e);
+    expect(rateLimited).toBeInstanceOf(TranslatePlusRateLimitError);
+    expect(rateLimited.retryAfter).toBe(7000);
+    await expect(client.translateHTML({ html: 'Hi', target: 'fr' })).rejects.toThrow('Top up');
+
+    // Each failure runs once
+    await expect(client.translate({ text: 'Hi', target: 'fr' })).resolves.toBeDefined();
+    expect(client.server.requests.map((r) => r.endpoint)).toEqual([
+      '/v2/translate/batch',
+      '/v2/translate',
+      '/v2/translate/html',
+      '/v2/translate',
+    ]);
+  });
+
+  it('should simulate timeouts and network errors', async () => {
+    client.server.fail({ timeout: true }).fail({ networkError: true });
+
+    await expect(client.detectLanguage('Hi', { timeout: 10 })).rejects.toThrow(
+      'Request timeout after 10ms'
+    );
+    const error = await client.detectLanguage('Hi').catch((e) => e);
+    expect(error).toBeInstanceOf(TranslatePlusAPIError);
+    expect(error.message).toBe('Network error: fetch failed');
+  });
+
+  it('should retry scripted failures when retries are enabled', async () => {
+    const retrying = new MockTranslatePlusClient({
+      maxRetries: 2,
+      retryPolicy: { baseDelay: 1, maxDelay: 10, respectRetryAfter: false },
+    });
+    retrying.server.fail({ status: 503, times: 2 });
+
+    const result = await retrying.translate({ text: 'Hi', target: 'fr' });
+
+    expect(result.translations.translation).toBe('[fr] Hi');
+    expect(retrying.server.requests).toHaveLength(3);
+  });
+
+  it('should reject malformed requests like the real API', async () => {
+    const missing = await client
+      .translate({ text: undefined as unknown as string, target: 'fr' })
+      .catch((e) => e);
+    expect(missing).toBeInstanceOf(TranslatePlusRequestValidationError);
+    expect(missing.statusCode).toBe(422);
+    expect(missing.fields).toEqual([{ field: 'text', message: 'Field required' }]);
+
+    const badItem = await client
+      .translateBatch({ texts: ['One', 2 as unknown as string], target: 'fr' })
+      .catch((e) => e);
+    expect(badItem.fields).toEqual([
+      { field: 'texts.1', message: 'Input should be a valid string' },
+    ]);
+
+    const subtitles = await client
+      .translateSubtitles({ content: 'not subtitles', format: 'srt', target: 'fr' })
+      .catch((e) => e);
+    expect(subtitles).toBeInstanceOf(TranslatePlusRequestValidationError);
+    expect(subtitles.statusCode).toBe(400);
+    expect(subtitles.message).toContain('Expected a timestamp line');
+    expect(client.server.creditsRemaining).toBe(100);
+  });
+
+  it('should move i18n jobs through their states and serve translated files', async () => {
+    const { job_id } = await client.createI18nJob({
+      file: Buffer.from('{"title": "Hello", "nav": {"home": "Home"}}'),
+      filename: 'en.json',
+      target_languages: ['fr', 'de'],
+      source_language: 'en',
+    });
+    expect(job_id).toBe('job-1');
+    expect(client.server.creditsRemaining).toBe(82);
+
+    const states: string[] = [];
+    const job = await client.waitForI18nJob(job_id, {
+      interval: 1,
+      onProgress: (status) => states.push(status.status),
+    });
+    expect(states).toEqual(['pending', 'processing', 'completed']);
+    expect(job.target_languages).toEqual(['fr', 'de']);
+
+    const file = await client.downloadI18nFile(job_id, 'fr');
+    expect(file.toString()).toBe('{"title": "[fr] Hello", "nav": {"home": "[fr] Home"}}');
+
+    expect((await client.listI18nJobs()).results.map((j) => j.id)).toEqual(['job-1']);
+    await client.deleteI18nJob(job_id);
+    expect((await client.listI18nJobs()).count).toBe(0);
+  });
+
+  it('should fail jobs with unreadable files or on request', async () => {
+    const first = await client.createI18nJob({
+      file: Buffer.from('{"title": '),
+      filename: 'en.json',
+      target_languages: ['fr'],
+    });
+    await expect(client.waitForI18nJob(first.job_id, { interval: 1 })).rejects.toBeInstanceOf(
+      TranslatePlusJobFailedError
+    );
+
+    const second = await client.createI18nJob({
+      file: Buffer.from('{}'),
+      filename: 'en.json',
+      target_languages: ['fr'],
+    });
+    client.server.setJobStatus(second.job_id, 'failed', 'Quota exceeded');
+    await expect(client.waitForI18nJob(second.job_id)).rejects.toThrow('Quota exceeded');
+  });
+
+  it('should be exported only from the testing entry', () => {
+    expect(main).not.toHaveProperty('FakeTranslatePlusServer');
+    expect(main).not.toHaveProperty('MockTranslatePlusClient');
+    expect(main).not.toHaveProperty('Cassette');
+  });
+
+  it('should serve any client through its fetch option', async () => {
+    const server = new FakeTranslatePlusServer({ apiKey: 'secret' });
+    const browser = new BrowserClient({ apiKey: 'secret', fetch: server.fetch });
+
+    const { job_id } = await browser.createI18nJob({
+      file: new TextEncoder().encode('greeting = Hello'),
+      filename: 'messages.properties',
+      target_languages: ['fr'],
+    });
+    expect(server.requests[0].file).toEqual({
+      filename: 'messages.properties',
+      content: 'greeting = Hello',
+    });
+    expect(job_id).toBe('job-1');
+
+    const wrongKey = new BrowserClient({ apiKey: 'wrong', fetch: server.fetch });
+    await expect(wrongKey.getAccountSummary()).rejects.toThrow('Invalid API key');
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Tests for placeholder protection.
+ */
+
+import fetch from 'node-fetch';
+import { TranslatePlusClient } from '../src/client';
+import {
+  comparePlaceholders,
+  findPlaceholders,
+  hasTranslatableText,
+  maskPlaceholders,
+} from '../src/placeholders';
+
+const mockedFetch = fetch as jest.MockedFunction<typeof fetch>;
+
+describe('findPlaceholders', () => {
+  it('should find every supported syntax in order', () => {
+    expect(
+      findPlaceholders('Hi {name}, {{count}} %s %1$d %.2f %@ <0>bold</0> <1/> 100%% done')
+    ).toEqual(['{name}', '{{count}}', '%s', '%1$d', '%.2f', '%@', '<0>', '</0>', '<1/>', '%%']);
+  });
+
+  it('should treat only the skeleton of an ICU plural block as placeholders', () => {
+    expect(findPlaceholders('{count, plural, one {# file} other {# files, %d}} left')).toEqual([
+      '{count, plural, one {',
+      '#',
+      '} other {',
+      '#',
+      '%d',
+      '}}',
+    ]);
+  });
+
+  it('should leave plural and select messages to be translated', () => {
+    const masked = maskPlaceholders('{count, plural, =0 {No messages} other {# messages}}');
+    expect(masked).toEqual({
+      text: '__TP0__No messages__TP1____TP2__ messages__TP3__',
+      tokens: ['{count, plural, =0 {', '} other {', '#', '}}'],
+    });
+    expect(hasTranslatableText(masked)).toBe(true);
+
+    expect(
+      findPlaceholders(
+        '{gender, select, female {{count, plural, offset:1 one {She and #} other {{name}}}} other {They}}'
+      )
+    ).toEqual([
+      '{gender, select, female {',
+      '{count, plural, offset:1 one {',
+      '#',
+      '} other {',
+      '{name}',
+      '}}',
+      '} other {',
+      '}}',
+    ]);
+  });
+
+  it('should keep malformed blocks whole', () => {
+    expect(findPlaceholders('{count, plural, one # item}')).toEqual([
+      '{count, plural, one # item}',
+    ]);
+  });
+
+  it('should not match printf conversions inside words', () => {
+    expect(findPlaceholders('Save 50%off, 20%sale, %dpi')).toEqual([]);
+    expect(maskPlaceholders('Save 50%off today')).toEqual({
+      text: 'Save 50%off today',
+      tokens: [],
+    });
+    expect(findPlaceholders('%d%, %s. %1$s!')).toEqual(['%d', '%s', '%1$s']);
+  });
+
+  it('should mask tags separately so their content is translated', () => {
+    expect(maskPlaceholders('Click <0>here</0> for %s')).toEqual({
+      text: 'Click __TP0__here__TP1__ for __TP2__',
+      tokens: ['<0>', '</0>', '%s'],
+    });
+  });
+});
+
+describe('comparePlaceholders', () => {
+  it('should accept reordered placeholders', () => {
+    expect(comparePlaceholders('%1$s of %2$s', '%2$s de %1$s')).toEqual([]);
+  });
+
+  it('should report missing and unexpected placeholders, counting repeats', () => {
+    expect(comparePlaceholders('{a} and {a} <0>x</0>', '{a} et {b} <0>x')).toEqual([
+      { placeholder: '{b}', issue: 'unexpected' },
+      { placeholder: '{a}', issue: 'missing' },
+      { placeholder: '</0>', issue: 'missing' },
+    ]);
+  });
+});
+
+describe('TranslatePlusClient with protectPlaceholders', () => {
+  let client: TranslatePlusClient;
+
+  function respond(data: unknown) {
+    return {
+      status: 200,
+      json: async () => data,
+      headers: {
+        get: () => null,
+      },
+    } as any;
+  }
+
+  // Translates words but mangles the first marker the way engines sometimes do
+  const engine = (text: string) => text.replace('Hello', 'Bonjour').replace('__TP0__', '__ TP0 __');
+
+  beforeEach(() => {
+    client = new TranslatePlusClient({ apiKey: 'test-api-key' });
+    mockedFetch.mockReset();
+    mockedFetch.mockImplementation(async (url: any, init: any) => {
+      const body = JSON.parse(init.body);
+      if (url.endsWith('/v2/translate')) {
+        return respond({
+          translations: {
+            text: body.text,
+            translation: engine(body.text).replace('__TP1__', '{nom}'),
+            source: 'en',
+            target: 'fr',
+          },
+        });
+      }
+      return respond({
+        translations: body.texts.map((text: string) => ({
+          text,
+          translation: engine(text),
+          source: 'en',
+          target: 'fr',
+          success: true,
+        })),
+        total: body.texts.length,
+        successful: body.texts.length,
+        failed: 0,
+      });
+    });
+  });
+
+  it('should shield placeholders and warn about changed ones', async () => {
+    const result = await client.translate({
+      text: 'Hello <0>{name}</0>',
+      target: 'fr',
+      protectPlaceholders: true,
+    });
+
+    expect(JSON.parse((mockedFetch.mock.calls[0][1] as any).body).text).toBe(
+      'Hello __TP0____TP1____TP2__'
+    );
+    expect(result.translations.text).toBe('Hello <0>{name}</0>');
+    expect(result.translations.translation).toBe('Bonjour <0>{nom}</0>');
+    expect(result.placeholderWarnings).toEqual([
+      { placeholder: '{nom}', issue: 'unexpected' },
+      { placeholder: '{name}', issue: 'missing' },
+    ]);
+  });
+
+  it('should check each batch item', async () => {
+    const result = await client.translateBatch({
+      texts: ['Hello %s', 'Hello {{user}}, %1$d new'],
+      target: 'fr',
+      protectPlaceholders: true,
+    });
+
+    expect(result.translations.map((t) => t.translation)).toEqual([
+      'Bonjour %s',
+      'Bonjour {{user}}, %1$d new',
+    ]);
+    expect(result.translations.map((t) => t.placeholderWarnings)).toEqual([[], []]);
+  });
+
+  it('should leave text untouched without the option', async () => {
+    const result = await client.translate({ text: 'Hello {name}', target: 'fr' });
+
+    expect(JSON.parse((mockedFetch.mock.calls[0][1] as any).body).text).toBe('Hello {name}');
+    expect(result.placeholderWarnings).toBeUndefined();
+  });
+});
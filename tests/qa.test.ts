@@ -0,0 +1,128 @@
+/**
+ * Tests for translation quality checks.
+ */
+
+import {
+  checkTranslation,
+  checkTranslateResponse,
+  checkBatchResponse,
+  checkHTMLResponse,
+  checkEmailResponse,
+} from '../src/qa';
+
+describe('checkTranslation', () => {
+  it('should pass a good translation', () => {
+    expect(
+      checkTranslation(
+        'Pay $1,500.50 at https://acme.com/pay?',
+        'Payez 1 500,50 $ sur https://acme.com/pay ?'
+      )
+    ).toEqual({
+      source: 'Pay $1,500.50 at https://acme.com/pay?',
+      translation: 'Payez 1 500,50 $ sur https://acme.com/pay ?',
+      passed: true,
+      issues: [],
+    });
+    expect(
+      checkTranslation('Pay 1,500 at https://acme.com.', 'Payez 1.500 sur https://acme.com.').passed
+    ).toBe(true);
+  });
+
+  it('should flag untranslated output unless allowed', () => {
+    expect(checkTranslation('Settings', 'Settings').issues).toEqual([
+      { check: 'untranslated', message: 'Translation is identical to the source' },
+    ]);
+    expect(checkTranslation('Acme', 'Acme', { allowUntranslated: ['Acme'] }).passed).toBe(true);
+    expect(checkTranslation('42', '42').passed).toBe(true);
+  });
+
+  it('should flag mismatched URLs and email addresses', () => {
+    const { issues } = checkTranslation(
+      'Write to help@acme.com or visit https://acme.com/help.',
+      'Écrivez à aide@acme.com ou visitez https://acme.fr/aide.'
+    );
+    expect(issues).toEqual([
+      { check: 'urls', message: 'Missing URLs: https://acme.com/help' },
+      { check: 'urls', message: 'Unexpected URLs: https://acme.fr/aide' },
+      { check: 'emails', message: 'Missing email addresses: help@acme.com' },
+      { check: 'emails', message: 'Unexpected email addresses: aide@acme.com' },
+    ]);
+  });
+
+  it('should flag lost whitespace and punctuation', () => {
+    expect(checkTranslation('  Name: ', 'Nom').issues).toEqual([
+      { check: 'whitespace', message: 'Leading whitespace differs from the source' },
+      { check: 'whitespace', message: 'Trailing whitespace differs from the source' },
+      { check: 'punctuation', message: 'Source ends with a colon, translation does not' },
+    ]);
+    expect(checkTranslation('Are you sure?', 'Êtes-vous sûr ?').passed).toBe(true);
+    expect(checkTranslation('本当ですか？', 'Are you sure?').passed).toBe(true);
+  });
+
+  it('should flag length blow-ups beyond the ratio', () => {
+    const source = 'Save changes';
+    const long = 'Enregistrer toutes les modifications que vous avez faites dans ce document';
+
+    expect(checkTranslation(source, long).issues).toEqual([
+      { check: 'length', message: 'Translation is 6.17x the source length' },
+    ]);
+    expect(checkTranslation(source, long, { maxLengthRatio: 10 }).passed).toBe(true);
+    expect(checkTranslation(source, long, { checks: ['numbers'] }).passed).toBe(true);
+  });
+});
+
+describe('response checks', () => {
+  it('should check a translate response', () => {
+    const report = checkTranslateResponse({
+      translations: { text: 'Hello', translation: 'Hello', source: 'en', target: 'fr' },
+    });
+    expect(report.passed).toBe(false);
+  });
+
+  it('should report each batch item, including failures', () => {
+    const reports = checkBatchResponse({
+      translations: [
+        { text: 'Hello', translation: 'Bonjour', source: 'en', target: 'fr', success: true },
+        { text: '3 files', translation: '4 fichiers', source: 'en', target: 'fr', success: true },
+        { text: 'Bye', translation: '', source: 'en', target: 'fr', success: false, error: 'Boom' },
+      ],
+      total: 3,
+      successful: 2,
+      failed: 1,
+    });
+
+    expect(reports.map((r) => [r.index, r.passed])).toEqual([
+      [0, true],
+      [1, false],
+      [2, false],
+    ]);
+    expect(reports[2].issues).toEqual([
+      { check: 'untranslated', message: 'Translation failed: Boom' },
+    ]);
+  });
+
+  it('should check HTML tag balance', () => {
+    const html = '<p>Hello <b>world</b><br></p>';
+
+    expect(checkHTMLResponse(html, { html: '<p>Bonjour <b>monde</b><br></p>' }).passed).toBe(true);
+    expect(checkHTMLResponse(html, { html: '<p>Bonjour <b>monde</p>' }).issues).toEqual([
+      { check: 'tags', message: 'Unexpected </p>' },
+    ]);
+    expect(checkHTMLResponse(html, { html: '<p>Bonjour <i>monde</i></p>' }).issues).toEqual([
+      { check: 'tags', message: 'Missing tags: b, /b, br' },
+      { check: 'tags', message: 'Unexpected tags: i, /i' },
+    ]);
+  });
+
+  it('should check email subject and body separately', () => {
+    const reports = checkEmailResponse(
+      { subject: 'Welcome!', email_body: '<p>Thanks</p>' },
+      { subject: 'Bienvenue', html_body: '<p>Merci' }
+    );
+
+    expect(reports.map((r) => [r.field, r.issues.map((i) => i.check)])).toEqual([
+      ['subject', ['punctuation']],
+      ['html_body', ['tags']],
+    ]);
+  });
+});
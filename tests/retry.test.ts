@@ -0,0 +1,176 @@
+/**
+ * Tests for the retry policy.
+ */
+
+import fetch from 'node-fetch';
+import { TranslatePlusClient } from '../src/client';
+import { TranslatePlusAPIError, TranslatePlusRateLimitError } from '../src/exceptions';
+import { computeRetryDelay, parseRetryAfter, resolveRetryPolicy, RetryInfo } from '../src/retry';
+
+const mockedFetch = fetch as jest.MockedFunction<typeof fetch>;
+
+function mockErrorResponse(status: number, retryAfter: string | null = null) {
+  mockedFetch.mockResolvedValueOnce({
+    status,
+    json: async () => ({ detail: `Error ${status}` }),
+    headers: {
+      get: (key: string) => (key === 'Retry-After' ? retryAfter : null),
+    },
+  } as any);
+}
+
+function mockOkResponse() {
+  mockedFetch.mockResolvedValueOnce({
+    status: 200,
+    json: async () => ({ language_detection: { language: 'fr', confidence: 0.9 } }),
+    headers: {
+      get: () => null,
+    },
+  } as any);
+}
+
+describe('parseRetryAfter', () => {
+  it('should parse seconds', () => {
+    expect(parseRetryAfter('3')).toBe(3000);
+  });
+
+  it('should parse an HTTP-date', () => {
+    const now = Date.parse('Wed, 21 Oct 2026 07:28:00 GMT');
+    expect(parseRetryAfter('Wed, 21 Oct 2026 07:28:05 GMT', now)).toBe(5000);
+  });
+
+  it('should ignore missing or invalid values', () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('computeRetryDelay', () => {
+  it('should back off exponentially up to maxDelay', () => {
+    const policy = resolveRetryPolicy({ baseDelay: 100, maxDelay: 500 });
+    expect([0, 1, 2, 3].map((attempt) => computeRetryDelay(policy, attempt, 0))).toEqual([
+      100, 200, 400, 500,
+    ]);
+  });
+
+  it('should keep jittered delays within bounds', () => {
+    const full = resolveRetryPolicy({ baseDelay: 100, maxDelay: 1000, jitter: 'full' });
+    const decorrelated = resolveRetryPolicy({
+      baseDelay: 100,
+      maxDelay: 1000,
+      jitter: 'decorrelated',
+    });
+    for (let i = 0; i < 20; i++) {
+      const fullDelay = computeRetryDelay(full, 2, 0);
+      expect(fullDelay).toBeGreaterThanOrEqual(0);
+      expect(fullDelay).toBeLessThanOrEqual(400);
+
+      const decorrelatedDelay = computeRetryDelay(decorrelated, 2, 200);
+      expect(decorrelatedDelay).toBeGreaterThanOrEqual(100);
+      expect(decorrelatedDelay).toBeLessThanOrEqual(600);
+    }
+  });
+});
+
+describe('TranslatePlusClient retries', () => {
+  beforeEach(() => {
+    mockedFetch.mockReset();
+  });
+
+  it('should not retry validation errors', async () => {
+    const client = new TranslatePlusClient({ apiKey: 'test-api-key' });
+    mockErrorResponse(400);
+
+    await expect(client.detectLanguage('Bonjour')).rejects.toMatchObject({ statusCode: 400 });
+    expect(mockedFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry server errors and report each retry', async () => {
+    const retries: RetryInfo[] = [];
+    const client = new TranslatePlusClient({
+      apiKey: 'test-api-key',
+      retryPolicy: { baseDelay: 1, onRetry: (info) => void retries.push(info) },
+    });
+    mockErrorResponse(503);
+    mockErrorResponse(429, '0');
+    mockOkResponse();
+
+    const result = await client.detectLanguage('Bonjour');
+
+    expect(result.language_detection.language).toBe('fr');
+    expect(retries.map((r) => [r.attempt, r.delay])).toEqual([
+      [1, 1],
+      [2, 2],
+    ]);
+    expect(retries[1].error).toBeInstanceOf(TranslatePlusRateLimitError);
+  });
+
+  it('should rebuild a multipart upload for each attempt', async () => {
+    const client = new TranslatePlusClient({
+      apiKey: 'test-api-key',
+      retryPolicy: { baseDelay: 1 },
+    });
+    mockErrorResponse(503);
+    mockedFetch.mockResolvedValueOnce({
+      status: 201,
+      json: async () => ({ job_id: 'job-1', status: 'pending', message: 'Job created' }),
+      headers: { get: () => null },
+    } as any);
+
+    const result = await client.createI18nJob({
+      file: Buffer.from('{"title": "Hello"}'),
+      filename: 'en.json',
+      target_languages: ['fr'],
+    });
+
+    expect(result.job_id).toBe('job-1');
+    const [first, second] = mockedFetch.mock.calls.map(([, init]: any) => init.body);
+    expect(second).not.toBe(first);
+    expect(second.append).toHaveBeenCalledWith('file', expect.any(Buffer), {
+      filename: 'en.json',
+    });
+  });
+
+  it('should throw the original error once retries are exhausted', async () => {
+    const client = new TranslatePlusClient({
+      apiKey: 'test-api-key',
+      maxRetries: 1,
+      retryPolicy: { baseDelay: 1 },
+    });
+    mockErrorResponse(502);
+    mockErrorResponse(503);
+
+    const error = await client.detectLanguage('Bonjour').catch((e) => e);
+
+    expect(error).toBeInstanceOf(TranslatePlusAPIError);
+    expect(error.statusCode).toBe(503);
+    expect(error.message).toBe('Error 503');
+  });
+
+  it('should wrap network failures with the original error as cause', async () => {
+    const client = new TranslatePlusClient({
+      apiKey: 'test-api-key',
+      retryPolicy: { retryNetworkErrors: false },
+    });
+    const networkError = new Error('connect ECONNREFUSED');
+    mockedFetch.mockRejectedValueOnce(networkError);
+
+    const error = await client.detectLanguage('Bonjour').catch((e) => e);
+
+    expect(error).toBeInstanceOf(TranslatePlusAPIError);
+    expect(error.message).toBe('Network error: connect ECONNREFUSED');
+    expect(error.cause).toBe(networkError);
+    expect(mockedFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop retrying when the time budget is spent', async () => {
+    const client = new TranslatePlusClient({
+      apiKey: 'test-api-key',
+      retryPolicy: { baseDelay: 1000, maxElapsedTime: 500 },
+    });
+    mockErrorResponse(500);
+
+    await expect(client.detectLanguage('Bonjour')).rejects.toMatchObject({ statusCode: 500 });
+    expect(mockedFetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Tests for runtime response validation.
+ */
+
+import { MockTranslatePlusClient } from '../src/mock-client';
+import { TranslatePlusClient } from '../src/client';
+import { checkResponseShape } from '../src/schema';
+import { TranslatePlusResponseFormatError } from '../src/exceptions';
+import { FetchFunction } from '../src/transport';
+
+// Uploads must reach the fake server as real multipart bodies
+jest.unmock('form-data');
+
+function respondWith(body: unknown): FetchFunction {
+  return async () => {
+    const raw = new TextEncoder().encode(JSON.stringify(body));
+    return {
+      status: 200,
+      headers: { get: () => null },
+      json: async () => JSON.parse(JSON.stringify(body)),
+      arrayBuffer: async () => raw.buffer,
+    };
+  };
+}
+
+describe('checkResponseShape', () => {
+  it('should report the path of the first mismatch', () => {
+    expect(
+      checkResponseShape('POST', '/v2/translate/batch', {
+        translations: [
+          { text: 'Hi', translation: 'Salut', source: 'en', target: 'fr', success: true },
+          { text: 'Bye', translation: 'Au revoir', source: 'en', success: true },
+        ],
+        total: 2,
+        successful: 2,
+        failed: 0,
+      })
+    ).toEqual({ path: '$.translations[1].target', expected: 'string', received: 'undefined' });
+
+    expect(
+      checkResponseShape('GET', '/v2/i18n/jobs/job-1', {
+        id: 'job-1',
+        status: 'queued',
+        source_language: 'en',
+        target_languages: ['fr'],
+        created_at: '2024-01-01T00:00:00Z',
+        updated_at: '2024-01-01T00:00:00Z',
+      })
+    ).toEqual({
+      path: '$.status',
+      expected: '"pending" | "processing" | "completed" | "failed"',
+      received: '"queued"',
+    });
+
+    expect(checkResponseShape('GET', '/v2/language/supported', { languages: { fr: 1 } })).toEqual({
+      path: '$.languages["fr"]',
+      expected: 'string',
+      received: 'number',
+    });
+  });
+
+  it('should allow extra fields, null optionals and unknown endpoints', () => {
+    expect(
+      checkResponseShape('POST', '/v2/i18n/jobs', {
+        job_id: 'job-1',
+        status: 'pending',
+        message: null,
+        eta: 30,
+      })
+    ).toBeUndefined();
+    expect(checkResponseShape('DELETE', '/v2/i18n/jobs/job-1', {})).toBeUndefined();
+    expect(checkResponseShape('GET', '/v2/unknown', null)).toBeUndefined();
+  });
+});
+
+describe('validateResponses', () => {
+  const drifted = { translations: { text: 'Hi', translated_text: 'Salut', source: 'en' } };
+
+  it('should accept every response from the fake server', async () => {
+    const client = new MockTranslatePlusClient({ validateResponses: true });
+
+    await client.translate({ text: 'Hello', target: 'fr' });
+    await client.translateBatch({ texts: ['One', 'Two'], target: 'de' });
+    await client.translateHTML({ html: '<p>Hi</p>', target: 'es' });
+    await client.translateEmail({ subject: 'Hi', email_body: '<p>Hi</p>', target: 'it' });
+    await client.detectLanguage('Hello');
+    await client.getSupportedLanguages();
+    await client.getAccountSummary();
+    const { job_id } = await client.createI18nJob({
+      file: Buffer.from('{"title": "Hello"}'),
+      filename: 'en.json',
+      target_languages: ['fr'],
+    });
+    await client.waitForI18nJob(job_id, { interval: 1 });
+    await expect(client.listI18nJobs()).resolves.toMatchObject({ count: 1 });
+  });
+
+  it('should throw with the mismatch path and raw body', async () => {
+    const client = new TranslatePlusClient({
+      apiKey: 'test-api-key',
+      fetch: respondWith(drifted),
+      validateResponses: true,
+    });
+
+    const error = await client.translate({ text: 'Hi', target: 'fr' }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(TranslatePlusResponseFormatError);
+    expect(error.message).toBe(
+      'Unexpected response from POST /v2/translate: expected string at $.translations.translation, got undefined'
+    );
+    expect(error.endpoint).toBe('/v2/translate');
+    expect(error.path).toBe('$.translations.translation');
+    expect(error.body).toEqual(drifted);
+  });
+
+  it('should report and continue in lenient mode', async () => {
+    const onInvalidResponse = jest.fn();
+    const client = new TranslatePlusClient({
+      apiKey: 'test-api-key',
+      fetch: respondWith(drifted),
+      validateResponses: 'lenient',
+      onInvalidResponse,
+    });
+
+    const result = await client.translate({ text: 'Hi', target: 'fr' });
+
+    expect(result).toEqual(drifted);
+    expect(onInvalidResponse).toHaveBeenCalledTimes(1);
+    expect(onInvalidResponse.mock.calls[0][0].path).toBe('$.translations.translation');
+  });
+
+  it('should log with console.warn by default in lenient mode', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const client = new TranslatePlusClient({
+      apiKey: 'test-api-key',
+      fetch: respondWith(drifted),
+      validateResponses: 'lenient',
+    });
+
+    await client.translate({ text: 'Hi', target: 'fr' });
+
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining('translateplus: Unexpected response from POST /v2/translate')
+    );
+    warn.mockRestore();
+  });
+
+  it('should not validate unless enabled', async () => {
+    const client = new TranslatePlusClient({
+      apiKey: 'test-api-key',
+      fetch: respondWith(drifted),
+    });
+
+    await expect(client.translate({ text: 'Hi', target: 'fr' })).resolves.toEqual(drifted);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Tests for request concurrency control.
+ */
+
+import fetch from 'node-fetch';
+import { Semaphore } from '../src/semaphore';
+import { TranslatePlusClient } from '../src/client';
+import { TranslatePlusCancelledError, TranslatePlusQueueFullError } from '../src/exceptions';
+
+const mockedFetch = fetch as jest.MockedFunction<typeof fetch>;
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('Semaphore', () => {
+  it('should limit concurrency and serve waiters in FIFO order', async () => {
+    const semaphore = new Semaphore({ maxConcurrent: 1 });
+    const order: string[] = [];
+
+    const release = await semaphore.acquire();
+    const first = semaphore.acquire().then((r) => {
+      order.push('first');
+      return r;
+    });
+    const second = semaphore.acquire().then((r) => {
+      order.push('second');
+      return r;
+    });
+    await flush();
+
+    expect(semaphore.getStats()).toMatchObject({ active: 1, queued: 2 });
+    expect(order).toEqual([]);
+
+    release();
+    (await first)();
+    (await second)();
+
+    expect(order).toEqual(['first', 'second']);
+    expect(semaphore.getStats()).toMatchObject({ active: 0, queued: 0, acquired: 3 });
+  });
+
+  it('should serve higher priority waiters first', async () => {
+    const semaphore = new Semaphore({ maxConcurrent: 1 });
+    const order: string[] = [];
+    const release = await semaphore.acquire();
+
+    const low = semaphore.acquire({ priority: 0 }).then((r) => (order.push('low'), r));
+    const high = semaphore.acquire({ priority: 10 }).then((r) => (order.push('high'), r));
+
+    release();
+    (await high)();
+    (await low)();
+
+    expect(order).toEqual(['high', 'low']);
+  });
+
+  it('should reject when the queue is full', async () => {
+    const semaphore = new Semaphore({ maxConcurrent: 1, maxQueueSize: 1 });
+    await semaphore.acquire();
+    semaphore.acquire();
+
+    await expect(semaphore.acquire()).rejects.toThrow(TranslatePlusQueueFullError);
+  });
+
+  it('should cancel queued waiters by signal or cancelQueued', async () => {
+    const semaphore = new Semaphore({ maxConcurrent: 1 });
+    await semaphore.acquire();
+
+    const controller = new AbortController();
+    const bySignal = semaphore.acquire({ signal: controller.signal });
+    const byCancel = semaphore.acquire();
+    controller.abort();
+    await expect(bySignal).rejects.toThrow(TranslatePlusCancelledError);
+
+    semaphore.cancelQueued();
+    await expect(byCancel).rejects.toThrow(TranslatePlusCancelledError);
+    expect(semaphore.getStats().queued).toBe(0);
+  });
+
+  it('should start queued waiters when the limit is raised', async () => {
+    const semaphore = new Semaphore({ maxConcurrent: 1 });
+    await semaphore.acquire();
+    const waiting = semaphore.acquire();
+
+    semaphore.setMaxConcurrent(2);
+
+    await expect(waiting).resolves.toEqual(expect.any(Function));
+    expect(semaphore.getStats()).toMatchObject({ active: 2, maxConcurrent: 2 });
+  });
+});
+
+describe('TranslatePlusClient concurrency', () => {
+  beforeEach(() => {
+    mockedFetch.mockReset();
+  });
+
+  it('should size the limit from the account summary', async () => {
+    mockedFetch.mockResolvedValueOnce({
+      status: 200,
+      json: async () => ({
+        credits_remaining: 100,
+        total_credits: 100,
+        plan_name: 'pro',
+        concurrency_limit: 12,
+      }),
+      headers: { get: () => null },
+    } as any);
+    mockedFetch.mockResolvedValueOnce({
+      status: 200,
+      json: async () => ({ language_detection: { language: 'fr', confidence: 0.9 } }),
+      headers: { get: () => null },
+    } as any);
+
+    const client = new TranslatePlusClient({ apiKey: 'test-api-key', autoConcurrency: true });
+    await client.detectLanguage('Bonjour');
+
+    expect((mockedFetch.mock.calls[0] as any)[0]).toContain('/v2/user/account');
+    expect(client.getQueueStats().maxConcurrent).toBe(12);
+  });
+
+  it('should share one semaphore across clients', () => {
+    const semaphore = new Semaphore({ maxConcurrent: 3 });
+    const a = new TranslatePlusClient({ apiKey: 'a', semaphore });
+    const b = new TranslatePlusClient({ apiKey: 'b', semaphore });
+
+    semaphore.setMaxConcurrent(4);
+
+    expect(a.getQueueStats().maxConcurrent).toBe(4);
+    expect(b.getQueueStats().maxConcurrent).toBe(4);
+  });
+});
@@ -31,8 +31,12 @@ jest.mock('fs', () => {
       emit: jest.fn(),
     })),
     existsSync: jest.fn(() => true),
-    readFileSync: jest.fn(() => 'mock file content'),
+    // Like fs, return a Buffer unless an encoding is given
+    readFileSync: jest.fn((_path: string, encoding?: string) =>
+      encoding ? 'mock file content' : Buffer.from('mock file content')
+    ),
     writeFileSync: jest.fn(),
+    mkdirSync: jest.fn(),
   };
 });
 
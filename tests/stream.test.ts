@@ -0,0 +1,248 @@
+/**
+ * Tests for streaming translation.
+ */
+
+import { Readable, Writable } from 'stream';
+import fetch from 'node-fetch';
+import { TranslatePlusClient } from '../src/client';
+import { TranslatePlusAuthenticationError } from '../src/exceptions';
+import { TranslateTransform } from '../src/transform';
+
+const mockedFetch = fetch as jest.MockedFunction<typeof fetch>;
+
+async function collect<T>(items: AsyncIterable<T>): Promise<T[]> {
+  const result: T[] = [];
+  for await (const item of items) {
+    result.push(item);
+  }
+  return result;
+}
+
+function byteStream(chunks: string[]): Readable {
+  return Readable.from(
+    chunks.map((chunk) => Buffer.from(chunk)),
+    { objectMode: false }
+  );
+}
+
+describe('TranslatePlusClient.translateStream', () => {
+  let client: TranslatePlusClient;
+  let active: number;
+  let maxActive: number;
+
+  beforeEach(() => {
+    client = new TranslatePlusClient({ apiKey: 'test-api-key', maxConcurrent: 10 });
+    active = 0;
+    maxActive = 0;
+    mockedFetch.mockReset();
+    // Later batches answer sooner, so completion order differs from input order
+    mockedFetch.mockImplementation(async (_url: any, init: any) => {
+      const { texts, target } = JSON.parse(init.body);
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise((resolve) => setTimeout(resolve, Math.max(1, 30 - texts[0].length * 3)));
+      active--;
+      if (texts.includes('revoked')) {
+        return {
+          status: 401,
+          json: async () => ({ detail: 'Invalid API key' }),
+          headers: {
+            get: () => null,
+          },
+        } as any;
+      }
+      if (texts.includes('fail')) {
+        return {
+          status: 400,
+          json: async () => ({ detail: 'Bad text' }),
+          headers: {
+            get: () => null,
+          },
+        } as any;
+      }
+      return {
+        status: 200,
+        json: async () => ({
+          translations: texts.map((text: string) => ({
+            text,
+            translation: `${target}:${text}`,
+            source: 'en',
+            target,
+            success: true,
+          })),
+          total: texts.length,
+          successful: texts.length,
+          failed: 0,
+        }),
+        headers: {
+          get: () => null,
+        },
+      } as any;
+    });
+  });
+
+  it('should batch texts and keep input order', async () => {
+    const texts = ['a', 'bb', 'ccc', 'dddd', 'eeeee', 'ffffff', 'ggggggg'];
+
+    const items = await collect(
+      client.translateStream(texts, { target: 'fr', batchSize: 2, maxInFlight: 2 })
+    );
+
+    expect(items.map((item) => item.translation)).toEqual(texts.map((text) => `fr:${text}`));
+    expect(mockedFetch).toHaveBeenCalledTimes(4);
+    expect(maxActive).toBe(2);
+  });
+
+  it('should split byte streams into lines and pass blank lines through', async () => {
+    const input = byteStream(['one\r', '\ntwo\n\nthr', 'ee']);
+
+    const items = await collect(client.translateStream(input, { target: 'de' }));
+
+    expect(items.map((item) => item.translation)).toEqual(['de:one', 'de:two', '', 'de:three']);
+    expect(mockedFetch).toHaveBeenCalledTimes(1);
+    expect(JSON.parse((mockedFetch.mock.calls[0][1] as any).body).texts).toEqual([
+      'one',
+      'two',
+      'three',
+    ]);
+  });
+
+  it('should report a failed batch as failed items', async () => {
+    const items = await collect(
+      client.translateStream(['ok', 'fail', 'fine'], { target: 'fr', batchSize: 2 })
+    );
+
+    expect(items.map((item) => item.success)).toEqual([false, false, true]);
+    expect(items[1]).toMatchObject({ text: 'fail', error: 'Bad text' });
+  });
+
+  it('should stop reading and reject when the API key is refused', async () => {
+    let read = 0;
+    // Long enough to stand in for a source that never ends
+    async function* endless() {
+      yield 'ok';
+      yield 'fine';
+      yield 'revoked';
+      while (read < 100) {
+        read++;
+        yield 'more';
+      }
+    }
+
+    const items: unknown[] = [];
+    const error = await (async () => {
+      for await (const item of client.translateStream(endless(), {
+        target: 'fr',
+        batchSize: 2,
+        maxInFlight: 1,
+      })) {
+        items.push(item);
+      }
+    })().catch((e) => e);
+
+    expect(error).toBeInstanceOf(TranslatePlusAuthenticationError);
+    expect(items).toHaveLength(2);
+    expect(mockedFetch).toHaveBeenCalledTimes(2);
+    expect(read).toBeLessThan(3);
+  });
+
+  it('should send a partial batch when input stalls', async () => {
+    let release: () => void = () => undefined;
+    async function* slowInput() {
+      yield 'first';
+      // Only continues once the first translation has been yielded
+      await new Promise<void>((resolve) => (release = resolve));
+      yield 'second';
+    }
+
+    const translations: string[] = [];
+    for await (const item of client.translateStream(slowInput(), {
+      target: 'fr',
+      flushInterval: 5,
+    })) {
+      translations.push(item.translation);
+      release();
+    }
+
+    expect(translations).toEqual(['fr:first', 'fr:second']);
+    expect(mockedFetch).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('TranslateTransform', () => {
+  let client: TranslatePlusClient;
+
+  beforeEach(() => {
+    client = new TranslatePlusClient({ apiKey: 'test-api-key' });
+    mockedFetch.mockReset();
+    mockedFetch.mockImplementation(async (_url: any, init: any) => {
+      const { texts } = JSON.parse(init.body);
+      return {
+        status: 200,
+        json: async () => ({
+          translations: texts.map((text: string) => ({
+            text,
+            translation: text.toUpperCase(),
+            source: 'en',
+            target: 'fr',
+            success: text !== 'broken',
+            error: text === 'broken' ? 'Could not translate' : undefined,
+          })),
+        }),
+        headers: {
+          get: () => null,
+        },
+      } as any;
+    });
+  });
+
+  function sink(chunks: string[]): Writable {
+    return new Writable({
+      write(chunk, _encoding, callback) {
+        chunks.push(chunk.toString());
+        callback();
+      },
+    });
+  }
+
+  it('should translate piped text line by line', async () => {
+    const output: string[] = [];
+    await new Promise((resolve, reject) => {
+      byteStream(['hello\nwor', 'ld\n'])
+        .pipe(new TranslateTransform(client, { target: 'fr', batchSize: 1 }))
+        .on('error', reject)
+        .pipe(sink(output))
+        .on('finish', resolve);
+    });
+
+    expect(output.join('')).toBe('HELLO\nWORLD\n');
+  });
+
+  it('should stop translating while the reader is behind', async () => {
+    const lines = Array.from({ length: 40 }, (_, i) => `${'x'.repeat(1000)} ${i}\n`);
+    const transform = new TranslateTransform(client, {
+      target: 'fr',
+      batchSize: 2,
+      maxInFlight: 1,
+    });
+    // One chunk, so the writable side's backpressure can't hold the lines back
+    transform.write(lines.join(''));
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(mockedFetch.mock.calls.length).toBeLessThan(15);
+    transform.end();
+
+    const output: string[] = [];
+    await new Promise((resolve) => transform.pipe(sink(output)).on('finish', resolve));
+    expect(output.join('').split('\n')).toHaveLength(41);
+    expect(mockedFetch).toHaveBeenCalledTimes(20);
+  });
+
+  it('should error when a line fails', async () => {
+    const transform = new TranslateTransform(client, { target: 'fr' });
+    const failed = new Promise((resolve) => transform.on('error', resolve));
+    byteStream(['fine\nbroken\n']).pipe(transform).pipe(sink([]));
+
+    expect(await failed).toMatchObject({ message: 'Line 2: Could not translate' });
+  });
+});
@@ -0,0 +1,329 @@
+/**
+ * Tests for subtitle parsing, validation and re-timing.
+ */
+
+import fetch from 'node-fetch';
+import { TranslatePlusClient } from '../src/client';
+import { TranslatePlusFormatError, TranslatePlusValidationError } from '../src/exceptions';
+import {
+  parseSubtitles,
+  validateSubtitles,
+  formatSubtitles,
+  convertSubtitles,
+  chunkSubtitles,
+  retimeSubtitles,
+  wrapSubtitleText,
+  checkReadingSpeed,
+} from '../src/subtitles';
+
+const mockedFetch = fetch as jest.MockedFunction<typeof fetch>;
+
+const srt = `1
+00:00:01,000 --> 00:00:02,500
+Hello world
+
+2
+00:00:03,000 --> 00:00:05,000
+How are you?
+I am fine.
+`;
+
+const vtt = `WEBVTT - Example
+
+STYLE
+::cue { color: yellow }
+
+NOTE This note is dropped
+
+intro
+00:01.000 --> 00:02.500 align:start
+Hello world
+
+00:00:03.000 --> 00:00:05.000
+How are you?
+`;
+
+describe('parseSubtitles', () => {
+  it('should parse SRT cues', () => {
+    expect(parseSubtitles(srt, 'srt').cues).toEqual([
+      { id: '1', start: 1000, end: 2500, text: 'Hello world', settings: undefined },
+      { id: '2', start: 3000, end: 5000, text: 'How are you?\nI am fine.', settings: undefined },
+    ]);
+  });
+
+  it('should parse WebVTT cues, identifiers, settings and header blocks', () => {
+    const document = parseSubtitles(vtt, 'vtt');
+    expect(document.header).toBe('WEBVTT - Example\n\nSTYLE\n::cue { color: yellow }');
+    expect(document.cues).toEqual([
+      { id: 'intro', start: 1000, end: 2500, text: 'Hello world', settings: 'align:start' },
+      { id: undefined, start: 3000, end: 5000, text: 'How are you?', settings: undefined },
+    ]);
+  });
+
+  it('should throw on malformed timestamps', () => {
+    expect(() => parseSubtitles('1\n00:00:01 --> 00:00:02,000\nHi\n', 'srt')).toThrow(
+      TranslatePlusFormatError
+    );
+    expect(() => parseSubtitles('1\n00:00:01 --> 00:00:02,000\nHi\n', 'srt')).toThrow(
+      'Invalid timestamp: 00:00:01 (line 2)'
+    );
+    expect(() => parseSubtitles('00:01.000 --> 00:02.000\nHi\n', 'vtt')).toThrow(
+      'WebVTT file must start with WEBVTT'
+    );
+  });
+});
+
+describe('validateSubtitles', () => {
+  it('should accept a valid file', () => {
+    expect(validateSubtitles(srt, 'srt')).toEqual({ valid: true, errors: [] });
+  });
+
+  it('should report timing, order and numbering problems', () => {
+    const content = `1
+00:00:05,000 --> 00:00:04,000
+Backwards
+
+3
+00:00:01,000 --> 00:00:02,000
+Out of order
+
+4
+not a timestamp
+`;
+    expect(validateSubtitles(content, 'srt').errors).toEqual([
+      { message: 'Expected a timestamp line', line: 10, cue: 2 },
+      { message: 'Cue ends before it starts', cue: 0 },
+      { message: 'Cue starts before the previous cue', cue: 1 },
+      { message: 'Expected cue number 2, got 3', cue: 1 },
+    ]);
+  });
+});
+
+describe('conversion', () => {
+  it('should convert SRT to WebVTT and back', () => {
+    const converted = convertSubtitles(srt, 'srt', 'vtt');
+    expect(converted).toBe(`WEBVTT
+
+00:00:01.000 --> 00:00:02.500
+Hello world
+
+00:00:03.000 --> 00:00:05.000
+How are you?
+I am fine.
+`);
+    expect(convertSubtitles(converted, 'vtt', 'srt')).toBe(srt);
+  });
+
+  it('should keep the WebVTT header and cue settings', () => {
+    expect(formatSubtitles(parseSubtitles(vtt, 'vtt'), 'vtt')).toBe(`WEBVTT - Example
+
+STYLE
+::cue { color: yellow }
+
+intro
+00:00:01.000 --> 00:00:02.500 align:start
+Hello world
+
+00:00:03.000 --> 00:00:05.000
+How are you?
+`);
+  });
+});
+
+describe('chunking and re-timing', () => {
+  it('should split on cue boundaries', () => {
+    const document = parseSubtitles(srt, 'srt');
+    expect(chunkSubtitles(document, { maxCues: 1 }).map((c) => c.cues.length)).toEqual([1, 1]);
+    expect(chunkSubtitles(document, { maxChars: 1000 }).map((c) => c.cues.length)).toEqual([2]);
+    expect(chunkSubtitles(document, { maxChars: 5 }).map((c) => c.cues.length)).toEqual([1, 1]);
+  });
+
+  it('should restore original timing on translated cues', () => {
+    const original = parseSubtitles(srt, 'srt').cues;
+    const translated = [
+      { start: 0, end: 10, text: 'Bonjour le monde' },
+      { start: 0, end: 10, text: 'Comment ça va ?' },
+    ];
+    expect(retimeSubtitles(original, translated)).toEqual([
+      { ...original[0], text: 'Bonjour le monde' },
+      { ...original[1], text: 'Comment ça va ?' },
+    ]);
+    expect(() => retimeSubtitles(original, translated.slice(1))).toThrow(
+      'Translated subtitles have 1 cues, expected 2'
+    );
+  });
+});
+
+describe('wrapSubtitleText', () => {
+  it('should re-wrap lines to the maximum length', () => {
+    expect(wrapSubtitleText('This sentence is far\ntoo long for a single line', 20)).toBe(
+      'This sentence is far\ntoo long for a\nsingle line'
+    );
+  });
+
+  it('should keep dialogue lines apart', () => {
+    expect(wrapSubtitleText('- Are you coming?\n- Yes', 40)).toBe('- Are you coming?\n- Yes');
+  });
+});
+
+describe('checkReadingSpeed', () => {
+  it('should flag cues that are too fast to read', () => {
+    const cues = [
+      { id: '1', start: 0, end: 1000, text: '<i>Short</i>' },
+      {
+        id: '2',
+        start: 1000,
+        end: 2000,
+        text: 'This line has far too many\ncharacters for a second',
+      },
+    ];
+    expect(checkReadingSpeed(cues)).toEqual([
+      { index: 1, id: '2', start: 1000, end: 2000, charsPerSecond: 49 },
+    ]);
+    expect(checkReadingSpeed(cues, 100)).toEqual([]);
+  });
+});
+
+describe('TranslatePlusClient.translateSubtitles', () => {
+  let client: TranslatePlusClient;
+
+  beforeEach(() => {
+    client = new TranslatePlusClient({ apiKey: 'test-api-key' });
+    mockedFetch.mockReset();
+  });
+
+  /** Translate cue text to upper case and shift every timestamp, as a misbehaving server might. */
+  function mockSubtitleServer() {
+    mockedFetch.mockImplementation(async (_url: any, init: any) => {
+      const { content, format } = JSON.parse(init.body);
+      const document = parseSubtitles(content, format);
+      const cues = document.cues.map((cue) => ({
+        ...cue,
+        start: cue.start + 100,
+        end: cue.end + 100,
+        text: cue.text.toUpperCase(),
+      }));
+      return {
+        status: 200,
+        json: async () => ({ format, content: formatSubtitles({ ...document, cues }, format) }),
+        headers: {
+          get: () => null,
+        },
+      } as any;
+    });
+  }
+
+  it('should send chunks and reassemble them with the original timing', async () => {
+    mockSubtitleServer();
+
+    const result = await client.translateSubtitles({
+      content: srt,
+      format: 'srt',
+      target: 'fr',
+      chunkSize: 1,
+      maxCharsPerSecond: 10,
+    });
+
+    expect(mockedFetch).toHaveBeenCalledTimes(2);
+    expect(result.content).toBe(`1
+00:00:01,000 --> 00:00:02,500
+HELLO WORLD
+
+2
+00:00:03,000 --> 00:00:05,000
+HOW ARE YOU?
+I AM FINE.
+`);
+    expect(result.readingSpeedWarnings).toEqual([
+      { index: 1, id: '2', start: 3000, end: 5000, charsPerSecond: 11 },
+    ]);
+  });
+
+  it('should re-wrap translated lines', async () => {
+    mockSubtitleServer();
+
+    const result = await client.translateSubtitles({
+      content: srt,
+      format: 'srt',
+      target: 'fr',
+      maxCharsPerLine: 8,
+    });
+
+    expect(parseSubtitles(result.content, 'srt').cues[1].text).toBe('HOW ARE\nYOU? I\nAM FINE.');
+  });
+
+  it('should validate before uploading', async () => {
+    await expect(
+      client.translateSubtitles({
+        content: '2\n00:00:01,000 --> 00:00:02,000\nHi\n',
+        format: 'srt',
+        target: 'fr',
+        validate: true,
+      })
+    ).rejects.toThrow(TranslatePlusValidationError);
+    expect(mockedFetch).not.toHaveBeenCalled();
+  });
+
+  it('should write bilingual cues with the original text first', async () => {
+    mockSubtitleServer();
+
+    const result = await client.translateSubtitles({
+      content: srt,
+      format: 'srt',
+      target: 'fr',
+      bilingual: true,
+    });
+
+    expect(parseSubtitles(result.content, 'srt').cues.map((cue) => cue.text)).toEqual([
+      'Hello world\nHELLO WORLD',
+      'How are you?\nI am fine.\nHOW ARE YOU?\nI AM FINE.',
+    ]);
+  });
+
+  it('should translate into several languages', async () => {
+    mockSubtitleServer();
+
+    const { results, errors } = await client.translateSubtitlesToMany({
+      content: vtt,
+      format: 'vtt',
+      targets: ['fr', 'de', 'fr'],
+      validate: true,
+    });
+
+    expect(Object.keys(results)).toEqual(['fr', 'de']);
+    expect(errors).toEqual({});
+    expect(mockedFetch).toHaveBeenCalledTimes(2);
+    const targets = mockedFetch.mock.calls.map(([, init]: any) => JSON.parse(init.body).target);
+    expect(targets.sort()).toEqual(['de', 'fr']);
+    expect(parseSubtitles(results.de.content, 'vtt').cues[0].text).toBe('HELLO WORLD');
+  });
+
+  it('should keep the languages that succeeded when one fails', async () => {
+    mockSubtitleServer();
+    const translated = mockedFetch.getMockImplementation()!;
+    mockedFetch.mockImplementation(async (url: any, init: any) =>
+      JSON.parse(init.body).target === 'xx'
+        ? ({
+            status: 400,
+            json: async () => ({ detail: 'Unsupported target language' }),
+            headers: { get: () => null },
+          } as any)
+        : translated(url, init)
+    );
+
+    const { results, errors } = await client.translateSubtitlesToMany({
+      content: srt,
+      format: 'srt',
+      targets: ['fr', 'xx'],
+    });
+
+    expect(Object.keys(results)).toEqual(['fr']);
+    expect(errors.xx.message).toContain('Unsupported target language');
+  });
+
+  it('should require at least one target', async () => {
+    await expect(
+      client.translateSubtitlesToMany({ content: srt, format: 'srt', targets: [] })
+    ).rejects.toThrow('At least one target language is required');
+  });
+});
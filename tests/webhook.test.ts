@@ -0,0 +1,91 @@
+/**
+ * Tests for the i18n job webhook receiver.
+ */
+
+import * as crypto from 'crypto';
+import { EventEmitter } from 'events';
+import { I18nWebhookReceiver } from '../src/webhook';
+import { TranslatePlusWebhookError } from '../src/exceptions';
+
+const payload = JSON.stringify({
+  id: 'job-1',
+  status: 'completed',
+  source_language: 'en',
+  target_languages: ['fr', 'es'],
+  progress: 100,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:05:00Z',
+});
+
+function sign(body: string, secret: string) {
+  return 'sha256=' + crypto.createHmac('sha256', secret).update(body).digest('hex');
+}
+
+describe('I18nWebhookReceiver', () => {
+  it('should parse payloads and emit job and status events', () => {
+    const receiver = new I18nWebhookReceiver();
+    const jobs: string[] = [];
+    const completed: string[] = [];
+    receiver.on('job', (job) => jobs.push(job.id));
+    receiver.on('completed', (job) => completed.push(job.target_languages.join(',')));
+
+    const job = receiver.handle(payload);
+
+    expect(job.status).toBe('completed');
+    expect(jobs).toEqual(['job-1']);
+    expect(completed).toEqual(['fr,es']);
+  });
+
+  it('should reject invalid payloads', () => {
+    const receiver = new I18nWebhookReceiver();
+    const errors: Error[] = [];
+    receiver.on('error', (error) => errors.push(error));
+
+    expect(() => receiver.handle('not json')).toThrow(TranslatePlusWebhookError);
+    expect(() => receiver.handle(JSON.stringify({ id: 'job-1', status: 'done' }))).toThrow(
+      'Unknown job status: done'
+    );
+    expect(errors).toHaveLength(2);
+  });
+
+  it('should verify signatures when a secret is set', () => {
+    const receiver = new I18nWebhookReceiver({ secret: 'shh' });
+
+    expect(receiver.handle(payload, { 'X-TranslatePlus-Signature': sign(payload, 'shh') }).id).toBe(
+      'job-1'
+    );
+    expect(() =>
+      receiver.handle(payload, { 'x-translateplus-signature': sign(payload, 'wrong') })
+    ).toThrow('Invalid webhook signature');
+    expect(() => receiver.handle(payload)).toThrow('Missing webhook signature');
+  });
+
+  it('should handle Node http requests', async () => {
+    const receiver = new I18nWebhookReceiver();
+    const received = new Promise((resolve) => receiver.on('job', resolve));
+    const req: any = Object.assign(new EventEmitter(), { method: 'POST', headers: {} });
+    const res: any = { setHeader: jest.fn(), end: jest.fn() };
+
+    receiver.nodeHandler()(req, res);
+    req.emit('data', Buffer.from(payload));
+    req.emit('end');
+
+    await received;
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(res.statusCode).toBe(200);
+    expect(res.end).toHaveBeenCalledWith('{"received":true}');
+  });
+
+  it('should answer Express and Fastify requests', async () => {
+    const receiver = new I18nWebhookReceiver({ secret: 'shh' });
+    const headers = { 'x-translateplus-signature': sign(payload, 'shh') };
+
+    const res: any = { status: jest.fn(() => res), json: jest.fn() };
+    receiver.expressHandler()({ headers, body: Buffer.from(payload) }, res);
+    expect(res.status).toHaveBeenCalledWith(200);
+
+    const reply: any = { code: jest.fn(() => reply), send: jest.fn() };
+    await receiver.fastifyHandler()({ headers: {}, body: JSON.parse(payload) }, reply);
+    expect(reply.code).toHaveBeenCalledWith(401);
+  });
+});
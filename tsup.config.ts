@@ -1,13 +1,36 @@
 import { defineConfig } from 'tsup';
 
-export default defineConfig({
-  entry: ['src/index.ts'],
-  format: ['cjs', 'esm'],
-  dts: true,
-  splitting: false,
-  sourcemap: true,
-  clean: true,
-  treeshake: true,
-  minify: false,
-  external: ['form-data'],
-});
+export default defineConfig([
+  {
+    // One build, so the testing entry shares the main entry's classes (instanceof works across them)
+    entry: ['src/index.ts', 'src/testing.ts'],
+    format: ['cjs', 'esm'],
+    dts: true,
+    splitting: true,
+    sourcemap: true,
+    clean: true,
+    treeshake: true,
+    minify: false,
+    external: ['form-data'],
+  },
+  {
+    entry: ['src/browser.ts'],
+    format: ['cjs', 'esm'],
+    platform: 'browser',
+    dts: true,
+    splitting: false,
+    sourcemap: true,
+    treeshake: true,
+    minify: false,
+  },
+  {
+    entry: ['src/cli.ts'],
+    format: ['cjs'],
+    splitting: false,
+    sourcemap: true,
+    treeshake: true,
+    minify: false,
+    external: ['form-data'],
+    banner: { js: '#!/usr/bin/env node' },
+  },
+]);